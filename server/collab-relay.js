@@ -0,0 +1,111 @@
+// Local WebSocket relay for collaborative editing, for development and tests.
+// Each URL path is a room. The relay keeps a copy of every room's document, so
+// a client that joins late or reconnects gets what it missed, and passes each
+// update on to the other clients in the room. It also passes on presence (who
+// is in the room and where their caret is) and tells everyone when a client
+// leaves. Documents live in memory only, and a room is dropped when its last
+// client leaves; clients send their whole document when they connect, so the
+// next one to join brings it back.
+//
+//   npm run collab:relay            listens on ws://localhost:1234
+//   PORT=4000 npm run collab:relay
+//
+// Pair it with createWebSocketProvider('ws://localhost:1234', roomName).
+
+import { WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+
+// Message types, as in src/lib/editor/sync.ts
+const MESSAGE_SYNC_REQUEST = 0;
+const MESSAGE_UPDATE = 1;
+const MESSAGE_SYNC_REPLY = 2;
+const MESSAGE_AWARENESS = 3;
+
+// Close code for a message that can't be read
+const CLOSE_INVALID_DATA = 1007;
+
+const encodeMessage = (type, payload) => {
+  const message = new Uint8Array(payload.length + 1);
+  message[0] = type;
+  message.set(payload, 1);
+  return message;
+};
+
+export const startRelay = ({ port = 1234 } = {}) => {
+  const rooms = new Map();   // name -> { doc, clients, presence }
+
+  const getRoom = (name) => {
+    let room = rooms.get(name);
+    if (!room) {
+      // `presence` holds the last awareness message of each client, and the
+      // client id it was for, to replay to clients that join later
+      room = { doc: new Y.Doc(), clients: new Set(), presence: new Map() };
+      rooms.set(name, room);
+    }
+    return room;
+  };
+
+  const server = new WebSocketServer({ port });
+  server.on('connection', (socket, request) => {
+    const name = decodeURIComponent(new URL(request.url, 'http://localhost').pathname.slice(1));
+    const room = getRoom(name);
+    room.clients.add(socket);
+    room.presence.forEach(({ message }) => socket.send(message));
+
+    const broadcast = (message) => {
+      room.clients.forEach(client => {
+        if (client !== socket && client.readyState === client.OPEN) client.send(message);
+      });
+    };
+
+    socket.on('message', (data) => {
+      const message = new Uint8Array(data);
+      const payload = message.subarray(1);
+      if (message[0] === MESSAGE_SYNC_REQUEST || message[0] === MESSAGE_UPDATE) {
+        // Yjs throws on bytes it can't decode. Only the client that sent them
+        // is dropped; the room and everyone else in it carry on.
+        try {
+          if (message[0] === MESSAGE_SYNC_REQUEST) {
+            socket.send(encodeMessage(MESSAGE_SYNC_REPLY, Y.encodeStateAsUpdate(room.doc, payload)));
+          } else {
+            Y.applyUpdate(room.doc, payload);
+            broadcast(message);
+          }
+        } catch {
+          socket.close(CLOSE_INVALID_DATA, 'Malformed message');
+        }
+      } else if (message[0] === MESSAGE_AWARENESS) {
+        let clientId;
+        try {
+          clientId = JSON.parse(new TextDecoder().decode(payload)).clientId;
+        } catch {
+          return;
+        }
+        if (typeof clientId !== 'string') return;
+        room.presence.set(socket, { clientId, message });
+        broadcast(message);
+      }
+    });
+    // A broken connection closes by itself; unhandled, its error would end the process
+    socket.on('error', () => undefined);
+    socket.on('close', () => {
+      room.clients.delete(socket);
+      if (!room.clients.size && rooms.get(name) === room) {
+        room.doc.destroy();
+        rooms.delete(name);
+        return;
+      }
+      const presence = room.presence.get(socket);
+      if (!presence) return;
+      room.presence.delete(socket);
+      broadcast(encodeMessage(MESSAGE_AWARENESS, new TextEncoder().encode(JSON.stringify({ clientId: presence.clientId, state: null }))));
+    });
+  });
+  return server;
+};
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const port = Number(process.env.PORT) || 1234;
+  startRelay({ port });
+  console.log(`Collaboration relay listening on ws://localhost:${port}`);
+}
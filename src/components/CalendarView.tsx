@@ -21,6 +21,7 @@ interface CalendarViewProps {
   onEventCreate: (event: Omit<CalendarEvent, 'id'>) => void;
   onEventUpdate: (eventId: string, event: Partial<CalendarEvent>) => void;
   onEventDelete: (eventId: string) => void;
+  readOnly?: boolean;   // Events can be browsed but not created, edited or deleted
 }
 
 const CalendarView: React.FC<CalendarViewProps> = ({
@@ -29,7 +30,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
   onDateSelect,
   onEventCreate,
   onEventUpdate,
-  onEventDelete
+  onEventDelete,
+  readOnly = false
 }) => {
   const [currentDate, setCurrentDate] = useState(selectedDate);
   const [view, setView] = useState<'month' | 'week' | 'day'>('month');
@@ -67,12 +69,14 @@ const CalendarView: React.FC<CalendarViewProps> = ({
   };
 
   const handleTimeSlotClick = (date: Date, time: string) => {
+    if (readOnly) return;
     setSelectedSlot({ date, time });
     setEditingEvent(null);
     setShowEventModal(true);
   };
 
   const handleEventClick = (event: CalendarEvent) => {
+    if (readOnly) return;
     setEditingEvent(event);
     setSelectedSlot(null);
     setShowEventModal(true);
@@ -94,8 +98,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
         return (
           <div
             key={day.toISOString()}
-            onClick={() => onDateSelect(day)}
-            className={`min-h-[120px] p-2 border border-gray-100 cursor-pointer hover:bg-gray-50 ${
+            onClick={() => !readOnly && onDateSelect(day)}
+            className={`min-h-[120px] p-2 border border-gray-100 ${readOnly ? '' : 'cursor-pointer hover:bg-gray-50'} ${
               !isCurrentMonth ? 'text-gray-400 bg-gray-50' : ''
             } ${isSelected ? 'ring-2 ring-blue-500' : ''} ${isTodayDate ? 'bg-blue-50' : ''}`}
           >
@@ -110,7 +114,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                     e.stopPropagation();
                     handleEventClick(event);
                   }}
-                  className={`text-xs p-1 rounded text-white truncate cursor-pointer hover:opacity-80 ${event.color}`}
+                  className={`text-xs p-1 rounded text-white truncate ${readOnly ? '' : 'cursor-pointer hover:opacity-80'} ${event.color}`}
                 >
                   {format(event.startTime, 'HH:mm')} {event.title}
                 </div>
@@ -141,7 +145,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
             <div
               key={time}
               onClick={() => handleTimeSlotClick(selectedDate, time)}
-              className="h-12 border-b border-gray-100 hover:bg-gray-50 cursor-pointer relative"
+              className={`h-12 border-b border-gray-100 relative ${readOnly ? '' : 'hover:bg-gray-50 cursor-pointer'}`}
             >
               {slotEvents.map((event, index) => (
                 <div
@@ -150,7 +154,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                     e.stopPropagation();
                     handleEventClick(event);
                   }}
-                  className={`absolute left-1 right-1 top-1 bottom-1 p-1 rounded text-white text-xs cursor-pointer hover:opacity-80 ${event.color}`}
+                  className={`absolute left-1 right-1 top-1 bottom-1 p-1 rounded text-white text-xs ${readOnly ? '' : 'cursor-pointer hover:opacity-80'} ${event.color}`}
                   style={{ zIndex: index + 1 }}
                 >
                   <div className="font-medium truncate">{event.title}</div>
@@ -202,17 +206,19 @@ const CalendarView: React.FC<CalendarViewProps> = ({
               </button>
             ))}
           </div>
-          <button
-            onClick={() => {
-              setSelectedSlot({ date: selectedDate, time: '09:00' });
-              setEditingEvent(null);
-              setShowEventModal(true);
-            }}
-            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
-          >
-            <Plus className="w-4 h-4" />
-            <span>Create</span>
-          </button>
+          {!readOnly && (
+            <button
+              onClick={() => {
+                setSelectedSlot({ date: selectedDate, time: '09:00' });
+                setEditingEvent(null);
+                setShowEventModal(true);
+              }}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Create</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -222,7 +228,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
       </div>
 
       {/* Event Modal */}
-      {showEventModal && (
+      {showEventModal && !readOnly && (
         <EventModal
           event={editingEvent}
           selectedSlot={selectedSlot}
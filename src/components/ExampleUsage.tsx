@@ -1,8 +1,12 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import NotionEditorForm from './NotionEditorForm';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { toast } from '@/hooks/use-toast';
+import type { CommentThread, CommentUser } from '@/lib/editor/comments';
+import { StoredBlock, StoredDocument, readDocument, serializeDocument } from '@/lib/editor/document';
+import type { Suggestion } from '@/lib/editor/suggestions';
 
 // This represents what you would send to your database
 interface DatabaseRecord {
@@ -11,16 +15,54 @@ interface DatabaseRecord {
   description?: string;
   category: string;
   tags?: string;
-  editorContent: any[]; // The NotionEditor blocks
+  editorContent: StoredDocument | StoredBlock[]; // The editor document; older records hold a bare block array
   createdAt?: Date;
   updatedAt?: Date;
   authorId?: string;
 }
 
+// Would come from authentication and your user directory
+const currentUser: CommentUser = { id: 'user_123', name: 'Demo User' };
+const teamMembers: CommentUser[] = [
+  currentUser,
+  { id: 'user_456', name: 'Alex Kim' },
+  { id: 'user_789', name: 'Sam Rivera' }
+];
+
 const ExampleUsage: React.FC = () => {
   const [savedData, setSavedData] = useState<DatabaseRecord | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  // Stored documents of any schema version are upgraded when they are read.
+  // One written by a newer editor, or not a document at all, can't be opened.
+  const savedRead = useMemo(() => (savedData ? readDocument(savedData.editorContent) : undefined), [savedData]);
+  const savedDocument = savedRead?.document;
+  const savedBlocks = savedDocument?.blocks;
+
+  // Comments are saved in the document next to the blocks, not inside them
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  useEffect(() => setThreads(savedDocument?.comments || []), [savedDocument]);
+  const comments = useMemo(() => ({
+    user: currentUser,
+    people: teamMembers,
+    threads,
+    onChange: setThreads,
+    // Your backend would email or notify them
+    onMention: (person: CommentUser) => toast({ title: `${person.name} was mentioned`, description: 'They would be notified about the comment.' })
+  }), [threads]);
+
+  // So are suggested edits, until someone accepts or rejects them
+  const [pendingSuggestions, setPendingSuggestions] = useState<Suggestion[]>([]);
+  useEffect(() => setPendingSuggestions(savedDocument?.suggestions || []), [savedDocument]);
+  const suggestions = useMemo(() => ({
+    user: currentUser,
+    suggestions: pendingSuggestions,
+    onChange: setPendingSuggestions
+  }), [pendingSuggestions]);
+
+  // Versions are kept per record and credited to the record's author
+  const history = useMemo(() => ({ key: savedData?.id || 'new-document', authorId: savedData?.authorId || 'user_123' }), [savedData]);
+
   // Simulate saving to database
   const handleSaveToDatabase = async (formData: any) => {
     setIsLoading(true);
@@ -36,7 +78,7 @@ const ExampleUsage: React.FC = () => {
         description: formData.description,
         category: formData.category,
         tags: formData.tags,
-        editorContent: formData.editorContent,
+        editorContent: serializeDocument(formData.editorContent, { title: formData.title, updatedAt: new Date().toISOString() }, threads, pendingSuggestions),
         createdAt: new Date(),
         updatedAt: new Date(),
         authorId: 'user_123' // Would come from authentication
@@ -133,10 +175,19 @@ const ExampleUsage: React.FC = () => {
               </CardContent>
             </Card>
             
+            {savedRead?.error && (
+              <p className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900/50 dark:bg-red-900/20 dark:text-red-300">
+                The saved document can't be opened: {savedRead.error}
+              </p>
+            )}
+
             <NotionEditorForm
               onSubmit={handleSaveToDatabase}
-              initialData={savedData || undefined}
+              initialData={savedData && savedBlocks ? { ...savedData, editorContent: savedBlocks } : undefined}
               isLoading={isLoading}
+              history={history}
+              comments={comments}
+              suggestions={suggestions}
             />
           </div>
 
@@ -164,7 +215,7 @@ const ExampleUsage: React.FC = () => {
                     </div>
                     
                     <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
-                      <h3 className="font-semibold mb-2">Editor Content ({savedData.editorContent.length} blocks)</h3>
+                      <h3 className="font-semibold mb-2">Editor Content ({savedBlocks?.length} blocks)</h3>
                       <pre className="text-xs bg-white dark:bg-gray-900 p-3 rounded border overflow-auto max-h-96">
                         {JSON.stringify(savedData.editorContent, null, 2)}
                       </pre>
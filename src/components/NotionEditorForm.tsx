@@ -4,6 +4,10 @@ import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import NotionEditorFormIntegrated from './NotionEditorFormIntegrated';
+import type { CommentOptions } from '@/hooks/use-comments';
+import type { SnapshotOptions } from '@/hooks/use-snapshots';
+import type { SuggestionOptions } from '@/hooks/use-suggestions';
+import { blocksSchema, checkUniqueBlockIds } from '@/lib/editor/block-schema';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
@@ -15,32 +19,7 @@ const formSchema = z.object({
   description: z.string().optional(),
   category: z.string().min(1, 'Category is required'),
   tags: z.string().optional(),
-  editorContent: z.array(z.object({
-    id: z.string(),
-    type: z.string(),
-    content: z.string(),
-    alignment: z.string().optional(),
-    checked: z.boolean().optional(),
-    collapsed: z.boolean().optional(),
-    children: z.array(z.any()).optional(),
-    color: z.string().optional(),
-    backgroundColor: z.string().optional(),
-    tableData: z.object({
-      headers: z.array(z.string()),
-      rows: z.array(z.array(z.string()))
-    }).optional(),
-    chartData: z.object({
-      labels: z.array(z.string()),
-      values: z.array(z.number())
-    }).optional(),
-    toggleTitle: z.string().optional(),
-    toggleContent: z.string().optional(),
-    selectedDate: z.date().optional(),
-    calendarEvents: z.array(z.any()).optional(),
-    fileName: z.string().optional(),
-    fileSize: z.string().optional(),
-    fileType: z.string().optional()
-  })).min(1, 'Editor content is required')
+  editorContent: blocksSchema.min(1, 'Editor content is required').superRefine(checkUniqueBlockIds)
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -49,12 +28,18 @@ interface NotionEditorFormProps {
   onSubmit: (data: FormData) => void;
   initialData?: Partial<FormData>;
   isLoading?: boolean;
+  history?: SnapshotOptions;  // Version history for the editor content
+  comments?: CommentOptions;  // Comment threads on the editor content
+  suggestions?: SuggestionOptions;  // Suggested edits to the editor content
 }
 
 const NotionEditorForm: React.FC<NotionEditorFormProps> = ({
   onSubmit,
   initialData,
-  isLoading = false
+  isLoading = false,
+  history,
+  comments,
+  suggestions
 }) => {
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -171,6 +156,9 @@ const NotionEditorForm: React.FC<NotionEditorFormProps> = ({
                           <NotionEditorFormIntegrated
                             initialContent={value}
                             onChange={onChange}
+                            history={history}
+                            comments={comments}
+                            suggestions={suggestions}
                           />
                         )}
                       />
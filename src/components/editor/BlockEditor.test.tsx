@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Block } from '@/lib/editor/blocks';
+import BlockEditor from './BlockEditor';
+
+const user = { id: 'u1', name: 'Ada' };
+
+const blocks: Block[] = [
+  { id: 'a', type: 'paragraph', content: 'first' },
+  { id: 'b', type: 'paragraph', content: 'second' }
+];
+
+beforeAll(() => {
+  // jsdom has no media queries or layout
+  window.matchMedia = vi.fn(() => ({ matches: false, addEventListener: vi.fn(), removeEventListener: vi.fn() })) as unknown as typeof window.matchMedia;
+});
+
+afterEach(cleanup);
+
+// Selects block `id` as a whole, as Escape in its text does
+const selectBlock = (container: HTMLElement, id: string) =>
+  fireEvent.keyDown(container.querySelector(`[data-block-id="${id}"] [data-editable]`)!, { key: 'Escape' });
+
+const renderedIds = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('[data-block-id]')).map(element => element.getAttribute('data-block-id'));
+
+describe('BlockEditor while suggesting', () => {
+  it('disables the selection actions that add, move or remove blocks', () => {
+    const { container } = render(<BlockEditor defaultValue={blocks} suggestions={{ user, suggestOnly: true }} />);
+    selectBlock(container, 'a');
+    for (const title of ['Move up', 'Move down', 'Duplicate', 'Cut', 'Delete']) {
+      expect(screen.getByTitle(new RegExp(`^${title}`))).toHaveProperty('disabled', true);
+    }
+    expect(screen.getByTitle(/^Copy/)).toHaveProperty('disabled', false);
+  });
+
+  it('says why a structural change made from the keyboard was refused', () => {
+    const onChange = vi.fn();
+    const { container } = render(<BlockEditor defaultValue={blocks} onChange={onChange} suggestions={{ user, suggestOnly: true }} />);
+    expect(screen.queryByText(/Suggestions can change what blocks say/)).toBeNull();
+
+    selectBlock(container, 'a');
+    fireEvent.keyDown(document, { key: 'ArrowDown', altKey: true, shiftKey: true });
+    fireEvent.keyDown(document, { key: 'Delete' });
+    expect(renderedIds(container)).toEqual(['a', 'b']);
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByText(/Suggestions can change what blocks say, but not add, move or remove blocks/)).toBeTruthy();
+  });
+
+  it('lets the same changes through while editing', () => {
+    const { container } = render(<BlockEditor defaultValue={blocks} suggestions={{ user }} />);
+    selectBlock(container, 'a');
+    fireEvent.keyDown(document, { key: 'ArrowDown', altKey: true, shiftKey: true });
+    expect(renderedIds(container)).toEqual(['b', 'a']);
+    expect(screen.queryByText(/Suggestions can change what blocks say/)).toBeNull();
+  });
+});
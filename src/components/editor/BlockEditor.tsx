@@ -0,0 +1,1225 @@
+import React, { useState, useRef, useEffect, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
+import {
+  Plus,
+  Grip,
+  Type,
+  AlignLeft,
+  AlignCenter,
+  AlignRight,
+  Trash2,
+  ChevronDown,
+  MessageSquare,
+  MessageSquarePlus
+} from 'lucide-react';
+import { AutosaveOptions, useAutosave } from '@/hooks/use-autosave';
+import { useBlockClipboard } from '@/hooks/use-block-clipboard';
+import { useBlockDrag } from '@/hooks/use-block-drag';
+import { useBlockSelection } from '@/hooks/use-block-selection';
+import { CollaborationOptions, useCollaboration } from '@/hooks/use-collaboration';
+import type { CommentOptions } from '@/hooks/use-comments';
+import { useControllableState } from '@/hooks/use-controllable-state';
+import { useEditorComments } from '@/hooks/use-editor-comments';
+import { useEditorHistory } from '@/hooks/use-editor-history';
+import { useEditorSuggestions } from '@/hooks/use-editor-suggestions';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { usePresence } from '@/hooks/use-presence';
+import { useSlashMenu } from '@/hooks/use-slash-menu';
+import { SnapshotOptions, useSnapshots } from '@/hooks/use-snapshots';
+import type { SuggestionOptions } from '@/hooks/use-suggestions';
+import {
+  Block,
+  appendChildBlock,
+  cloneBlock,
+  createBlock,
+  findBlock,
+  getBlockRichText,
+  getOutermostBlocks,
+  getRichTextUpdates,
+  getTextField,
+  getTypeChangeUpdates,
+  indentBlock,
+  insertBlockAfter,
+  insertBlocksAfter,
+  moveBlocks,
+  moveToggleContentToChildren,
+  outdentBlock,
+  removeBlockById,
+  removeBlocks,
+  updateBlockById
+} from '@/lib/editor/blocks';
+import { restoreBlock } from '@/lib/editor/diff';
+import { applyInlineInputRule, matchBlockInputRule } from '@/lib/editor/input-rules';
+import { BlockRenderProps, BlockTypeDefinition, getBlockType } from '@/lib/editor/registry';
+import type { HistorySelection } from '@/lib/editor/history';
+import {
+  Marks,
+  RichText as RichTextValue,
+  ToggleMarkType,
+  addMarks,
+  getActiveMarks,
+  htmlToRichText,
+  insertText,
+  removeMark,
+  richTextToHtml,
+  richTextToPlainText,
+  sliceRichText,
+  toggleMark
+} from '@/lib/editor/rich-text';
+import { SanitizePolicy, SanitizeReport, defaultSanitizePolicy, sanitizeBlock, sanitizeBlocks } from '@/lib/editor/sanitize';
+import { focusBlock, getSelectionOffsets, setSelectionOffsets } from '@/lib/editor/selection';
+import { SUGGESTED_TEXT_CLASS_NAME, Suggestion, isSuggestionOutdated, suggestedTextToHtml } from '@/lib/editor/suggestions';
+import { blocksToMarkdown } from '@/lib/editor/to-markdown';
+import { UploadAdapter, UploadLimits, createMediaStoreUploadAdapter } from '@/lib/editor/upload';
+import { DocumentIssue, validateDocument } from '@/lib/editor/validate-document';
+import BlockSelectionToolbar from './BlockSelectionToolbar';
+import BlockRenderer from './BlockRenderer';
+import BlockTypeList from './BlockTypeList';
+import CommentHighlights from './CommentHighlights';
+import CommentsPanel from './CommentsPanel';
+import ContentEditable from './ContentEditable';
+import DraftRecoveryBanner from './DraftRecoveryBanner';
+import EditorToolbar from './EditorToolbar';
+import FormatMenu from './FormatMenu';
+import MediaPickerDialog from './MediaPickerDialog';
+import RemoteCursors from './RemoteCursors';
+import RichText from './RichText';
+import SlashMenu from './SlashMenu';
+import SuggestedText from './SuggestedText';
+import SuggestionControls from './SuggestionControls';
+import VersionHistoryPanel from './VersionHistoryPanel';
+import { SanitizeContext } from './sanitize-context';
+import './blocks';
+
+export interface BlockEditorProps {
+  value?: Block[];                        // Controlled blocks; pair with onChange
+  defaultValue?: Block[];                 // Initial blocks when uncontrolled
+  onChange?: (content: Block[]) => void;  // Called with the full block list after every edit
+  readOnly?: boolean;
+  placeholder?: string;                   // Shown in empty text blocks
+  className?: string;
+  sanitizePolicy?: SanitizePolicy;        // Allow-list for HTML and URLs; keep the object stable
+  onSanitize?: (report: SanitizeReport) => void;  // Called with whatever the sanitizer removed
+  onRepair?: (issues: DocumentIssue[]) => void;    // Called with whatever was repaired in loaded blocks
+  autosave?: AutosaveOptions;             // Saves a draft while typing and offers it back after a reload
+  history?: SnapshotOptions;              // Keeps saved versions of the document, shown from the toolbar
+  uploadAdapter?: UploadAdapter;          // Where uploaded files go; IndexedDB in this browser by default
+  uploadLimits?: Partial<UploadLimits>;   // Size and type limits per kind of upload; keep the object stable
+  collaboration?: CollaborationOptions;   // Edits the document together with others through a sync provider
+  comments?: CommentOptions;              // Comment threads on text and blocks, kept apart from the blocks
+  suggestions?: SuggestionOptions;        // Suggesting mode: edits are proposed for review instead of made
+}
+
+export interface BlockEditorHandle {
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+}
+
+export interface UpdateOptions {
+  group?: string;   // Consecutive updates to the same block and group undo together
+}
+
+const defaultUploadAdapter = createMediaStoreUploadAdapter();
+
+const defaultContent: Block[] = [
+  { id: 'block-1', type: 'paragraph', content: '', alignment: 'left' }
+];
+
+// Blocks coming from outside are migrated, repaired and sanitized before they
+// are shown or edited
+const loadBlocks = (blocks: Block[], policy: SanitizePolicy) => {
+  const { blocks: repaired, issues } = validateDocument(moveToggleContentToChildren(blocks));
+  return { ...sanitizeBlocks(repaired, policy), issues };
+};
+
+// The editor engine shared by NotionEditor and NotionEditorFormIntegrated
+const BlockEditor = forwardRef<BlockEditorHandle, BlockEditorProps>(({
+  value,
+  defaultValue,
+  onChange,
+  readOnly = false,
+  placeholder = "Type '/' for commands",
+  className = '',
+  sanitizePolicy = defaultSanitizePolicy,
+  onSanitize,
+  onRepair,
+  autosave,
+  history,
+  uploadAdapter = defaultUploadAdapter,
+  uploadLimits,
+  collaboration,
+  comments,
+  suggestions: suggestionOptions
+}, ref) => {
+  const onSanitizeRef = useRef(onSanitize);
+  onSanitizeRef.current = onSanitize;
+  const onRepairRef = useRef(onRepair);
+  onRepairRef.current = onRepair;
+  const sanitizeContext = useMemo(() => ({
+    policy: sanitizePolicy,
+    report: (report: SanitizeReport) => onSanitizeRef.current?.(report)
+  }), [sanitizePolicy]);
+
+  const loadedValue = useMemo(() => value && loadBlocks(value, sanitizePolicy), [value, sanitizePolicy]);
+  const [loadedDefault] = useState(() => loadBlocks(defaultValue || defaultContent, sanitizePolicy));
+
+  const [storedContent, setStoredContent] = useControllableState<Block[]>({
+    value: loadedValue?.blocks,
+    defaultValue: loadedDefault.blocks,
+    onChange
+  });
+
+  useEffect(() => {
+    if (loadedDefault.issues.length) onRepairRef.current?.(loadedDefault.issues);
+    if (loadedDefault.removed.length) sanitizeContext.report({ source: 'load', removed: loadedDefault.removed });
+    // Only the initial blocks are reported here
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!loadedValue || !value) return;
+    if (loadedValue.issues.length) onRepairRef.current?.(loadedValue.issues);
+    if (loadedValue.removed.length) sanitizeContext.report({ source: 'load', removed: loadedValue.removed });
+    // Hand the cleaned blocks back so broken or unsafe content does not reach storage
+    if (loadedValue.blocks !== value) onChange?.(loadedValue.blocks);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadedValue]);
+
+  // Loads blocks from a draft, a version or another copy, reporting what was repaired or removed
+  const loadAndReport = (blocks: Block[]) => {
+    const { blocks: loaded, removed, issues } = loadBlocks(blocks, sanitizePolicy);
+    if (issues.length) onRepairRef.current?.(issues);
+    if (removed.length) sanitizeContext.report({ source: 'load', removed });
+    return loaded;
+  };
+
+  // Blocks from other copies of a shared document are loaded like any other
+  // blocks from outside. Edits made before the first sync, e.g. while the
+  // server is down, are merged in when it arrives.
+  const shared = useCollaboration(storedContent, setStoredContent, collaboration, { readOnly, load: loadAndReport });
+
+  const {
+    suggestions,
+    suggesting,
+    setSuggesting,
+    remove: removeSuggestions,
+    proposed: proposedContent,
+    content,
+    setContent,
+    byBlock: suggestionsByBlock,
+    showTools: showSuggestionTools,
+    canReview,
+    canReject,
+    isLocked: isLockedBySuggestion
+  } = useEditorSuggestions(storedContent, setStoredContent, suggestionOptions, { readOnly, sanitizePolicy });
+
+  const [selectedBlock, setSelectedBlock] = useState<string | null>(null);
+  const [showBlockMenu, setShowBlockMenu] = useState<string | null>(null);
+  const [mediaPicker, setMediaPicker] = useState<{ blockId: string; kind: 'image' | 'file' } | null>(null);
+  const [showFormatMenu, setShowFormatMenu] = useState(false);
+  const [formatMenuPosition, setFormatMenuPosition] = useState({ x: 0, y: 0 });
+  const [formatSelection, setFormatSelection] = useState<HistorySelection | null>(null);
+  const [showTypeMenu, setShowTypeMenu] = useState<string | null>(null);
+  const isMobile = useIsMobile();
+
+  const menuRef = useRef<HTMLDivElement>(null);
+  const typeMenuRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+  const mainRef = useRef<HTMLElement>(null);
+
+  // Close menus when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowBlockMenu(null);
+      }
+      if (typeMenuRef.current && !typeMenuRef.current.contains(event.target as Node)) {
+        setShowTypeMenu(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  // Caret position inside the editor, as block id + text offsets
+  const readSelection = useCallback((): HistorySelection | null => {
+    const anchor = window.getSelection()?.anchorNode;
+    if (!anchor || !editorRef.current?.contains(anchor)) return null;
+
+    const element = anchor instanceof Element ? anchor : anchor.parentElement;
+    const editable = element?.closest<HTMLElement>('[data-editable]');
+    const blockElement = editable?.closest<HTMLElement>('[data-block-id]');
+    const offsets = editable && getSelectionOffsets(editable);
+    if (!blockElement || !offsets) return null;
+
+    return { blockId: blockElement.dataset.blockId!, field: editable.dataset.field, ...offsets };
+  }, []);
+
+  // Focuses the editable region `selection` points into and selects its range
+  const restoreSelection = useCallback((selection: HistorySelection) => {
+    const fieldSelector = selection.field ? `[data-field="${selection.field}"]` : '[data-editable]';
+    const editable = editorRef.current?.querySelector<HTMLElement>(`[data-block-id="${selection.blockId}"] ${fieldSelector}`);
+    if (editable) setSelectionOffsets(editable, selection);
+  }, []);
+
+  // Where everyone else in a shared document is, and where this copy's caret is for them
+  const collaborators = usePresence(collaboration?.awareness ?? collaboration?.provider.awareness, collaboration?.user, {
+    doc: shared.doc,
+    blocks: storedContent,
+    readCursor: readSelection
+  });
+
+  const {
+    applyChange,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    clear: clearHistory,
+    structureRefused,
+    lastSelectionRef,
+    pendingSelectionRef
+  } = useEditorHistory(content, setContent, { readOnly, suggesting, shared, readSelection, restoreSelection });
+
+  const {
+    selection: blockSelection,
+    setSelection: setBlockSelection,
+    selectRange: selectBlockRange,
+    getRenderedBlockIds,
+    band: selectionBand,
+    startBand: handleSelectionBandStart
+  } = useBlockSelection(editorRef, readOnly);
+
+  const slashMenu = useSlashMenu(restoreSelection);
+  const { open: openSlashMenu } = slashMenu;
+
+  // Undo steps of one mode don't apply to the other
+  const changeSuggestionMode = (mode: 'editing' | 'suggesting') => {
+    if ((mode === 'suggesting') === suggesting) return;
+    clearHistory();
+    setSuggesting(mode === 'suggesting');
+  };
+
+  const { status: saveStatus, draft, dismissDraft } = useAutosave(storedContent, readOnly ? undefined : autosave);
+  // Repaired like restored blocks, for the draft's preview
+  const draftBlocks = useMemo(() => draft && loadBlocks(draft.blocks, sanitizePolicy).blocks, [draft, sanitizePolicy]);
+
+  // The restored draft is loaded like any other blocks from outside, and the
+  // restore can be undone
+  const restoreDraft = () => {
+    if (!draft) return;
+    const blocks = loadAndReport(draft.blocks);
+    applyChange(() => blocks);
+    dismissDraft(false);
+  };
+
+  const { snapshots, error: snapshotError, createSnapshot, removeSnapshot } = useSnapshots(storedContent, readOnly ? undefined : history);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Versions are loaded like drafts; restoring a version or one of its blocks can be undone
+  const restoreVersion = (version: Block[], blockId?: string) => {
+    const blocks = loadAndReport(version);
+    applyChange(current => (blockId ? restoreBlock(current, blocks, blockId) : blocks));
+  };
+
+  const {
+    threads,
+    openThreads,
+    showTools: showCommentTools,
+    panelOpen: showComments,
+    setPanelOpen: setShowComments,
+    draft: commentDraft,
+    cancelDraft: cancelCommentDraft,
+    activeThreadId,
+    setActiveThreadId,
+    start: startComment,
+    create: createThread,
+    showThread,
+    reply: replyToThread,
+    resolve: resolveThread,
+    reopen: reopenThread,
+    remove: removeThreadComment
+  } = useEditorComments(storedContent, comments, readOnly);
+
+  useImperativeHandle(ref, () => ({
+    undo,
+    redo,
+    canUndo: () => canUndo,
+    canRedo: () => canRedo
+  }), [undo, redo, canUndo, canRedo]);
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent) => {
+    // Typing on after a paste keeps the Markdown as text
+    dismissMarkdownPaste();
+    if (readOnly || !(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+    const shortcutMarks: Record<string, ToggleMarkType> = { b: 'bold', i: 'italic', u: 'underline' };
+
+    if (shortcutMarks[key] && !e.shiftKey) {
+      // Handled by the marks model rather than the browser's own formatting
+      e.preventDefault();
+      const selection = readSelection();
+      if (selection) applyMarks(selection, (richText) => toggleMark(richText, selection.start, selection.end, shortcutMarks[key]));
+    } else if (key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    } else if (key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  };
+
+  // Block manipulation functions
+  const addBlock = useCallback((type: Block['type'], afterId?: string) => {
+    const newBlock = createBlock(type);
+
+    applyChange(currentContent => insertBlockAfter(currentContent, newBlock, afterId));
+
+    setShowBlockMenu(null);
+    focusBlock(newBlock.id);
+  }, [applyChange]);
+
+  const addChildBlock = useCallback((type: Block['type'], parentId: string) => {
+    const newBlock = createBlock(type);
+    applyChange(currentContent => appendChildBlock(currentContent, parentId, newBlock));
+    focusBlock(newBlock.id);
+  }, [applyChange]);
+
+  // Tab nests a block under the one above it; Shift+Tab moves it back out
+  const indentOrOutdent = useCallback((id: string, outdent: boolean) => {
+    const change = outdent ? outdentBlock : indentBlock;
+    if (change(content, id) === content) return false;
+
+    // The block moves to a new parent, so its text region is remounted
+    pendingSelectionRef.current = readSelection();
+    applyChange(currentContent => change(currentContent, id));
+    return true;
+  }, [content, applyChange, readSelection, pendingSelectionRef]);
+
+  // Updates several blocks as one change. Edits are held to the same
+  // sanitizer policy as loaded content.
+  const updateBlocks = useCallback((ids: string[], getUpdates: (block: Block) => Partial<Block>, group?: string) => {
+    const changes = ids.flatMap(id => {
+      const block = findBlock(content, id);
+      if (!block) return [];
+
+      const updates = getUpdates(block);
+      const { block: safeBlock, removed } = sanitizeBlock({ ...block, ...updates }, sanitizeContext.policy);
+      if (removed.length) sanitizeContext.report({ source: 'input', removed });
+      const safeUpdates: Partial<Block> = Object.fromEntries(Object.keys(updates).map(key => [key, safeBlock[key]]));
+      return [{ id, updates: safeUpdates }];
+    });
+    if (!changes.length) return;
+
+    applyChange(
+      currentContent => changes.reduce((blocks, { id, updates }) => updateBlockById(blocks, id, updates), currentContent),
+      group
+    );
+  }, [content, applyChange, sanitizeContext]);
+
+  const updateBlock = useCallback((id: string, updates: Partial<Block>, options: UpdateOptions = {}) => {
+    updateBlocks([id], () => updates, options.group && `${id}:${options.group}`);
+  }, [updateBlocks]);
+
+  // `richText`, when given, replaces the text of the blocks as part of the change
+  const changeBlockType = useCallback((ids: string[], newType: Block['type'], richText?: RichTextValue) => {
+    updateBlocks(ids, block => {
+      const source = richText ? { ...block, ...getRichTextUpdates(block, richText) } : block;
+      return getTypeChangeUpdates(source, newType);
+    });
+    setShowTypeMenu(null);
+  }, [updateBlocks]);
+
+  // Makes the suggested changes as one step that can be undone
+  const acceptSuggestions = (accepted: Suggestion[]) => {
+    const updates = new Map(accepted.map(suggestion => [suggestion.blockId, suggestion.after]));
+    updateBlocks([...updates.keys()], block => updates.get(block.id)!);
+    removeSuggestions(accepted.map(suggestion => suggestion.id));
+  };
+
+  // Typed text, after any input rule it completes: a trigger such as '# ' at
+  // the start of a block changes its type, and text wrapped in '**' or '_'
+  // becomes formatted
+  const handleTextInput = (block: Block, html: string) => {
+    const field = getTextField(block);
+    // Deletions shown in suggested text aren't part of it
+    const richText = htmlToRichText(html, suggestionsByBlock.has(block.id) ? { ignore: ['del'] } : undefined);
+    const selection = readSelection();
+    const caret = selection && selection.field === field && selection.start === selection.end ? selection.start : null;
+
+    const blockRule = caret !== null && block.type !== 'code'
+      ? matchBlockInputRule(richTextToPlainText(richText), caret)
+      : undefined;
+    const remaining = blockRule && sliceRichText(richText, blockRule.trigger.length);
+    // Blocks without text (e.g. dividers) only replace an otherwise empty block
+    const convertible = blockRule && blockRule.type !== block.type && !(getBlockType(blockRule.type)?.render && remaining?.length);
+
+    if (blockRule && remaining && convertible) {
+      const newField = getBlockType(blockRule.type)?.textField || 'content';
+      pendingSelectionRef.current = { blockId: block.id, field: newField, start: 0, end: 0 };
+      changeBlockType([block.id], blockRule.type, remaining);
+      if (getBlockType(blockRule.type)?.render) addBlock('paragraph', block.id);
+      return;
+    }
+
+    const inline = caret !== null && block.type !== 'code' ? applyInlineInputRule(richText, caret) : null;
+    if (selection && inline) {
+      pendingSelectionRef.current = { ...selection, start: inline.caret, end: inline.caret };
+    }
+    updateBlock(block.id, getRichTextUpdates(block, inline ? inline.richText : richText), { group: `typing-${field}` });
+  };
+
+  // Line break inside a text block, made through the marks model so the
+  // browser does not add its own <div>/<br> markup
+  const insertLineBreak = useCallback(() => {
+    const selection = readSelection();
+    const block = selection && findBlock(content, selection.blockId);
+    if (!selection || !block || selection.field !== getTextField(block)) return;
+
+    const richText = insertText(getBlockRichText(block), selection.start, selection.end, '\n');
+    const caret = selection.start + 1;
+    pendingSelectionRef.current = { ...selection, start: caret, end: caret };
+    updateBlock(block.id, getRichTextUpdates(block, richText), { group: `typing-${selection.field}` });
+  }, [content, readSelection, updateBlock, pendingSelectionRef]);
+
+  // Typing in suggested text is made in the suggested version directly, so it
+  // never lands inside a deletion shown in the text
+  const handleSuggestedInput = (event: InputEvent) => {
+    const editable = event.target instanceof Element ? event.target.closest('[data-editable][data-suggested]') : null;
+    const selection = editable && readSelection();
+    const block = selection && findBlock(content, selection.blockId);
+    if (!selection || !block || selection.field !== getTextField(block)) return;
+
+    const { start, end } = selection;
+    const collapsed = start === end;
+    const range = event.inputType === 'insertText' ? { start, end }
+      : event.inputType === 'deleteContentBackward' ? { start: collapsed ? Math.max(0, start - 1) : start, end }
+      : event.inputType === 'deleteContentForward' ? { start, end: collapsed ? end + 1 : end }
+      : null;
+    if (!range) return;
+    event.preventDefault();
+
+    const text = event.inputType === 'insertText' ? event.data || '' : '';
+    const caret = range.start + text.length;
+    pendingSelectionRef.current = { ...selection, start: caret, end: caret };
+    updateBlock(block.id, getRichTextUpdates(block, insertText(getBlockRichText(block), range.start, range.end, text)), {
+      group: `typing-${selection.field}`
+    });
+  };
+  const suggestedInputRef = useRef(handleSuggestedInput);
+  suggestedInputRef.current = handleSuggestedInput;
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const handleBeforeInput = (event: InputEvent) => suggestedInputRef.current(event);
+    editor.addEventListener('beforeinput', handleBeforeInput);
+    return () => editor.removeEventListener('beforeinput', handleBeforeInput);
+  }, []);
+
+  // Handle slash command
+  const handleSlashCommand = useCallback((e: React.KeyboardEvent, blockId: string) => {
+    const block = findBlock(content, blockId);
+    if (!block || readOnly) return;
+
+    if (e.key === '/') {
+      // Opens at the start of a block or after whitespace, so '/' in URLs and dates is typed as usual
+      const selection = readSelection();
+      const before = selection ? (block[getTextField(block)] || '').slice(0, selection.start) : '';
+      if (!before || /\s$/.test(before)) {
+        e.preventDefault();
+        openSlashMenu(blockId, e.target as HTMLElement, selection);
+      }
+    } else if (e.key === 'Escape') {
+      // Leave the text and select the whole block
+      e.preventDefault();
+      selectBlockRange(blockId, blockId);
+    } else if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && e.shiftKey && e.altKey) {
+      // Alt+Shift+arrow moves the block, keeping the caret where it was
+      e.preventDefault();
+      const direction = e.key === 'ArrowUp' ? 'up' : 'down';
+      if (moveBlocks(content, [blockId], direction) === content) return;
+      pendingSelectionRef.current = readSelection();
+      applyChange(currentContent => moveBlocks(currentContent, [blockId], direction));
+    } else if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && e.shiftKey && !e.altKey) {
+      // Shift+arrow past the start or end of the text selects blocks
+      const selection = readSelection();
+      const up = e.key === 'ArrowUp';
+      const atEdge = selection && (up ? selection.start === 0 : selection.end === (block[getTextField(block)] || '').length);
+      if (atEdge) {
+        e.preventDefault();
+        const ids = getRenderedBlockIds();
+        selectBlockRange(blockId, ids[ids.indexOf(blockId) + (up ? -1 : 1)] || blockId);
+      }
+    } else if (e.key === 'Enter' && !e.shiftKey) {
+      // Handle Enter key based on block type
+      if (block.type === 'list' || block.type === 'numbered-list') {
+        // For list items, create a new list item of the same type
+        if (block.content.trim() === '') {
+          // An empty nested item moves up a level; at the top it becomes a paragraph
+          e.preventDefault();
+          if (!indentOrOutdent(blockId, true)) updateBlock(blockId, { type: 'paragraph' });
+        } else {
+          // Create new list item
+          e.preventDefault();
+          addBlock(block.type, blockId);
+        }
+      } else if (block.content.trim() === '') {
+        // Only create new block if the current block is empty
+        e.preventDefault();
+        addBlock('paragraph', blockId);
+      } else {
+        // For blocks with content (non-list types), start a new line
+        e.preventDefault();
+        insertLineBreak();
+      }
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      insertLineBreak();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      indentOrOutdent(blockId, e.shiftKey);
+    }
+  }, [content, readOnly, addBlock, updateBlock, applyChange, insertLineBreak, readSelection, indentOrOutdent, selectBlockRange, getRenderedBlockIds, openSlashMenu, pendingSelectionRef]);
+
+  // An empty text block becomes the picked type; otherwise the new block goes below
+  const handleSlashSelect = (type: Block['type']) => {
+    const blockId = slashMenu.pick(type);
+    const block = blockId && findBlock(content, blockId);
+    if (!block) return;
+
+    const definition = getBlockType(block.type);
+    if (definition && !definition.render && !(block[getTextField(block)] || '').trim()) {
+      pendingSelectionRef.current = { blockId: block.id, field: getBlockType(type)?.textField || 'content', start: 0, end: 0 };
+      changeBlockType([block.id], type);
+    } else {
+      addBlock(type, block.id);
+    }
+  };
+
+  // Handle text selection for formatting
+  const handleTextSelection = (event: React.MouseEvent, blockId: string) => {
+    if (readOnly) return;
+    setTimeout(() => {
+      const selection = window.getSelection();
+      const textSelection = readSelection();
+      const block = findBlock(content, blockId);
+      if (!selection || selection.isCollapsed || !textSelection || !block || textSelection.field !== getTextField(block)) {
+        setShowFormatMenu(false);
+        return;
+      }
+
+      const range = selection.getRangeAt(0);
+      const rect = range.getBoundingClientRect();
+
+      if (rect.width > 0) {
+        setFormatSelection(textSelection);
+
+        setFormatMenuPosition({
+          x: rect.left + rect.width / 2,
+          y: rect.top - 10
+        });
+        setShowFormatMenu(true);
+      } else {
+        setShowFormatMenu(false);
+      }
+    }, 10);
+  };
+
+  // Rewrites the rich text of the block under `selection` and keeps the
+  // selection in place once the new text is rendered
+  const applyMarks = (selection: HistorySelection, change: (richText: RichTextValue) => RichTextValue) => {
+    const block = findBlock(content, selection.blockId);
+    if (!block || selection.field !== getTextField(block) || selection.start === selection.end) return;
+
+    pendingSelectionRef.current = selection;
+    updateBlock(block.id, getRichTextUpdates(block, change(getBlockRichText(block))));
+  };
+
+  // Adds a link, color or highlight mark to the selected text; no value removes it
+  const setMark = (type: 'link' | 'color' | 'highlight', value?: string) => {
+    const selection = formatSelection;
+    if (!selection) return;
+
+    applyMarks(selection, (richText) => value
+      ? addMarks(richText, selection.start, selection.end, { [type]: value })
+      : removeMark(richText, selection.start, selection.end, type));
+  };
+
+  // Apply formatting to selected text
+  const applyFormatting = (format: ToggleMarkType | 'link') => {
+    const selection = formatSelection;
+    if (!selection) return;
+
+    if (format === 'link') {
+      const url = activeMarks.link ? null : prompt('Enter URL:', 'https://');
+      setMark('link', url || undefined);
+    } else {
+      applyMarks(selection, (richText) => toggleMark(richText, selection.start, selection.end, format));
+    }
+
+    setShowFormatMenu(false);
+  };
+
+  // Marks already applied to the whole selection, shown as pressed buttons
+  const formatBlock = formatSelection && findBlock(content, formatSelection.blockId);
+  const activeMarks: Marks = formatBlock && formatSelection
+    ? getActiveMarks(getBlockRichText(formatBlock), formatSelection.start, formatSelection.end)
+    : {};
+
+  // The document keeps at least one top-level block
+  const canDeleteBlock = (id: string) => content.length > 1 || content[0]?.id !== id;
+
+  const deleteBlock = (id: string) => {
+    if (canDeleteBlock(id)) {
+      applyChange(currentContent => removeBlockById(currentContent, id));
+    }
+    setShowBlockMenu(null);
+  };
+
+  // Bulk actions on the selected blocks
+  const selectedIds = blockSelection?.ids || [];
+
+  // Dragging a selected block moves the whole selection
+  const { draggingIds, dropTarget, startDrag: handleDragStart } = useBlockDrag(editorRef, {
+    readOnly,
+    selectedIds,
+    selectBlock: (id) => selectBlockRange(id, id),
+    applyChange
+  });
+
+  // The document keeps at least one block
+  const deleteBlocks = useCallback((ids: string[]) => {
+    applyChange(currentContent => {
+      const remaining = removeBlocks(currentContent, ids);
+      return remaining.length ? remaining : [createBlock('paragraph')];
+    });
+    setBlockSelection(null);
+  }, [applyChange, setBlockSelection]);
+
+  const {
+    handleTextPaste,
+    markdownPaste,
+    convertMarkdownPaste,
+    dismissMarkdownPaste,
+    copySelectedBlocks
+  } = useBlockClipboard(editorRef, content, {
+    readOnly,
+    suggesting,
+    selection: blockSelection,
+    setSelection: setBlockSelection,
+    getRenderedBlockIds,
+    applyChange,
+    deleteBlocks,
+    sanitize: sanitizeContext
+  });
+
+  const duplicateSelectedBlocks = () => {
+    const originals = getOutermostBlocks(content, selectedIds);
+    const copies = originals.map(cloneBlock);
+    if (!copies.length) return;
+
+    applyChange(currentContent => insertBlocksAfter(currentContent, copies, originals[originals.length - 1].id));
+    setBlockSelection({ ids: copies.map(copy => copy.id), anchor: copies[0].id, focus: copies[copies.length - 1].id });
+  };
+
+  // Only text blocks change type, since their text carries over
+  const changeSelectedType = (type: Block['type']) => {
+    changeBlockType(selectedIds.filter(id => {
+      const block = findBlock(content, id);
+      return block && !getBlockType(block.type)?.render;
+    }), type);
+  };
+
+  // Keys while blocks are selected, wherever focus is (the editor, or the
+  // page after a toolbar menu closes). Fields and buttons keep their keys.
+  const handleBlockSelectionKey = (e: KeyboardEvent) => {
+    const target = e.target instanceof Element ? e.target : null;
+    if (!blockSelection || target?.closest('[data-editable], input, textarea, button, [role="menu"]')) return;
+    const { ids, anchor, focus } = blockSelection;
+
+    if (e.key === 'Escape') {
+      setBlockSelection(null);
+    } else if (e.key === 'Backspace' || e.key === 'Delete') {
+      deleteBlocks(ids);
+    } else if (e.key === 'Enter') {
+      // Back to editing the first selected block
+      setBlockSelection(null);
+      focusBlock(ids[0]);
+    } else if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && e.altKey && e.shiftKey) {
+      applyChange(currentContent => moveBlocks(currentContent, ids, e.key === 'ArrowUp' ? 'up' : 'down'));
+    } else if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && !e.altKey && !e.metaKey && !e.ctrlKey) {
+      const rendered = getRenderedBlockIds();
+      const step = e.key === 'ArrowUp' ? -1 : 1;
+      if (e.shiftKey) {
+        const next = rendered[rendered.indexOf(focus) + step];
+        if (next) selectBlockRange(anchor, next);
+      } else {
+        const edge = step < 0 ? ids[0] : ids[ids.length - 1];
+        const next = rendered[rendered.indexOf(edge) + step] || edge;
+        selectBlockRange(next, next);
+      }
+    } else if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'd') {
+      duplicateSelectedBlocks();
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+  const blockSelectionKeyRef = useRef(handleBlockSelectionKey);
+  blockSelectionKeyRef.current = handleBlockSelectionKey;
+
+  useEffect(() => {
+    if (!blockSelection) return;
+    const handleKeyDown = (event: KeyboardEvent) => blockSelectionKeyRef.current(event);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [blockSelection]);
+
+  // Block styling
+  const getBlockClassName = (block: Block, definition?: BlockTypeDefinition) => {
+    const baseClasses = "w-full border-none outline-none bg-transparent resize-none overflow-hidden focus:outline-none whitespace-pre-wrap break-words";
+    const alignmentClasses = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+    return `${baseClasses} ${alignmentClasses[block.alignment || 'left']} ${definition?.className || ''}`;
+  };
+
+  // Block-level text and background colors
+  const getBlockStyle = (block: Block): React.CSSProperties | undefined => {
+    const hasBackground = block.backgroundColor && block.backgroundColor !== 'transparent';
+    if (!block.color && !hasBackground) return undefined;
+
+    return {
+      color: block.color || undefined,
+      backgroundColor: hasBackground ? block.backgroundColor : undefined,
+      padding: hasBackground ? '8px 12px' : undefined,
+      borderRadius: hasBackground ? '4px' : undefined
+    };
+  };
+
+  const getPlaceholderText = (block: Block, definition?: BlockTypeDefinition) => {
+    if (block.type === 'paragraph') return placeholder;
+    return definition?.placeholder || `Type your ${block.type}...`;
+  };
+
+  // Editable region for blocks without a custom renderer
+  const renderTextBlock = (block: Block, definition: BlockTypeDefinition, props: BlockRenderProps) => {
+    const field = getTextField(block);
+    const richText = getBlockRichText(block);
+    const text = block[field] || '';
+    // Suggested text is shown against the stored version
+    const base = suggestionsByBlock.has(block.id) ? findBlock(storedContent, block.id) : undefined;
+    const baseRichText = base && getBlockRichText(base);
+    const className = `${getBlockClassName(block, definition)} ${baseRichText ? SUGGESTED_TEXT_CLASS_NAME : ''}`;
+
+    const editable = (
+      <div className="flex-1 relative">
+        {props.readOnly ? (
+          <div data-field={field} className={className} style={getBlockStyle(block)}>
+            {baseRichText ? <SuggestedText before={baseRichText} after={richText} /> : <RichText value={richText} />}
+          </div>
+        ) : (
+          <ContentEditable
+            html={baseRichText ? suggestedTextToHtml(baseRichText, richText) : richTextToHtml(richText)}
+            data-field={field}
+            data-suggested={baseRichText ? '' : undefined}
+            className={className}
+            style={getBlockStyle(block)}
+            onChange={(html) => handleTextInput(block, html)}
+            onKeyDown={(e) => handleSlashCommand(e, block.id)}
+            onPaste={(e) => handleTextPaste(e, block)}
+            onMouseUp={(e) => handleTextSelection(e, block.id)}
+          />
+        )}
+        {!text && !props.readOnly && !baseRichText && (
+          <div className="absolute inset-0 pointer-events-none text-gray-400 dark:text-gray-500">
+            {getPlaceholderText(block, definition)}
+          </div>
+        )}
+      </div>
+    );
+
+    return definition.decorate ? definition.decorate(props, editable) : editable;
+  };
+
+  // One level of the tree. `blocks` are siblings, so numbering restarts per level.
+  const renderBlocks = (blocks: Block[], depth: number): React.ReactNode =>
+    blocks.map((block, index) => renderBlock(block, index, blocks, depth));
+
+  const renderBlock = (block: Block, index: number, siblings: Block[], depth: number) => {
+    const isSelected = selectedBlock === block.id;
+    const definition = getBlockType(block.type);
+    const BlockIcon = definition ? definition.icon : Type;
+    // Blocks of unknown types show their text, if they have any, read-only
+    const unknownText = definition ? '' : richTextToPlainText(getBlockRichText(block)).trim();
+    const childBlocks = block.children?.length ? renderBlocks(block.children, depth + 1) : null;
+    const blockThreads = openThreads.filter(thread => thread.anchor.blockId === block.id);
+    const suggestion = suggestionsByBlock.get(block.id);
+    const blockReadOnly = readOnly || isLockedBySuggestion(block.id);
+    const renderProps: BlockRenderProps = {
+      block,
+      index,
+      blocks: siblings,
+      depth,
+      childBlocks,
+      readOnly: blockReadOnly,
+      updateBlock: (updates, options) => updateBlock(block.id, updates, options),
+      updateSibling: (id, updates) => updateBlock(id, updates),
+      addChildBlock: (type) => addChildBlock(type, block.id),
+      openMediaPicker: (kind) => {
+        if (blockReadOnly) return;
+        setMediaPicker({ blockId: block.id, kind });
+      },
+      onTextSelect: (e) => handleTextSelection(e, block.id)
+    };
+
+    return (
+      <div key={block.id} data-block-id={block.id} className={`relative ${draggingIds?.includes(block.id) ? 'opacity-50' : ''}`}>
+        {/* Drop line; it spans the children too, since 'after' drops below them */}
+        {dropTarget?.id === block.id && dropTarget.position !== 'inside' && (
+          <div className={`absolute left-0 right-0 h-0.5 rounded bg-blue-500 pointer-events-none ${dropTarget.position === 'before' ? '-top-0.5' : '-bottom-0.5'}`} />
+        )}
+        <div
+          data-block-row={block.id}
+          className={`flex items-start gap-2 py-1 rounded ${
+            dropTarget?.id === block.id && dropTarget.position === 'inside' ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+          } ${selectedIds.includes(block.id) ? 'bg-blue-100 dark:bg-blue-900/40' : ''}`}
+          onMouseDown={(e) => {
+            // Shift+click on another block selects every block in between
+            const anchor = blockSelection?.anchor || lastSelectionRef.current?.blockId;
+            if (readOnly || !e.shiftKey || !anchor || (!blockSelection && anchor === block.id)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            selectBlockRange(anchor, block.id);
+          }}
+          // Only the innermost hovered block shows its controls
+          onMouseOver={(e) => {
+            e.stopPropagation();
+            if (selectedBlock !== block.id) setSelectedBlock(block.id);
+          }}
+          onMouseLeave={() => setSelectedBlock(null)}
+        >
+          {/* Drag handle and block controls */}
+          {/* Touch screens have no hover, so they always show the controls */}
+          {/* Suggestions don't add, move or remove blocks */}
+          <div className={`flex items-center transition-opacity duration-200 ${isSelected || isMobile ? 'opacity-100' : 'opacity-0'}`}>
+            {!blockReadOnly && !suggesting && (
+              <>
+                <button
+                  className="p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded cursor-grab active:cursor-grabbing touch-none"
+                  title="Drag to move, click to select"
+                  aria-keyshortcuts="Alt+Shift+ArrowUp Alt+Shift+ArrowDown"
+                  onPointerDown={(e) => handleDragStart(e, block.id)}
+                  // Enter or Space on the focused handle selects the block, ready for Alt+Shift+arrows
+                  onClick={(e) => e.detail === 0 && selectBlockRange(block.id, block.id)}
+                >
+                  <Grip className="w-4 h-4" />
+                </button>
+                <div className="relative" ref={typeMenuRef}>
+                  <button
+                    onClick={() => setShowTypeMenu(showTypeMenu === block.id ? null : block.id)}
+                    className="p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded flex items-center gap-1"
+                    title="Change block type"
+                  >
+                    <BlockIcon className="w-4 h-4" />
+                    <ChevronDown className="w-3 h-3" />
+                  </button>
+                  {showTypeMenu === block.id && (
+                    <div className="absolute left-0 top-full mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-50 py-2 w-64 max-h-80 overflow-y-auto">
+                      <p className="px-3 py-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">Add block below</p>
+                      <div className="max-h-64 overflow-y-auto">
+                        <BlockTypeList onSelect={(type) => addBlock(type, block.id)} />
+                      </div>
+                    </div>
+                  )}
+                </div>
+                <div className="relative" ref={menuRef}>
+                  <button
+                    onClick={() => setShowBlockMenu(showBlockMenu === block.id ? null : block.id)}
+                    className="p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                    title="Block options"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                  {showBlockMenu === block.id && (
+                    <div className="absolute left-full top-0 ml-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-50 py-2 w-64">
+                      <p className="px-3 py-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">Add block below</p>
+                      <div className="max-h-64 overflow-y-auto">
+                        <BlockTypeList onSelect={(type) => addBlock(type, block.id)} />
+                      </div>
+                    </div>
+                  )}
+                </div>
+                {/* Direct delete button */}
+                {canDeleteBlock(block.id) && (
+                  <button
+                    onClick={() => deleteBlock(block.id)}
+                    className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                    title="Delete block"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </>
+            )}
+            {showCommentTools && (
+              <button
+                onClick={() => startComment(block.id)}
+                className="p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                title="Comment on block"
+              >
+                <MessageSquarePlus className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {/* Block content */}
+          <div className="flex-1 flex items-start gap-2">
+            {!definition ? (
+              // Kept as loaded, so saving doesn't lose what another editor put in it
+              <div className="flex-1 px-3 py-2 rounded border border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-500 dark:text-gray-400">
+                <div>Unsupported block type: {block.type}</div>
+                {unknownText && <div className="mt-1 whitespace-pre-wrap text-gray-700 dark:text-gray-300">{unknownText}</div>}
+              </div>
+            ) : definition.render ? (
+              definition.render(renderProps)
+            ) : (
+              renderTextBlock(block, definition, renderProps)
+            )}
+          </div>
+
+          {/* Open comment threads on the block */}
+          {showCommentTools && blockThreads.length > 0 && (
+            <button
+              onClick={() => showThread(blockThreads[0].id)}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/20"
+              title={`${blockThreads.length} open comment${blockThreads.length === 1 ? '' : 's'}`}
+            >
+              <MessageSquare className="w-3.5 h-3.5" />
+              {blockThreads.length}
+            </button>
+          )}
+
+          {/* Alignment controls */}
+          {!blockReadOnly && definition?.alignable && (
+            <div className={`flex items-center space-x-1 transition-opacity duration-200 ${isSelected ? 'opacity-100' : 'opacity-0'}`}>
+              <button
+                onClick={() => updateBlock(block.id, { alignment: 'left' })}
+                className={`p-1 rounded ${block.alignment === 'left' ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/50 dark:text-blue-300' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                title="Align left"
+              >
+                <AlignLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => updateBlock(block.id, { alignment: 'center' })}
+                className={`p-1 rounded ${block.alignment === 'center' ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/50 dark:text-blue-300' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                title="Align center"
+              >
+                <AlignCenter className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => updateBlock(block.id, { alignment: 'right' })}
+                className={`p-1 rounded ${block.alignment === 'right' ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/50 dark:text-blue-300' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                title="Align right"
+              >
+                <AlignRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {markdownPaste?.block.id === block.id && (
+          <div className="flex items-center gap-2 pl-8 pb-1 text-sm text-gray-500 dark:text-gray-400">
+            <span>Pasted text looks like Markdown.</span>
+            <button
+              onClick={convertMarkdownPaste}
+              className="px-2 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Convert to blocks
+            </button>
+            <button
+              onClick={dismissMarkdownPaste}
+              className="px-2 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              Keep as text
+            </button>
+          </div>
+        )}
+
+        {showSuggestionTools && suggestion && (
+          <SuggestionControls
+            suggestion={suggestion}
+            outdated={isSuggestionOutdated(suggestion, storedContent)}
+            onAccept={canReview && !suggesting ? () => acceptSuggestions([suggestion]) : undefined}
+            onReject={canReject(suggestion) ? () => removeSuggestions([suggestion.id]) : undefined}
+          />
+        )}
+
+        {childBlocks && !definition?.wrapsChildren && <div className="ml-6 space-y-1">{childBlocks}</div>}
+      </div>
+    );
+  };
+
+  return (
+    <SanitizeContext.Provider value={sanitizeContext}>
+      <div
+        ref={editorRef}
+        tabIndex={-1}
+        className={`bg-white dark:bg-gray-900 font-sans outline-none ${className}`}
+        onKeyDown={handleEditorKeyDown}
+        onMouseDown={(e) => {
+          if (!e.shiftKey) setBlockSelection(null);
+        }}
+      >
+        {selectionBand && (
+          <div className="fixed z-30 pointer-events-none border border-blue-400 bg-blue-400/10" style={selectionBand} />
+        )}
+
+        {blockSelection && !readOnly && (
+          <BlockSelectionToolbar
+            count={getOutermostBlocks(content, selectedIds).length}
+            onChangeType={changeSelectedType}
+            onUpdate={(updates) => updateBlocks(selectedIds, () => updates)}
+            // Suggestions don't add, move or remove blocks
+            onDuplicate={suggesting ? undefined : duplicateSelectedBlocks}
+            onMove={suggesting ? undefined : (direction) => applyChange(currentContent => moveBlocks(currentContent, selectedIds, direction))}
+            onCopy={() => copySelectedBlocks(false)}
+            onCut={suggesting ? undefined : () => copySelectedBlocks(true)}
+            onDelete={suggesting ? undefined : () => deleteBlocks(selectedIds)}
+            onClear={() => setBlockSelection(null)}
+          />
+        )}
+
+        {/* Text formatting menu */}
+        {showFormatMenu && (
+          <FormatMenu
+            position={formatMenuPosition}
+            activeMarks={activeMarks}
+            onFormat={applyFormatting}
+            onTextColor={(color) => setMark('color', color)}
+            onBackgroundColor={(color) => setMark('highlight', color)}
+            onComment={showCommentTools ? () => {
+              setShowFormatMenu(false);
+              if (formatSelection) startComment(formatSelection.blockId, formatSelection);
+            } : undefined}
+            onClose={() => setShowFormatMenu(false)}
+          />
+        )}
+
+        {/* Slash command menu */}
+        {slashMenu.menu && (
+          <div
+            ref={slashMenu.ref}
+            className="fixed z-50 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl w-80 overflow-hidden"
+            style={{
+              left: `${slashMenu.menu.position.x}px`,
+              top: `${slashMenu.menu.position.y}px`
+            }}
+          >
+            <SlashMenu recent={slashMenu.recent} onSelect={handleSlashSelect} onClose={slashMenu.close} />
+          </div>
+        )}
+
+        {/* Image, video, audio and file picker */}
+        {mediaPicker && (
+          <MediaPickerDialog
+            kind={mediaPicker.kind}
+            uploadAdapter={uploadAdapter}
+            uploadLimits={uploadLimits}
+            onInsert={(updates) => {
+              updateBlock(mediaPicker.blockId, updates);
+              setMediaPicker(null);
+            }}
+            onClose={() => setMediaPicker(null)}
+          />
+        )}
+
+        {/* Main Editor Body */}
+        <main ref={mainRef} className="relative max-w-4xl mx-auto p-4 sm:p-8 lg:p-12" onMouseDown={handleSelectionBandStart}>
+          {!readOnly && (
+            <EditorToolbar
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              getMarkdown={() => blocksToMarkdown(storedContent)}
+              saveStatus={autosave && !draft ? saveStatus : undefined}
+              onShowHistory={history ? () => setShowHistory(true) : undefined}
+              onShowComments={showCommentTools ? () => setShowComments(true) : undefined}
+              openComments={openThreads.length}
+              syncStatus={shared.active ? shared.status : undefined}
+              collaborators={shared.active ? collaborators : undefined}
+              suggestionMode={showSuggestionTools ? (suggesting ? 'suggesting' : 'editing') : undefined}
+              onSuggestionModeChange={canReview ? changeSuggestionMode : undefined}
+              pendingSuggestions={suggestions.length}
+              onAcceptAll={canReview && !suggesting ? () => acceptSuggestions(suggestions) : undefined}
+              onRejectAll={canReview ? () => removeSuggestions(suggestions.map(suggestion => suggestion.id)) : undefined}
+            />
+          )}
+          {structureRefused && suggesting && (
+            <p className="mb-4 px-3 py-2 rounded-md bg-green-50 dark:bg-green-900/30 text-sm text-green-800 dark:text-green-200" role="status">
+              Suggestions can change what blocks say, but not add, move or remove blocks.
+              {canReview && ' Switch to Editing to make that change.'}
+            </p>
+          )}
+          {draft && !readOnly && (
+            <DraftRecoveryBanner
+              savedAt={draft.savedAt}
+              preview={<BlockRenderer blocks={draftBlocks || []} sanitizePolicy={sanitizePolicy} />}
+              onRestore={restoreDraft}
+              onDiscard={() => dismissDraft(true)}
+            />
+          )}
+          {history && !readOnly && (
+            <VersionHistoryPanel
+              open={showHistory}
+              onOpenChange={setShowHistory}
+              snapshots={snapshots}
+              error={snapshotError}
+              content={storedContent}
+              onCreate={createSnapshot}
+              onRemove={removeSnapshot}
+              onRestore={(version) => restoreVersion(version)}
+              onRestoreBlock={restoreVersion}
+            />
+          )}
+          {showCommentTools && comments && (
+            <CommentsPanel
+              open={showComments}
+              onOpenChange={setShowComments}
+              threads={threads}
+              content={storedContent}
+              user={comments.user}
+              people={comments.people || []}
+              activeThreadId={activeThreadId}
+              onSelectThread={setActiveThreadId}
+              draft={commentDraft}
+              onCreate={createThread}
+              onCancelDraft={cancelCommentDraft}
+              onReply={replyToThread}
+              onResolve={resolveThread}
+              onReopen={reopenThread}
+              onRemove={removeThreadComment}
+            />
+          )}
+          <div className="space-y-1">
+              {renderBlocks(proposedContent, 0)}
+          </div>
+          {showCommentTools && openThreads.length > 0 && (
+            <CommentHighlights threads={openThreads} content={storedContent} activeThreadId={activeThreadId} containerRef={mainRef} />
+          )}
+          {collaborators.length > 0 && <RemoteCursors collaborators={collaborators} containerRef={mainRef} />}
+        </main>
+      </div>
+    </SanitizeContext.Provider>
+  );
+});
+
+BlockEditor.displayName = 'BlockEditor';
+
+export default BlockEditor;
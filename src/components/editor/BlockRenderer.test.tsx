@@ -0,0 +1,142 @@
+// @vitest-environment jsdom
+import { cleanup, render } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Block } from '@/lib/editor/blocks';
+import { defaultSanitizePolicy } from '@/lib/editor/sanitize';
+import BlockRenderer from './BlockRenderer';
+
+const block = (fields: Partial<Block>): Block => ({ id: 'a', type: 'paragraph', content: '', ...fields });
+
+const renderBlocks = (blocks: Block[], props: Partial<React.ComponentProps<typeof BlockRenderer>> = {}) =>
+  render(<BlockRenderer blocks={blocks} {...props} />).container;
+
+afterEach(cleanup);
+
+describe('BlockRenderer', () => {
+  it.each<[string, Partial<Block>, string, string]>([
+    ['paragraph', { content: 'Hello' }, 'p', 'Hello'],
+    ['heading1', { content: 'Title' }, 'h1', 'Title'],
+    ['heading2', { content: 'Section' }, 'h2', 'Section'],
+    ['heading3', { content: 'Part' }, 'h3', 'Part'],
+    ['quote', { content: 'Said' }, 'blockquote', 'Said'],
+    ['code', { content: 'let a = 1;', language: 'ts' }, 'pre > code.language-ts', 'let a = 1;'],
+    ['callout', { content: 'Note' }, 'aside p', 'Note'],
+    ['toggle', { toggleTitle: 'More' }, 'details > summary', 'More'],
+    ['list', { content: 'Item' }, 'ul > li', 'Item'],
+    ['numbered-list', { content: 'First' }, 'ol > li', 'First'],
+    ['todo', { content: 'Task', checked: true }, 'ul li input[type="checkbox"][disabled]:checked + div', 'Task'],
+    ['divider', {}, 'hr', ''],
+    ['image', { content: 'https://example.com/a.png', fileName: 'Chart' }, 'img[src="https://example.com/a.png"][alt="Chart"]', ''],
+    ['video', { content: 'https://example.com/a.mp4' }, 'video[src="https://example.com/a.mp4"][controls]', ''],
+    ['audio', { content: 'https://example.com/a.mp3' }, 'audio[src="https://example.com/a.mp3"][controls]', ''],
+    ['file', { content: 'https://example.com/a.pdf', fileName: 'a.pdf', fileSize: '2 KB' }, 'a[href="https://example.com/a.pdf"][download="a.pdf"]', 'a.pdf'],
+    ['bookmark', { content: 'https://example.com/' }, 'a[href="https://example.com/"][rel="noopener noreferrer"]', 'https://example.com/'],
+    ['table', { tableData: { headers: ['Name'], rows: [['Ada']] } }, 'table', 'NameAda'],
+    ['chart-bar', { chartData: { labels: ['Q1'], values: [4] } }, 'figure table', 'LabelValueQ14'],
+    ['chart-pie', { chartData: { labels: ['Yes'], values: [3] } }, 'figure figcaption', 'Pie chart'],
+    ['calendar', {
+      selectedDate: new Date(2024, 4, 1),
+      calendarEvents: [{ id: 'e', title: 'Standup', startTime: new Date(2024, 4, 1, 9), endTime: new Date(2024, 4, 1, 9, 15), color: '#000' }]
+    }, 'section', '📅 Wednesday, May 1st, 20242024-05-01 09:00–09:15 Standup']
+  ])('renders %s blocks', (type, fields, selector, text) => {
+    const container = renderBlocks([block({ type, ...fields })]);
+    const element = container.querySelector(selector);
+    expect(element).not.toBeNull();
+    expect(element!.textContent).toBe(text);
+  });
+
+  it('groups list runs and numbers them where they start', () => {
+    const container = renderBlocks([
+      block({ id: 'a', type: 'numbered-list', content: 'one', listStart: 3, listStyle: 'roman' }),
+      block({ id: 'b', type: 'numbered-list', content: 'two', children: [block({ id: 'c', type: 'list', content: 'inner' })] }),
+      block({ id: 'd', type: 'paragraph', content: 'break' }),
+      block({ id: 'e', type: 'list', content: 'bullet' })
+    ]);
+    const list = container.querySelector('ol')!;
+    expect(list.getAttribute('start')).toBe('3');
+    expect(list.getAttribute('type')).toBe('i');
+    expect(list.querySelectorAll(':scope > li')).toHaveLength(2);
+    expect(list.querySelector('li ul > li')?.textContent).toBe('inner');
+    expect(container.querySelectorAll('ul')).toHaveLength(2);
+  });
+
+  it('puts toggle and callout children inside them', () => {
+    const child = block({ id: 'c', content: 'Inside' });
+    const container = renderBlocks([
+      block({ id: 't', type: 'toggle', toggleTitle: 'More', collapsed: true, children: [child] }),
+      block({ id: 'k', type: 'callout', content: 'Note', children: [{ ...child, id: 'd' }] })
+    ]);
+    expect(container.querySelector('details')?.hasAttribute('open')).toBe(false);
+    expect(container.querySelector('details > div p')?.textContent).toBe('Inside');
+    expect(container.querySelector('aside div p + div p')?.textContent).toBe('Inside');
+  });
+
+  it('uses custom renderers and keeps the text of unknown types', () => {
+    const container = renderBlocks(
+      [block({ id: 'x', type: 'kanban', content: 'Board' }), block({ id: 'y', type: 'divider' })],
+      { renderers: { divider: () => <p className="custom">~</p> } }
+    );
+    expect(container.querySelector('p')?.textContent).toBe('Board');
+    expect(container.querySelector('hr')).toBeNull();
+    expect(container.querySelector('.custom')).not.toBeNull();
+  });
+
+  it('shows rich text marks', () => {
+    const container = renderBlocks([block({
+      content: 'bold link',
+      richText: [{ text: 'bold', marks: { bold: true } }, { text: ' ' }, { text: 'link', marks: { link: 'https://example.com/' } }]
+    })]);
+    expect(container.querySelector('p strong')?.textContent).toBe('bold');
+    expect(container.querySelector('p a')?.getAttribute('href')).toBe('https://example.com/');
+  });
+});
+
+describe('BlockRenderer with unsafe content', () => {
+  it('shows HTML in text as text, without its scripts or handlers', () => {
+    const container = renderBlocks([
+      block({ id: 'a', content: '<img src=x onerror="alert(1)"><script>alert(2)</script>Hi' }),
+      block({ id: 'b', type: 'code', content: '<script>alert(3)</script>' }),
+      block({ id: 'c', type: 'table', tableData: { headers: ['<b onclick="x()">H</b>'], rows: [['<script>y()</script>']] } })
+    ]);
+    expect(container.querySelector('script, img, b, [onerror], [onclick]')).toBeNull();
+    expect(container.querySelector('p')?.textContent).toBe('Hi');
+    expect(container.querySelector('th')?.textContent).toBe('<b onclick="x()">H</b>');
+  });
+
+  it.each([
+    ['javascript:alert(1)'],
+    ['  JavaScript:alert(1)'],
+    ['java\tscript:alert(1)'],
+    ['vbscript:msgbox(1)']
+  ])('leaves out media, files and bookmarks at %j', (url) => {
+    const container = renderBlocks(['image', 'video', 'audio', 'file', 'bookmark'].map(type => block({ id: type, type, content: url })));
+    expect(container.querySelector('img, video, audio, a')).toBeNull();
+  });
+
+  it('drops unsafe link marks', () => {
+    const container = renderBlocks([block({
+      content: 'click',
+      richText: [{ text: 'click', marks: { link: 'javascript:alert(1)' } }]
+    })]);
+    expect(container.querySelector('a')).toBeNull();
+    expect(container.querySelector('p')?.textContent).toBe('click');
+  });
+
+  it('drops unsafe colors', () => {
+    const container = renderBlocks([block({
+      content: 'text',
+      color: 'red; background: url(https://evil.example/)',
+      backgroundColor: 'url(javascript:alert(1))',
+      richText: [{ text: 'text', marks: { color: 'expression(alert(1))' } }]
+    })]);
+    expect(container.innerHTML).not.toMatch(/url\(|expression/);
+  });
+
+  it('follows the sanitize policy it is given', () => {
+    const blocks = [block({ type: 'image', content: 'ftp://example.com/a.png' })];
+    expect(renderBlocks(blocks).querySelector('img')).toBeNull();
+    cleanup();
+    const policy = { ...defaultSanitizePolicy, mediaSchemes: [...defaultSanitizePolicy.mediaSchemes, 'ftp'] };
+    expect(renderBlocks(blocks, { sanitizePolicy: policy }).querySelector('img')?.getAttribute('src')).toBe('ftp://example.com/a.png');
+  });
+});
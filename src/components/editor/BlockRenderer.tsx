@@ -0,0 +1,296 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Block, BlockType, ListStyle, getListNumber, getListSegmentStart, getListStyle } from '@/lib/editor/blocks';
+import { RichText as RichTextValue, htmlToRichText, isSafeColor, richTextToPlainText } from '@/lib/editor/rich-text';
+import { SanitizePolicy, defaultSanitizePolicy, sanitizeRichText, sanitizeUrl } from '@/lib/editor/sanitize';
+import RichText from './RichText';
+
+// Renders blocks as plain semantic HTML (headings, lists, tables, figures...)
+// for pages that only show a document. It needs neither the editor nor the
+// block registry, so charts become data tables and calendars lists of events.
+
+export type StaticBlockRender = (block: Block, children: React.ReactNode) => React.ReactNode;
+
+export interface BlockRendererProps {
+  blocks: Block[];
+  className?: string;
+  sanitizePolicy?: SanitizePolicy;
+  // Renderers for custom block types, or to replace a built-in one
+  renderers?: Partial<Record<BlockType, StaticBlockRender>>;
+}
+
+const LIST_TYPES: Record<ListStyle, { type?: 'a' | 'i'; className: string }> = {
+  decimal: { className: 'list-decimal' },
+  alpha: { type: 'a', className: 'list-[lower-alpha]' },
+  roman: { type: 'i', className: 'list-[lower-roman]' }
+};
+
+const formatEventTime = (start: Date, end: Date) =>
+  `${format(new Date(start), 'yyyy-MM-dd HH:mm')}–${format(new Date(end), 'HH:mm')}`;
+
+const getBlockStyle = (block: Block): React.CSSProperties | undefined => {
+  const color = block.color && isSafeColor(block.color) ? block.color : undefined;
+  const background = block.backgroundColor && block.backgroundColor !== 'transparent' && isSafeColor(block.backgroundColor)
+    ? block.backgroundColor
+    : undefined;
+  if (!color && !background && !block.alignment) return undefined;
+
+  return {
+    textAlign: block.alignment,
+    color,
+    backgroundColor: background,
+    padding: background ? '8px 12px' : undefined,
+    borderRadius: background ? '4px' : undefined
+  };
+};
+
+const BlockRenderer: React.FC<BlockRendererProps> = ({ blocks, className = '', sanitizePolicy = defaultSanitizePolicy, renderers }) => {
+  // Same reading as getBlockRichText, without the registry: toggles keep
+  // their text in `toggleTitle`, and older blocks may hold HTML
+  const getText = (block: Block): RichTextValue => {
+    const text = (block.type === 'toggle' ? block.toggleTitle : block.content) || '';
+    const richText = block.richText && richTextToPlainText(block.richText) === text ? block.richText : htmlToRichText(text);
+    return sanitizeRichText(richText, sanitizePolicy).richText;
+  };
+  const getUrl = (block: Block, kind: 'link' | 'media') =>
+    (block.content && sanitizeUrl(block.content, kind, sanitizePolicy)) || undefined;
+
+  const renderText = (block: Block) => <RichText value={getText(block)} />;
+
+  const renderChart = (block: Block, title: string) => {
+    const { labels, values } = block.chartData || { labels: [], values: [] };
+    return (
+      <figure className="my-4">
+        <figcaption className="mb-2 text-sm font-medium">{title}</figcaption>
+        <table className="min-w-full border border-gray-200 dark:border-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium">Label</th>
+              <th className="px-4 py-2 text-right font-medium">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {labels.map((label, index) => (
+              <tr key={index} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="px-4 py-2">{label}</td>
+                <td className="px-4 py-2 text-right">{values[index] ?? 0}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </figure>
+    );
+  };
+
+  // The block itself; `children` are its rendered child blocks
+  const renderBody = (block: Block, children: React.ReactNode): React.ReactNode => {
+    const custom = renderers?.[block.type];
+    if (custom) return custom(block, children);
+
+    const style = getBlockStyle(block);
+    switch (block.type) {
+      case 'paragraph':
+        return <p className="whitespace-pre-wrap leading-relaxed min-h-[1.5rem]" style={style}>{renderText(block)}</p>;
+      case 'heading1':
+        return <h1 className="whitespace-pre-wrap text-3xl font-bold leading-tight mt-6 mb-2" style={style}>{renderText(block)}</h1>;
+      case 'heading2':
+        return <h2 className="whitespace-pre-wrap text-2xl font-semibold leading-tight mt-5 mb-2" style={style}>{renderText(block)}</h2>;
+      case 'heading3':
+        return <h3 className="whitespace-pre-wrap text-xl font-medium leading-tight mt-4 mb-2" style={style}>{renderText(block)}</h3>;
+      case 'quote':
+        return (
+          <blockquote className="whitespace-pre-wrap italic text-lg border-l-4 border-gray-300 dark:border-gray-600 pl-4" style={style}>
+            {renderText(block)}
+          </blockquote>
+        );
+      case 'code':
+        return (
+          <pre className="whitespace-pre-wrap font-mono text-sm bg-gray-100 dark:bg-gray-800 rounded-md p-4" style={style}>
+            <code className={block.language ? `language-${block.language}` : undefined}>{richTextToPlainText(getText(block))}</code>
+          </pre>
+        );
+      case 'callout':
+        return (
+          <aside className="flex items-start gap-3 bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-900/50 rounded-md p-4" style={style}>
+            <span aria-hidden="true">💡</span>
+            <div className="flex-1 min-w-0">
+              <p className="whitespace-pre-wrap">{renderText(block)}</p>
+              {children && <div className="mt-2 space-y-1">{children}</div>}
+            </div>
+          </aside>
+        );
+      case 'toggle':
+        return (
+          <details open={!block.collapsed} style={style}>
+            <summary className="whitespace-pre-wrap cursor-pointer">{renderText(block)}</summary>
+            {children && <div className="mt-1 space-y-1 border-l-2 border-gray-200 dark:border-gray-700 pl-2">{children}</div>}
+          </details>
+        );
+      case 'list':
+      case 'numbered-list':
+        return <li className="whitespace-pre-wrap" style={style}>{renderText(block)}{children}</li>;
+      case 'todo':
+        return (
+          <li className="flex items-start gap-2" style={style}>
+            <input type="checkbox" checked={!!block.checked} disabled readOnly className="mt-1.5" />
+            <div className="flex-1">
+              <span className={`whitespace-pre-wrap ${block.checked ? 'line-through text-gray-500' : ''}`}>{renderText(block)}</span>
+              {children}
+            </div>
+          </li>
+        );
+      case 'divider':
+        return <hr className="my-4 border-gray-300 dark:border-gray-600" />;
+      case 'image': {
+        const src = getUrl(block, 'media');
+        return src ? (
+          <figure className="my-4">
+            <img src={src} alt={block.fileName || ''} className="w-full h-auto rounded-lg" />
+          </figure>
+        ) : null;
+      }
+      case 'video': {
+        const src = getUrl(block, 'media');
+        return src ? <video src={src} controls className="w-full rounded-lg my-4" style={{ maxHeight: '400px' }} /> : null;
+      }
+      case 'audio': {
+        const src = getUrl(block, 'media');
+        return src ? <audio src={src} controls className="w-full my-4" /> : null;
+      }
+      case 'file': {
+        const href = getUrl(block, 'media');
+        return href ? (
+          <p>
+            <a href={href} download={block.fileName || true} className="text-blue-600 dark:text-blue-400 hover:underline">
+              {block.fileName || 'Document'}
+            </a>
+            {block.fileSize && <span className="text-sm text-gray-500"> ({block.fileSize})</span>}
+          </p>
+        ) : null;
+      }
+      case 'bookmark': {
+        const href = getUrl(block, 'link');
+        return href ? (
+          <p>
+            <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline break-all">
+              {href}
+            </a>
+          </p>
+        ) : null;
+      }
+      case 'table': {
+        const { headers, rows } = block.tableData || { headers: [], rows: [] };
+        return (
+          <div className="w-full overflow-x-auto my-4">
+            <table className="min-w-full border border-gray-200 dark:border-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  {headers.map((header, index) => (
+                    <th key={index} className="px-4 py-2 text-left font-medium">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t border-gray-200 dark:border-gray-700">
+                    {row.map((cell, cellIndex) => <td key={cellIndex} className="px-4 py-2">{cell}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+      case 'chart-bar':
+        return renderChart(block, 'Bar chart');
+      case 'chart-pie':
+        return renderChart(block, 'Pie chart');
+      case 'calendar': {
+        const date = block.selectedDate ? new Date(block.selectedDate) : undefined;
+        const events = block.calendarEvents || [];
+        return (
+          <section className="my-4">
+            <h4 className="text-sm font-medium">
+              📅 {date ? <time dateTime={format(date, 'yyyy-MM-dd')}>{format(date, 'EEEE, MMMM do, yyyy')}</time> : 'Calendar'}
+            </h4>
+            {events.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm">
+                {events.map(event => (
+                  <li key={event.id}>
+                    <time dateTime={new Date(event.startTime).toISOString()}>{formatEventTime(event.startTime, event.endTime)}</time>
+                    {' '}{event.title}
+                    {event.location && <span className="text-gray-500"> ({event.location})</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        );
+      }
+      default: {
+        // Unknown types without a renderer keep their text, if they have any
+        const text = getText(block);
+        return text.length ? <p className="whitespace-pre-wrap" style={style}>{renderText(block)}</p> : null;
+      }
+    }
+  };
+
+  const renderChildren = (block: Block) => (block.children?.length ? renderLevel(block.children) : null);
+
+  // List items are grouped into one list per run; a numbered run is split
+  // where its numbering restarts, so each <ol> can say where it starts
+  const renderLevel = (siblings: Block[]): React.ReactNode => {
+    const nodes: React.ReactNode[] = [];
+    let index = 0;
+    while (index < siblings.length) {
+      const block = siblings[index];
+      const custom = !!renderers?.[block.type];
+      const isList = !custom && (block.type === 'list' || block.type === 'numbered-list' || block.type === 'todo');
+
+      if (!isList) {
+        // Custom renderers place the children themselves, like toggles and callouts
+        const children = renderChildren(block);
+        const wrapsChildren = custom || block.type === 'toggle' || block.type === 'callout';
+        nodes.push(
+          <React.Fragment key={block.id}>
+            {renderBody(block, children)}
+            {children && !wrapsChildren && <div className="ml-6 space-y-1">{children}</div>}
+          </React.Fragment>
+        );
+        index++;
+        continue;
+      }
+
+      const start = index;
+      do index++;
+      while (
+        index < siblings.length &&
+        siblings[index].type === block.type &&
+        !(block.type === 'numbered-list' && getListSegmentStart(siblings, index) === index)
+      );
+      const items = siblings.slice(start, index).map(item => (
+        <React.Fragment key={item.id}>{renderBody(item, renderChildren(item))}</React.Fragment>
+      ));
+
+      if (block.type === 'numbered-list') {
+        const { type, className: listClassName } = LIST_TYPES[getListStyle(siblings, start)];
+        nodes.push(
+          <ol key={block.id} start={getListNumber(siblings, start)} type={type} className={`${listClassName} pl-6 space-y-1`}>
+            {items}
+          </ol>
+        );
+      } else {
+        nodes.push(
+          <ul key={block.id} className={block.type === 'todo' ? 'space-y-1' : 'list-disc pl-6 space-y-1'}>
+            {items}
+          </ul>
+        );
+      }
+    }
+    return nodes;
+  };
+
+  return <div className={`space-y-2 text-gray-800 dark:text-gray-200 ${className}`}>{renderLevel(blocks)}</div>;
+};
+
+export default BlockRenderer;
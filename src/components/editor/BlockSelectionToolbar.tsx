@@ -0,0 +1,147 @@
+import React from 'react';
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  Copy,
+  CopyPlus,
+  Palette,
+  Scissors,
+  Trash2,
+  X
+} from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Block, colorPalette } from '@/lib/editor/blocks';
+import { getBlockTypes } from '@/lib/editor/registry';
+
+interface BlockSelectionToolbarProps {
+  count: number;
+  onChangeType: (type: Block['type']) => void;
+  onUpdate: (updates: Partial<Block>) => void;   // Applied to every selected block
+  // Actions that add, move or remove blocks are disabled when left out
+  onDuplicate?: () => void;
+  onMove?: (direction: 'up' | 'down') => void;
+  onCopy: () => void;
+  onCut?: () => void;
+  onDelete?: () => void;
+  onClear: () => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const modKey = isMac ? '⌘' : 'Ctrl+';
+
+const buttonClass = 'p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:pointer-events-none';
+
+// Bulk actions for the blocks selected with Escape, Shift+click, Shift+arrows
+// or by dragging across the margin
+const BlockSelectionToolbar: React.FC<BlockSelectionToolbarProps> = ({
+  count,
+  onChangeType,
+  onUpdate,
+  onDuplicate,
+  onMove,
+  onCopy,
+  onCut,
+  onDelete,
+  onClear
+}) => (
+  <div
+    className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 px-2 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl text-gray-600 dark:text-gray-300"
+    // Clicks here (and in its menus) must not clear the selection, and
+    // buttons must not take focus from the editor's selection keys
+    onMouseDown={(e) => {
+      e.stopPropagation();
+      e.preventDefault();
+    }}
+  >
+    <span className="px-2 text-sm">{count} selected</span>
+
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center gap-1 px-2 py-1.5 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-700">
+        Turn into
+        <ChevronDown className="w-3 h-3" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="max-h-80 overflow-y-auto" onCloseAutoFocus={(e) => e.preventDefault()}>
+        {/* Only text blocks, whose text carries over */}
+        {getBlockTypes().filter(definition => !definition.render).map(({ type, label, icon: Icon }) => (
+          <DropdownMenuItem key={type} onSelect={() => onChangeType(type)}>
+            <Icon className="w-4 h-4 mr-2 text-gray-500" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+
+    <DropdownMenu>
+      <DropdownMenuTrigger className={buttonClass} title="Color">
+        <Palette className="w-4 h-4" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="max-h-80 overflow-y-auto" onCloseAutoFocus={(e) => e.preventDefault()}>
+        <DropdownMenuLabel>Text</DropdownMenuLabel>
+        {colorPalette.map(color => (
+          <DropdownMenuItem key={`text-${color.name}`} onSelect={() => onUpdate({ color: color.name === 'Default' ? undefined : color.text })}>
+            <span className="w-4 h-4 mr-2 rounded border border-gray-200 text-xs font-bold text-center leading-4" style={{ color: color.text }}>A</span>
+            {color.name}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Background</DropdownMenuLabel>
+        {colorPalette.map(color => (
+          <DropdownMenuItem key={`bg-${color.name}`} onSelect={() => onUpdate({ backgroundColor: color.name === 'Default' ? undefined : color.bg })}>
+            <span className="w-4 h-4 mr-2 rounded border border-gray-200" style={{ backgroundColor: color.bg }} />
+            {color.name}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+
+    <button onClick={() => onUpdate({ alignment: 'left' })} className={buttonClass} title="Align left">
+      <AlignLeft className="w-4 h-4" />
+    </button>
+    <button onClick={() => onUpdate({ alignment: 'center' })} className={buttonClass} title="Align center">
+      <AlignCenter className="w-4 h-4" />
+    </button>
+    <button onClick={() => onUpdate({ alignment: 'right' })} className={buttonClass} title="Align right">
+      <AlignRight className="w-4 h-4" />
+    </button>
+
+    <div className="w-px h-5 mx-1 bg-gray-200 dark:bg-gray-700" />
+
+    <button onClick={() => onMove?.('up')} disabled={!onMove} className={buttonClass} title="Move up">
+      <ArrowUp className="w-4 h-4" />
+    </button>
+    <button onClick={() => onMove?.('down')} disabled={!onMove} className={buttonClass} title="Move down">
+      <ArrowDown className="w-4 h-4" />
+    </button>
+    <button onClick={onDuplicate} disabled={!onDuplicate} className={buttonClass} title={`Duplicate (${modKey}D)`}>
+      <CopyPlus className="w-4 h-4" />
+    </button>
+    <button onClick={onCopy} className={buttonClass} title={`Copy (${modKey}C)`}>
+      <Copy className="w-4 h-4" />
+    </button>
+    <button onClick={onCut} disabled={!onCut} className={buttonClass} title={`Cut (${modKey}X)`}>
+      <Scissors className="w-4 h-4" />
+    </button>
+    <button onClick={onDelete} disabled={!onDelete} className={`${buttonClass} hover:text-red-500`} title="Delete (Backspace)">
+      <Trash2 className="w-4 h-4" />
+    </button>
+
+    <div className="w-px h-5 mx-1 bg-gray-200 dark:bg-gray-700" />
+
+    <button onClick={onClear} className={buttonClass} title="Clear selection (Esc)">
+      <X className="w-4 h-4" />
+    </button>
+  </div>
+);
+
+export default BlockSelectionToolbar;
@@ -0,0 +1,27 @@
+import React from 'react';
+import type { Block } from '@/lib/editor/blocks';
+import { getBlockTypes } from '@/lib/editor/registry';
+
+interface BlockTypeListProps {
+  onSelect: (type: Block['type']) => void;
+}
+
+const BlockTypeList: React.FC<BlockTypeListProps> = ({ onSelect }) => (
+  <div>
+    {getBlockTypes().map(({ type, label, icon: Icon, description }) => (
+      <button
+        key={type}
+        onClick={() => onSelect(type)}
+        className="w-full flex items-start space-x-3 px-3 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-700"
+      >
+        <Icon className="w-4 h-4 text-gray-500 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <div className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">{description}</div>
+        </div>
+      </button>
+    ))}
+  </div>
+);
+
+export default BlockTypeList;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Collaborator, getCollaboratorColor, getCollaboratorInitials } from '@/lib/editor/presence';
+
+interface CollaboratorAvatarsProps {
+  collaborators: Collaborator[];
+  max?: number;   // Avatars shown before the rest are counted as "+N"
+}
+
+// The people in the document, once each however many copies they have open.
+// Hovering an avatar shows who it is and whether they are editing.
+const CollaboratorAvatars: React.FC<CollaboratorAvatarsProps> = ({ collaborators, max = 4 }) => {
+  const people = new Map<string, Collaborator>();
+  collaborators.forEach(collaborator => {
+    const known = people.get(collaborator.user.id);
+    if (!known || (!known.cursor && collaborator.cursor)) people.set(collaborator.user.id, collaborator);
+  });
+  const list = Array.from(people.values());
+  if (!list.length) return null;
+  const shown = list.slice(0, max);
+  const hidden = list.slice(max);
+
+  return (
+    <div className="flex items-center -space-x-2 px-2" aria-label={`${list.length} other ${list.length === 1 ? 'person' : 'people'} here`}>
+      {shown.map(({ clientId, user, cursor }) => {
+        const color = getCollaboratorColor(user);
+        return (
+          <HoverCard key={clientId} openDelay={200}>
+            <HoverCardTrigger asChild>
+              <button className="rounded-full" aria-label={user.name}>
+                <Avatar className="w-7 h-7 border-2 border-white dark:border-gray-900" style={{ boxShadow: `0 0 0 2px ${color}` }}>
+                  {user.avatarUrl && <AvatarImage src={user.avatarUrl} alt="" />}
+                  <AvatarFallback className="text-[10px] font-medium text-white" style={{ backgroundColor: color }}>
+                    {getCollaboratorInitials(user)}
+                  </AvatarFallback>
+                </Avatar>
+              </button>
+            </HoverCardTrigger>
+            <HoverCardContent align="end" className="w-56 p-3">
+              <div className="flex items-center gap-3">
+                <Avatar className="w-9 h-9">
+                  {user.avatarUrl && <AvatarImage src={user.avatarUrl} alt="" />}
+                  <AvatarFallback className="text-xs font-medium text-white" style={{ backgroundColor: color }}>
+                    {getCollaboratorInitials(user)}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{user.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                    <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                    {cursor ? 'Editing' : 'Viewing'}
+                  </p>
+                </div>
+              </div>
+            </HoverCardContent>
+          </HoverCard>
+        );
+      })}
+      {hidden.length > 0 && (
+        <span
+          className="relative flex items-center justify-center w-7 h-7 rounded-full border-2 border-white dark:border-gray-900 bg-gray-200 dark:bg-gray-700 text-[10px] font-medium"
+          title={hidden.map(({ user }) => user.name).join(', ')}
+        >
+          +{hidden.length}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default CollaboratorAvatars;
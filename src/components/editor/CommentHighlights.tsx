@@ -0,0 +1,69 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { Block, findBlock, getTextField } from '@/lib/editor/blocks';
+import { CommentThread, isRangeAnchor } from '@/lib/editor/comments';
+import { getRangeAtOffsets } from '@/lib/editor/selection';
+
+interface CommentHighlightsProps {
+  threads: CommentThread[];
+  content: Block[];
+  activeThreadId: string | null;
+  containerRef: React.RefObject<HTMLElement>;   // Positioned element the highlights are drawn in
+}
+
+interface Highlight {
+  key: string;
+  active: boolean;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Marks the text of open comment threads. Drawn over the editor rather than
+// into the text, so comments never end up in the blocks.
+const CommentHighlights: React.FC<CommentHighlightsProps> = ({ threads, content, activeThreadId, containerRef }) => {
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const update = () => {
+      const origin = container.getBoundingClientRect();
+      setHighlights(threads.flatMap(({ id, anchor, resolved }) => {
+        const block = !resolved && isRangeAnchor(anchor) && findBlock(content, anchor.blockId);
+        const field = block && container.querySelector<HTMLElement>(
+          `[data-block-id="${CSS.escape(anchor.blockId)}"] [data-field="${getTextField(block)}"]`
+        );
+        if (!field) return [];
+        const range = getRangeAtOffsets(field, { start: anchor.start!, end: anchor.end! });
+        return Array.from(range.getClientRects())
+          .filter(rect => rect.width > 0)
+          .map((rect, i) => ({
+            key: `${id}-${i}`,
+            active: id === activeThreadId,
+            left: rect.left - origin.left,
+            top: rect.top - origin.top,
+            width: rect.width,
+            height: rect.height
+          }));
+      }));
+    };
+    update();
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, [threads, content, activeThreadId, containerRef]);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" aria-hidden="true">
+      {highlights.map(({ key, active, ...box }) => (
+        <div
+          key={key}
+          className={`absolute border-b-2 border-amber-400 ${active ? 'bg-amber-300/40' : 'bg-amber-200/25'}`}
+          style={box}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default CommentHighlights;
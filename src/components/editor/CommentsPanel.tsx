@@ -0,0 +1,313 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import { Block, findBlock, getBlockRichText } from '@/lib/editor/blocks';
+import { Comment, CommentAnchor, CommentThread, CommentUser, isRangeAnchor, splitMentions } from '@/lib/editor/comments';
+import { richTextToPlainText } from '@/lib/editor/rich-text';
+
+interface CommentsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  threads: CommentThread[];
+  content: Block[];                 // The document, to show what each thread is on
+  user: CommentUser;
+  people: CommentUser[];            // Who can be @mentioned
+  activeThreadId: string | null;
+  onSelectThread: (id: string) => void;
+  draft: CommentAnchor | null;      // Where a new thread is being started
+  onCreate: (body: string) => void;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, body: string) => void;
+  onResolve: (threadId: string) => void;
+  onReopen: (threadId: string) => void;
+  onRemove: (threadId: string, commentId: string) => void;
+}
+
+// What a thread is on: the commented text, or the start of the block's text
+const AnchorQuote: React.FC<{ anchor: CommentAnchor; content: Block[] }> = ({ anchor, content }) => {
+  const block = findBlock(content, anchor.blockId);
+  const text = block ? richTextToPlainText(getBlockRichText(block)) : '';
+  const quote = !block ? anchor.quote : isRangeAnchor(anchor) ? text.slice(anchor.start, anchor.end) : text;
+
+  return (
+    <div className="border-l-2 border-amber-400 pl-2 text-xs text-gray-500 dark:text-gray-400">
+      {!block && <div className="italic">On a deleted block</div>}
+      {block && !isRangeAnchor(anchor) && <div className="italic">Whole block</div>}
+      {quote && <div className="line-clamp-2">{quote}</div>}
+    </div>
+  );
+};
+
+// Text box for a comment; typing '@' offers the people who can be mentioned
+const CommentInput: React.FC<{
+  people: CommentUser[];
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}> = ({ people, placeholder, submitLabel, autoFocus, onSubmit, onCancel }) => {
+  const [body, setBody] = useState('');
+  const [query, setQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (autoFocus) textareaRef.current?.focus();
+  }, [autoFocus]);
+
+  const suggestions = query === null ? [] : people
+    .filter(person => person.name.toLowerCase().startsWith(query.toLowerCase()))
+    .slice(0, 5);
+
+  const updateQuery = (textarea: HTMLTextAreaElement) => {
+    const match = /(?:^|\s)@([^@\n]{0,30})$/.exec(textarea.value.slice(0, textarea.selectionStart));
+    setQuery(match ? match[1] : null);
+  };
+
+  const mention = (person: CommentUser) => {
+    const textarea = textareaRef.current;
+    if (!textarea || query === null) return;
+    const caret = textarea.selectionStart;
+    const start = caret - query.length - 1;
+    setBody(body.slice(0, start) + `@${person.name} ` + body.slice(caret));
+    setQuery(null);
+    textarea.focus();
+  };
+
+  const submit = () => {
+    if (!body.trim()) return;
+    onSubmit(body);
+    setBody('');
+    setQuery(null);
+  };
+
+  return (
+    <div className="relative space-y-2">
+      <textarea
+        ref={textareaRef}
+        value={body}
+        onChange={(e) => {
+          setBody(e.target.value);
+          updateQuery(e.target);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            submit();
+          } else if (e.key === 'Escape' && query !== null) {
+            e.stopPropagation();
+            setQuery(null);
+          }
+        }}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-700 bg-transparent resize-none"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full z-10 mt-1 w-48 py-1 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg">
+          {suggestions.map(person => (
+            <button
+              key={person.id}
+              // Keep the focus in the text box
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => mention(person)}
+              className="block w-full px-3 py-1 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {person.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button onClick={onCancel} className="px-3 py-1 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-800">
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={submit}
+          disabled={!body.trim()}
+          className="px-3 py-1 rounded text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CommentItem: React.FC<{ comment: Comment; people: CommentUser[]; onRemove?: () => void }> = ({ comment, people, onRemove }) => (
+  <div className="group">
+    <div className="flex items-center gap-2 text-xs">
+      <span className="font-medium text-gray-900 dark:text-gray-100">{comment.author.name}</span>
+      <span className="flex-1 text-gray-500">{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</span>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="p-0.5 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-700"
+          title="Delete comment"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {splitMentions(comment.body, people.filter(person => comment.mentions.includes(person.id))).map((part, i) =>
+        part.mention
+          ? <span key={i} className="rounded px-0.5 bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300">{part.text}</span>
+          : <span key={i}>{part.text}</span>)}
+    </p>
+  </div>
+);
+
+// Side panel with the document's comment threads. It stays open while the
+// document is edited, and selecting a thread highlights its text.
+const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  open,
+  onOpenChange,
+  threads,
+  content,
+  user,
+  people,
+  activeThreadId,
+  onSelectThread,
+  draft,
+  onCreate,
+  onCancelDraft,
+  onReply,
+  onResolve,
+  onReopen,
+  onRemove
+}) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+  const shown = threads.filter(thread => !!thread.resolved === showResolved);
+  const openCount = threads.filter(thread => !thread.resolved).length;
+
+  useEffect(() => {
+    if (activeThreadId) listRef.current?.querySelector(`[data-thread-id="${activeThreadId}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeThreadId]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange} modal={false}>
+      <SheetContent
+        className="w-full sm:max-w-md flex flex-col gap-4"
+        // Editing the document doesn't close the panel
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <SheetHeader>
+          <SheetTitle>Comments</SheetTitle>
+          <SheetDescription>Comments stay with the text they are on and are left out of exports.</SheetDescription>
+        </SheetHeader>
+
+        {draft && (
+          <div className="space-y-2 rounded-lg border border-blue-300 dark:border-blue-700 p-3">
+            <AnchorQuote anchor={draft} content={content} />
+            <CommentInput
+              people={people}
+              placeholder="Add a comment… Type @ to mention someone"
+              submitLabel="Comment"
+              autoFocus
+              onSubmit={onCreate}
+              onCancel={onCancelDraft}
+            />
+          </div>
+        )}
+
+        <div className="flex gap-1 text-sm">
+          <button
+            onClick={() => setShowResolved(false)}
+            className={`px-2 py-1 rounded ${!showResolved ? 'bg-gray-100 dark:bg-gray-800 font-medium' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+          >
+            Open ({openCount})
+          </button>
+          <button
+            onClick={() => setShowResolved(true)}
+            className={`px-2 py-1 rounded ${showResolved ? 'bg-gray-100 dark:bg-gray-800 font-medium' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+          >
+            Resolved ({threads.length - openCount})
+          </button>
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto space-y-3 -mx-1 px-1">
+          {shown.length === 0 && (
+            <p className="text-sm text-gray-500">
+              {showResolved ? 'No resolved comments.' : 'No open comments. Select text or use a block\'s comment button to start one.'}
+            </p>
+          )}
+          {shown.map(thread => (
+            <div
+              key={thread.id}
+              data-thread-id={thread.id}
+              onClick={() => onSelectThread(thread.id)}
+              className={`space-y-3 rounded-lg border p-3 cursor-pointer ${
+                thread.id === activeThreadId ? 'border-amber-400 bg-amber-50/50 dark:bg-amber-900/10' : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <div className="flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <AnchorQuote anchor={thread.anchor} content={content} />
+                </div>
+                {thread.resolved ? (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onReopen(thread.id);
+                    }}
+                    className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+                    title="Reopen"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onResolve(thread.id);
+                    }}
+                    className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+                    title="Resolve"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              {thread.comments.map(comment => (
+                <CommentItem
+                  key={comment.id}
+                  comment={comment}
+                  people={people}
+                  onRemove={comment.author.id === user.id ? () => onRemove(thread.id, comment.id) : undefined}
+                />
+              ))}
+              {thread.resolved && (
+                <p className="text-xs text-gray-500">
+                  Resolved by {thread.resolved.by.name} {formatDistanceToNow(new Date(thread.resolved.at), { addSuffix: true })}
+                </p>
+              )}
+              {!thread.resolved && thread.id === activeThreadId && (
+                <div onClick={(e) => e.stopPropagation()}>
+                  <CommentInput
+                    people={people}
+                    placeholder="Reply… Type @ to mention someone"
+                    submitLabel="Reply"
+                    onSubmit={(body) => onReply(thread.id, body)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CommentsPanel;
@@ -0,0 +1,65 @@
+import React, { forwardRef, useContext, useImperativeHandle, useLayoutEffect, useMemo, useRef } from 'react';
+import { escapeText } from '@/lib/editor/html';
+import { sanitizeHtml } from '@/lib/editor/sanitize';
+import { getSelectionOffsets, insertHtmlAtSelection, setSelectionOffsets } from '@/lib/editor/selection';
+import { SanitizeContext } from './sanitize-context';
+
+interface ContentEditableProps extends Omit<React.HTMLAttributes<HTMLDivElement>, 'onChange' | 'dangerouslySetInnerHTML' | 'children'> {
+  html: string;
+  disabled?: boolean;
+  onChange?: (html: string) => void;
+}
+
+// Editable region that reports every input. The DOM is only rewritten when
+// `html` differs from what is already on screen, and the caret is kept when
+// it is, so updating state while the user types does not reset it. `html` is
+// sanitized before it is rendered, and so is anything pasted.
+const ContentEditable = forwardRef<HTMLDivElement, ContentEditableProps>(({ html, disabled = false, onChange, onInput, onPaste, ...props }, ref) => {
+  const elementRef = useRef<HTMLDivElement>(null);
+  const { policy, report } = useContext(SanitizeContext);
+  const safeHtml = useMemo(() => sanitizeHtml(html, policy).html, [html, policy]);
+  useImperativeHandle(ref, () => elementRef.current as HTMLDivElement);
+
+  useLayoutEffect(() => {
+    const element = elementRef.current;
+    if (!element || element.innerHTML === safeHtml) return;
+
+    const selection = document.activeElement === element ? getSelectionOffsets(element) : null;
+    element.innerHTML = safeHtml;
+    if (selection) setSelectionOffsets(element, selection);
+  }, [safeHtml]);
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    onPaste?.(e);
+    if (e.defaultPrevented || disabled) return;
+    e.preventDefault();
+
+    const pastedHtml = e.clipboardData.getData('text/html');
+    const result = pastedHtml
+      ? sanitizeHtml(pastedHtml, policy)
+      : { html: escapeText(e.clipboardData.getData('text/plain')), removed: [] };
+    if (result.removed.length) report({ source: 'paste', removed: result.removed });
+
+    insertHtmlAtSelection(e.currentTarget, result.html);
+    onChange?.(e.currentTarget.innerHTML);
+  };
+
+  return (
+    <div
+      {...props}
+      ref={elementRef}
+      contentEditable={!disabled}
+      suppressContentEditableWarning
+      data-editable
+      onInput={(e) => {
+        onInput?.(e);
+        onChange?.(e.currentTarget.innerHTML);
+      }}
+      onPaste={handlePaste}
+    />
+  );
+});
+
+ContentEditable.displayName = 'ContentEditable';
+
+export default ContentEditable;
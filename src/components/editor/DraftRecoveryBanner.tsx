@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+
+interface DraftRecoveryBannerProps {
+  savedAt?: string;        // ISO date the draft was saved
+  preview: React.ReactNode;  // The draft, rendered read-only
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const buttonClass = 'px-2 py-0.5 rounded hover:bg-amber-100 dark:hover:bg-amber-900/40';
+
+// Offers the draft an earlier session saved but never got back
+const DraftRecoveryBanner: React.FC<DraftRecoveryBannerProps> = ({ savedAt, preview, onRestore, onDiscard }) => {
+  const [showPreview, setShowPreview] = useState(false);
+  const savedAtText = savedAt ? ` from ${format(new Date(savedAt), 'PPp')}` : '';
+
+  return (
+    <div className="flex items-center gap-2 mb-4 px-3 py-2 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-900 dark:text-amber-200">
+      <History className="w-4 h-4 flex-shrink-0" />
+      <span className="flex-1">You have an unsaved draft{savedAtText}.</span>
+      <button onClick={() => setShowPreview(true)} className={buttonClass}>Preview</button>
+      <button onClick={onRestore} className="px-2 py-0.5 rounded bg-amber-600 text-white hover:bg-amber-700">Restore</button>
+      <button onClick={onDiscard} className={buttonClass}>Discard</button>
+
+      <Dialog open={showPreview} onOpenChange={setShowPreview}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Unsaved draft</DialogTitle>
+            <DialogDescription>Restoring replaces the current document; you can undo it.</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto rounded border border-gray-200 dark:border-gray-700">{preview}</div>
+          <DialogFooter>
+            <button onClick={onDiscard} className="px-3 py-1.5 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-800">Discard</button>
+            <button onClick={onRestore} className="px-3 py-1.5 rounded text-sm bg-blue-600 text-white hover:bg-blue-700">Restore draft</button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DraftRecoveryBanner;
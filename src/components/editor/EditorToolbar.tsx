@@ -0,0 +1,210 @@
+import React from 'react';
+import { Undo2, Redo2, Download, ChevronDown, Check, Loader2, CloudOff, AlertCircle, History, Wifi, WifiOff, MessageSquare, Pencil, PencilLine } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import type { SaveStatus } from '@/hooks/use-autosave';
+import type { Collaborator } from '@/lib/editor/presence';
+import type { SyncStatus } from '@/lib/editor/sync';
+import CollaboratorAvatars from './CollaboratorAvatars';
+
+interface EditorToolbarProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  getMarkdown: () => string;   // Called when the document is exported
+  saveStatus?: SaveStatus;     // Shown when autosave is on
+  onShowHistory?: () => void;  // Shows the History button when set
+  onShowComments?: () => void; // Shows the Comments button when set
+  openComments?: number;       // Open threads, counted on the Comments button
+  syncStatus?: SyncStatus;     // Shown when the document is shared
+  collaborators?: Collaborator[];
+  suggestionMode?: 'editing' | 'suggesting';  // Shows the mode menu when set
+  onSuggestionModeChange?: (mode: 'editing' | 'suggesting') => void;  // Leave out when the mode is fixed
+  pendingSuggestions?: number;  // Counted on the mode menu
+  onAcceptAll?: () => void;     // Offered in the mode menu when set
+  onRejectAll?: () => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const modKey = isMac ? '⌘' : 'Ctrl+';
+
+const saveStatuses: Record<SaveStatus, { label: string; title: string; icon: typeof Check }> = {
+  saved: { label: 'Saved', title: 'All changes are saved', icon: Check },
+  saving: { label: 'Saving…', title: 'Saving your changes', icon: Loader2 },
+  offline: { label: 'Offline', title: 'Changes will be saved when you are back online', icon: CloudOff },
+  error: { label: 'Not saved', title: 'Your latest changes could not be saved', icon: AlertCircle }
+};
+
+const syncStatuses: Record<SyncStatus, { label: string; title: string; icon: typeof Check }> = {
+  connecting: { label: 'Connecting…', title: 'Connecting to the shared document', icon: Loader2 },
+  synced: { label: 'Live', title: 'Edits are shared as you type', icon: Wifi },
+  offline: { label: 'Offline', title: 'Edits will be shared when the connection is back', icon: WifiOff }
+};
+
+const downloadFile = (fileName: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const SaveIndicator: React.FC<{ status: SaveStatus }> = ({ status }) => {
+  const { label, title, icon: Icon } = saveStatuses[status];
+  return (
+    <span className={`flex items-center gap-1 px-2 text-sm ${status === 'error' ? 'text-red-500' : ''}`} title={title} role="status">
+      <Icon className={`w-4 h-4 ${status === 'saving' ? 'animate-spin' : ''}`} />
+      {label}
+    </span>
+  );
+};
+
+const SyncIndicator: React.FC<{ status: SyncStatus }> = ({ status }) => {
+  const { label, title, icon: Icon } = syncStatuses[status];
+  return (
+    <span className="flex items-center gap-1 px-2 text-sm" title={title} role="status">
+      <Icon className={`w-4 h-4 ${status === 'connecting' ? 'animate-spin' : ''}`} />
+      {label}
+    </span>
+  );
+};
+
+const SuggestionMenu: React.FC<Pick<EditorToolbarProps, 'suggestionMode' | 'onSuggestionModeChange' | 'pendingSuggestions' | 'onAcceptAll' | 'onRejectAll'>> = ({
+  suggestionMode,
+  onSuggestionModeChange,
+  pendingSuggestions = 0,
+  onAcceptAll,
+  onRejectAll
+}) => {
+  const suggesting = suggestionMode === 'suggesting';
+  const Icon = suggesting ? PencilLine : Pencil;
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className={`flex items-center gap-1 px-2 py-1.5 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-800 ${suggesting ? 'text-green-700 dark:text-green-300' : ''}`}
+        title={suggesting ? 'Edits are suggested for review' : 'Edits change the document'}
+      >
+        <Icon className="w-4 h-4" />
+        {suggesting ? 'Suggesting' : 'Editing'}
+        {pendingSuggestions > 0 && (
+          <span className="min-w-[1.25rem] px-1 rounded-full bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200 text-xs">
+            {pendingSuggestions}
+          </span>
+        )}
+        <ChevronDown className="w-3 h-3" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem disabled={!onSuggestionModeChange} onSelect={() => onSuggestionModeChange?.('editing')}>
+          <Pencil className="w-4 h-4 mr-2" />
+          Editing
+          {!suggesting && <Check className="w-4 h-4 ml-auto" />}
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!onSuggestionModeChange} onSelect={() => onSuggestionModeChange?.('suggesting')}>
+          <PencilLine className="w-4 h-4 mr-2" />
+          Suggesting
+          {suggesting && <Check className="w-4 h-4 ml-auto" />}
+        </DropdownMenuItem>
+        {(onAcceptAll || onRejectAll) && <DropdownMenuSeparator />}
+        {onAcceptAll && (
+          <DropdownMenuItem disabled={!pendingSuggestions} onSelect={onAcceptAll}>
+            Accept all suggestions
+          </DropdownMenuItem>
+        )}
+        {onRejectAll && (
+          <DropdownMenuItem disabled={!pendingSuggestions} onSelect={onRejectAll}>
+            Reject all suggestions
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+const EditorToolbar: React.FC<EditorToolbarProps> = ({
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  getMarkdown,
+  saveStatus,
+  onShowHistory,
+  onShowComments,
+  openComments,
+  syncStatus,
+  collaborators,
+  ...suggestionProps
+}) => (
+  <div className="flex items-center gap-1 mb-4 text-gray-500 dark:text-gray-400">
+    <button
+      onClick={onUndo}
+      disabled={!canUndo}
+      className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:hover:bg-transparent"
+      title={`Undo (${modKey}Z)`}
+    >
+      <Undo2 className="w-4 h-4" />
+    </button>
+    <button
+      onClick={onRedo}
+      disabled={!canRedo}
+      className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:hover:bg-transparent"
+      title={`Redo (${modKey}Shift+Z)`}
+    >
+      <Redo2 className="w-4 h-4" />
+    </button>
+    <div className="ml-auto flex items-center gap-1">
+      {collaborators && <CollaboratorAvatars collaborators={collaborators} />}
+      {syncStatus && <SyncIndicator status={syncStatus} />}
+      {saveStatus && <SaveIndicator status={saveStatus} />}
+      {suggestionProps.suggestionMode && <SuggestionMenu {...suggestionProps} />}
+      {onShowComments && (
+        <button
+          onClick={onShowComments}
+          className="flex items-center gap-1 px-2 py-1.5 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+          title="Comments"
+        >
+          <MessageSquare className="w-4 h-4" />
+          Comments
+          {!!openComments && (
+            <span className="min-w-[1.25rem] px-1 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200 text-xs">
+              {openComments}
+            </span>
+          )}
+        </button>
+      )}
+      {onShowHistory && (
+        <button
+          onClick={onShowHistory}
+          className="flex items-center gap-1 px-2 py-1.5 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+          title="Version history"
+        >
+          <History className="w-4 h-4" />
+          History
+        </button>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger className="flex items-center gap-1 px-2 py-1.5 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-800">
+          <Download className="w-4 h-4" />
+          Export
+          <ChevronDown className="w-3 h-3" />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => downloadFile('document.md', getMarkdown(), 'text/markdown')}>
+            Markdown (.md)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => navigator.clipboard?.writeText(getMarkdown())}>
+            Copy as Markdown
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  </div>
+);
+
+export default EditorToolbar;
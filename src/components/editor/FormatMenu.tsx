@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bold, Code, Italic, Link, MessageSquare, Palette, Strikethrough, Type, Underline } from 'lucide-react';
+import { colorPalette } from '@/lib/editor/blocks';
+import type { Marks, ToggleMarkType } from '@/lib/editor/rich-text';
+
+interface FormatMenuProps {
+  position: { x: number; y: number };      // Above the middle of the selected text, in viewport coordinates
+  activeMarks: Marks;                       // Shown as pressed buttons
+  onFormat: (format: ToggleMarkType | 'link') => void;
+  onTextColor: (color?: string) => void;    // No color removes the mark
+  onBackgroundColor: (color?: string) => void;
+  onComment?: () => void;
+  onClose: () => void;                      // A click outside the menu
+}
+
+const formatButtons: { format: ToggleMarkType | 'link'; label: string; icon: typeof Bold }[] = [
+  { format: 'bold', label: 'Bold', icon: Bold },
+  { format: 'italic', label: 'Italic', icon: Italic },
+  { format: 'underline', label: 'Underline', icon: Underline },
+  { format: 'strike', label: 'Strikethrough', icon: Strikethrough },
+  { format: 'code', label: 'Code', icon: Code },
+  { format: 'link', label: 'Link', icon: Link }
+];
+
+// Toolbar shown over selected text: marks, a link, text and highlight colors
+const FormatMenu: React.FC<FormatMenuProps> = ({ position, activeMarks, onFormat, onTextColor, onBackgroundColor, onComment, onClose }) => {
+  const [showColorPalette, setShowColorPalette] = useState<'text' | 'background' | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) onCloseRef.current();
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const applyTextColor = (color?: string) => {
+    onTextColor(color);
+    setShowColorPalette(null);
+  };
+
+  const applyBackgroundColor = (color?: string) => {
+    onBackgroundColor(color);
+    setShowColorPalette(null);
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed z-50 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 px-1 flex items-center gap-1"
+      // Keep the text selection while clicking the menu
+      onMouseDown={(e) => e.preventDefault()}
+      style={{
+        left: `${position.x}px`,
+        top: `${position.y}px`,
+        transform: 'translate(-50%, -100%)'
+      }}
+    >
+      {formatButtons.map(({ format, label, icon: Icon }) => (
+        <button
+          key={format}
+          onClick={() => onFormat(format)}
+          className={`p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${activeMarks[format] ? 'bg-gray-100 text-blue-600 dark:bg-gray-700 dark:text-blue-400' : 'text-gray-700 dark:text-gray-300'}`}
+          title={label}
+        >
+          <Icon size={14} />
+        </button>
+      ))}
+
+      {onComment && (
+        <button
+          onClick={onComment}
+          className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+          title="Comment"
+        >
+          <MessageSquare size={14} />
+        </button>
+      )}
+
+      {/* Text Color */}
+      <div className="relative">
+        <button
+          onClick={() => setShowColorPalette(showColorPalette === 'text' ? null : 'text')}
+          className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 flex items-center"
+          title="Text Color"
+        >
+          <Type size={14} />
+          <div className="w-3 h-1 bg-red-500 mt-1 ml-0.5"></div>
+        </button>
+
+        {showColorPalette === 'text' && (
+          <div className="absolute top-full left-0 mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl p-2 z-60 w-48">
+            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Text Color</p>
+            <div className="grid grid-cols-4 gap-1">
+              {colorPalette.map((color) => (
+                <button
+                  key={color.name}
+                  onClick={() => applyTextColor(color.name === 'Default' ? undefined : color.text)}
+                  className="w-8 h-8 rounded border-2 border-gray-200 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-400 flex items-center justify-center"
+                  style={{ backgroundColor: color.text }}
+                  title={color.name}
+                >
+                  <span className="text-xs text-white font-bold">A</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Background Color (Highlight) */}
+      <div className="relative">
+        <button
+          onClick={() => setShowColorPalette(showColorPalette === 'background' ? null : 'background')}
+          className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 flex items-center"
+          title="Highlight Color"
+        >
+          <Palette size={14} />
+          <div className="w-3 h-1 bg-yellow-400 mt-1 ml-0.5"></div>
+        </button>
+
+        {showColorPalette === 'background' && (
+          <div className="absolute top-full left-0 mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl p-2 z-60 w-48">
+            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Highlight Color</p>
+            <div className="grid grid-cols-4 gap-1">
+              {colorPalette.map((color) => (
+                <button
+                  key={color.name}
+                  onClick={() => applyBackgroundColor(color.name === 'Default' ? undefined : color.bg)}
+                  className="w-8 h-8 rounded border-2 border-gray-200 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-400 flex items-center justify-center"
+                  style={{ backgroundColor: color.bg }}
+                  title={color.name}
+                >
+                  <span className="text-xs text-gray-800 font-bold">A</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FormatMenu;
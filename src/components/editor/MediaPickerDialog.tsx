@@ -0,0 +1,194 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { UploadCloud, X } from 'lucide-react';
+import { useUpload } from '@/hooks/use-upload';
+import type { Block } from '@/lib/editor/blocks';
+import { UploadAdapter, UploadKind, UploadLimits, defaultUploadLimits, formatFileSize } from '@/lib/editor/upload';
+import UploadProgress from './UploadProgress';
+
+interface MediaPickerDialogProps {
+  kind: 'image' | 'file';                 // Images can also be embedded by URL or picked from the library
+  uploadAdapter: UploadAdapter;
+  uploadLimits?: Partial<UploadLimits>;   // Keep the object stable
+  onInsert: (updates: Partial<Block>) => void;
+  onClose: () => void;                    // Any upload still running is cancelled first
+}
+
+// Mock media library
+const mockMediaLibrary = [
+  'https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?w=800&q=80',
+  'https://images.unsplash.com/photo-1620121692029-d088224ddc74?w=800&q=80',
+  'https://images.unsplash.com/photo-1558591710-4b4a1ae0f04d?w=800&q=80'
+];
+
+// Picks the media for an image, video, audio or file block. Files go through
+// the upload adapter and blocks keep the URL it returns, never the file itself.
+const MediaPickerDialog: React.FC<MediaPickerDialogProps> = ({ kind, uploadAdapter, uploadLimits, onInsert, onClose }) => {
+  const limits = useMemo(() => ({ ...defaultUploadLimits, ...uploadLimits }), [uploadLimits]);
+  const { upload, start: startUpload, retry: retryUpload, cancel: cancelUpload } = useUpload(uploadAdapter, limits);
+  const [imageUrl, setImageUrl] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioFileInputRef = useRef<HTMLInputElement>(null);
+  const videoFileInputRef = useRef<HTMLInputElement>(null);
+  const documentFileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, fileType: UploadKind) => {
+    const file = e.target.files?.[0];
+    // Lets the same file be picked again after a failure
+    e.target.value = '';
+    if (!file) return;
+
+    startUpload(file, fileType, ({ url, meta }) => {
+      onInsert({
+        content: url,
+        fileName: file.name,
+        fileSize: (file.size / 1024 / 1024).toFixed(2) + ' MB',
+        fileType: file.type,
+        fileMeta: meta
+      });
+    });
+  };
+
+  const close = () => {
+    cancelUpload();
+    onClose();
+  };
+
+  const handleEmbedImage = () => {
+    if (imageUrl) onInsert({ content: imageUrl });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      {kind === 'file' ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Upload File</h3>
+            <button
+              onClick={close}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center">
+              <UploadCloud className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <div className="space-y-2">
+                <button
+                  onClick={() => documentFileInputRef.current?.click()}
+                  className="block w-full bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Upload Document
+                </button>
+                <button
+                  onClick={() => videoFileInputRef.current?.click()}
+                  className="block w-full bg-purple-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-purple-700 transition-colors"
+                >
+                  Upload Video
+                </button>
+                <button
+                  onClick={() => audioFileInputRef.current?.click()}
+                  className="block w-full bg-green-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  Upload Audio
+                </button>
+              </div>
+              <input
+                type="file"
+                ref={documentFileInputRef}
+                onChange={(e) => handleFileUpload(e, 'document')}
+                className="hidden"
+                accept={limits.document.accept.join(',')}
+              />
+              <input
+                type="file"
+                ref={videoFileInputRef}
+                onChange={(e) => handleFileUpload(e, 'video')}
+                className="hidden"
+                accept={limits.video.accept.join(',')}
+              />
+              <input
+                type="file"
+                ref={audioFileInputRef}
+                onChange={(e) => handleFileUpload(e, 'audio')}
+                className="hidden"
+                accept={limits.audio.accept.join(',')}
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                Maximum file size: {formatFileSize(limits.document.maxSize)} for documents, {formatFileSize(limits.video.maxSize)} for video, {formatFileSize(limits.audio.maxSize)} for audio
+              </p>
+            </div>
+            {upload && <UploadProgress upload={upload} onCancel={cancelUpload} onRetry={retryUpload} />}
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-2xl">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Add Image</h3>
+            <button
+              onClick={close}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {/* Upload section */}
+            <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center">
+              <UploadCloud className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Upload a file
+              </button>
+              <input type="file" ref={fileInputRef} onChange={(e) => handleFileUpload(e, 'image')} className="hidden" accept={limits.image.accept.join(',')} />
+              <p className="text-xs text-gray-500 mt-2">Maximum file size: {formatFileSize(limits.image.maxSize)}</p>
+            </div>
+            {upload && <UploadProgress upload={upload} onCancel={cancelUpload} onRetry={retryUpload} />}
+
+            {/* Embed link section */}
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">Embed from URL</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={imageUrl}
+                  onChange={(e) => setImageUrl(e.target.value)}
+                  placeholder="https://unsplash.com/..."
+                  className="flex-grow bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleEmbedImage}
+                  className="bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors"
+                >
+                  Embed
+                </button>
+              </div>
+            </div>
+
+            {/* Media Library */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Or select from library</h4>
+              <div className="grid grid-cols-3 gap-4 max-h-48 overflow-y-auto p-1">
+                {mockMediaLibrary.map(url => (
+                  <img
+                    key={url}
+                    src={url}
+                    alt="library media"
+                    className="w-full h-24 object-cover rounded-md cursor-pointer hover:ring-2 hover:ring-blue-500 transition-all"
+                    onClick={() => onInsert({ content: url })}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaPickerDialog;
@@ -0,0 +1,112 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { Collaborator, getCollaboratorColor } from '@/lib/editor/presence';
+import { getRangeAtOffsets } from '@/lib/editor/selection';
+
+interface RemoteCursorsProps {
+  collaborators: Collaborator[];
+  containerRef: React.RefObject<HTMLElement>;   // Positioned element the overlay is drawn in
+}
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface CursorLayout {
+  clientId: string;
+  name: string;
+  color: string;
+  outline: Box;          // The block being edited
+  selection: Box[];      // One box per line of selected text
+  caret: Box | null;     // Null when the caret is in a field that is not on screen
+}
+
+// Where each collaborator's caret, selection and block are, relative to `container`
+const measure = (container: HTMLElement, collaborators: Collaborator[]): CursorLayout[] => {
+  const origin = container.getBoundingClientRect();
+  const toBox = (rect: DOMRect): Box => ({
+    left: rect.left - origin.left,
+    top: rect.top - origin.top,
+    width: rect.width,
+    height: rect.height
+  });
+
+  return collaborators.flatMap(({ clientId, user, cursor }) => {
+    if (!cursor) return [];
+    const blockElement = container.querySelector<HTMLElement>(`[data-block-id="${CSS.escape(cursor.blockId)}"]`);
+    const row = container.querySelector<HTMLElement>(`[data-block-row="${CSS.escape(cursor.blockId)}"]`);
+    if (!blockElement || !row) return [];
+
+    const fieldSelector = cursor.field ? `[data-field="${CSS.escape(cursor.field)}"]` : '[data-editable]';
+    const editable = blockElement.querySelector<HTMLElement>(fieldSelector);
+    let selection: Box[] = [];
+    let caret: Box | null = null;
+    if (editable) {
+      const range = getRangeAtOffsets(editable, { start: Math.min(cursor.start, cursor.end), end: Math.max(cursor.start, cursor.end) });
+      if (!range.collapsed) selection = Array.from(range.getClientRects(), toBox).filter(box => box.width > 0);
+      // The caret sits where the selection was extended to
+      range.collapse(cursor.end < cursor.start);
+      const rect = range.getClientRects()[0];
+      if (rect) {
+        caret = { ...toBox(rect), width: 2 };
+      } else {
+        // Collapsed ranges in empty elements have no box; use the start of the field
+        const fieldRect = editable.getBoundingClientRect();
+        const lineHeight = parseFloat(getComputedStyle(editable).lineHeight) || fieldRect.height;
+        caret = { ...toBox(fieldRect), width: 2, height: Math.min(lineHeight, fieldRect.height) };
+      }
+    }
+
+    return [{
+      clientId,
+      name: user.name,
+      color: getCollaboratorColor(user),
+      outline: toBox(row.getBoundingClientRect()),
+      selection,
+      caret
+    }];
+  });
+};
+
+// Other people's carets, selections and the blocks they are editing, drawn
+// over the editor. Measured again when the content, the collaborators or the
+// window size change.
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({ collaborators, containerRef }) => {
+  const [layouts, setLayouts] = useState<CursorLayout[]>([]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const update = () => setLayouts(measure(container, collaborators));
+    update();
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, [collaborators, containerRef]);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-10" aria-hidden="true">
+      {layouts.map(({ clientId, name, color, outline, selection, caret }) => (
+        <React.Fragment key={clientId}>
+          <div className="absolute rounded-md border-2 opacity-40" style={{ ...outline, borderColor: color }} />
+          {selection.map((box, i) => (
+            <div key={i} className="absolute opacity-25" style={{ ...box, backgroundColor: color }} />
+          ))}
+          {caret && (
+            <div className="absolute" style={{ ...caret, backgroundColor: color }}>
+              <span
+                className="absolute bottom-full left-0 px-1 rounded rounded-bl-none text-[10px] leading-4 font-medium text-white whitespace-nowrap"
+                style={{ backgroundColor: color }}
+              >
+                {name}
+              </span>
+            </div>
+          )}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default RemoteCursors;
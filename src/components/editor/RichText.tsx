@@ -0,0 +1,29 @@
+import React from 'react';
+import { CODE_CLASS_NAME, RichText as RichTextValue, TextSpan, normalizeRichText } from '@/lib/editor/rich-text';
+
+interface RichTextProps {
+  value: RichTextValue;
+}
+
+// Same markup as richTextToHtml, built as React elements
+const renderSpan = ({ text, marks = {} }: TextSpan, key: number) => {
+  let node: React.ReactNode = text;
+
+  if (marks.color || marks.highlight) {
+    node = <span style={{ color: marks.color, backgroundColor: marks.highlight }}>{node}</span>;
+  }
+  if (marks.strike) node = <s>{node}</s>;
+  if (marks.underline) node = <u>{node}</u>;
+  if (marks.italic) node = <em>{node}</em>;
+  if (marks.bold) node = <strong>{node}</strong>;
+  if (marks.code) node = <code className={CODE_CLASS_NAME}>{node}</code>;
+  if (marks.link) node = <a href={marks.link} target="_blank" rel="noopener noreferrer">{node}</a>;
+
+  return React.isValidElement(node) ? React.cloneElement(node, { key }) : node;
+};
+
+// Read-only rendering of rich text. Give the container `white-space: pre-wrap`
+// so line breaks show.
+const RichText: React.FC<RichTextProps> = ({ value }) => <>{normalizeRichText(value).map(renderSpan)}</>;
+
+export default RichText;
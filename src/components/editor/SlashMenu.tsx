@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import type { Block } from '@/lib/editor/blocks';
+import { BlockTypeDefinition, getBlockType, getBlockTypeGroups } from '@/lib/editor/registry';
+
+interface SlashMenuProps {
+  recent: Block['type'][];                 // Recently used types, shown before anything is typed
+  onSelect: (type: Block['type']) => void;
+  onClose: () => void;                     // Escape, or Backspace with nothing typed
+}
+
+const SlashMenuItem: React.FC<{ definition: BlockTypeDefinition; value: string; onSelect: () => void }> = ({ definition, value, onSelect }) => {
+  const { icon: Icon, label, description, type, aliases = [] } = definition;
+  return (
+    <CommandItem value={value} keywords={[label, type, ...aliases]} onSelect={onSelect} className="flex items-start gap-3 px-3 py-2">
+      <Icon className="w-4 h-4 text-gray-500 mt-0.5 flex-shrink-0" />
+      <div className="flex-1">
+        <div className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">{description}</div>
+      </div>
+    </CommandItem>
+  );
+};
+
+// Block type picker opened by typing '/'. Typing filters it (fuzzy, on label,
+// type and aliases); arrow keys move, Enter picks.
+const SlashMenu: React.FC<SlashMenuProps> = ({ recent, onSelect, onClose }) => {
+  const [search, setSearch] = useState('');
+  const recentTypes = recent.map(type => getBlockType(type)).filter((definition): definition is BlockTypeDefinition => !!definition);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' || (e.key === 'Backspace' && !search)) {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <Command loop className="bg-white dark:bg-gray-800" onKeyDown={handleKeyDown}>
+      <CommandInput autoFocus value={search} onValueChange={setSearch} placeholder="Search blocks..." />
+      <CommandList className="max-h-80">
+        <CommandEmpty>No matching blocks</CommandEmpty>
+        {/* Item values must be unique, so recent items get their own */}
+        {!search && recentTypes.length > 0 && (
+          <CommandGroup heading="Recent">
+            {recentTypes.map(definition => (
+              <SlashMenuItem
+                key={definition.type}
+                definition={definition}
+                value={`recent:${definition.type}`}
+                onSelect={() => onSelect(definition.type)}
+              />
+            ))}
+          </CommandGroup>
+        )}
+        {getBlockTypeGroups().map(([group, definitions]) => (
+          <CommandGroup key={group} heading={group}>
+            {definitions.map(definition => (
+              <SlashMenuItem
+                key={definition.type}
+                definition={definition}
+                value={definition.type}
+                onSelect={() => onSelect(definition.type)}
+              />
+            ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </Command>
+  );
+};
+
+export default SlashMenu;
@@ -0,0 +1,23 @@
+import React from 'react';
+import type { RichText as RichTextValue } from '@/lib/editor/rich-text';
+import { diffRichText } from '@/lib/editor/suggestions';
+import RichText from './RichText';
+
+interface SuggestedTextProps {
+  before: RichTextValue;
+  after: RichTextValue;
+}
+
+// Read-only rendering of suggested text, the same markup suggestedTextToHtml
+// gives the editable region. Style it with SUGGESTED_TEXT_CLASS_NAME.
+const SuggestedText: React.FC<SuggestedTextProps> = ({ before, after }) => (
+  <>
+    {diffRichText(before, after).map(({ type, text }, i) => {
+      if (type === 'insert') return <ins key={i}><RichText value={text} /></ins>;
+      if (type === 'delete') return <del key={i}><RichText value={text} /></del>;
+      return <RichText key={i} value={text} />;
+    })}
+  </>
+);
+
+export default SuggestedText;
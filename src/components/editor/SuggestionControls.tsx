@@ -0,0 +1,61 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, Check, X } from 'lucide-react';
+import { getBlockType } from '@/lib/editor/registry';
+import { Suggestion, SuggestionKind, getSuggestionKinds } from '@/lib/editor/suggestions';
+
+interface SuggestionControlsProps {
+  suggestion: Suggestion;
+  outdated: boolean;          // The block changed since the suggestion was made
+  onAccept?: () => void;      // Shows the Accept button when set
+  onReject?: () => void;      // Shows the Reject button when set
+}
+
+const typeLabel = (type: unknown) => (typeof type === 'string' && getBlockType(type)?.label) || String(type);
+
+const describe = (kind: SuggestionKind, { before, after }: Suggestion) => {
+  if (kind === 'type') return `type ${typeLabel(before.type)} → ${typeLabel(after.type)}`;
+  if (kind === 'other') return 'block settings';
+  return kind;
+};
+
+// Who suggested what on a block, with the buttons to accept or reject it
+const SuggestionControls: React.FC<SuggestionControlsProps> = ({ suggestion, outdated, onAccept, onReject }) => (
+  <div className="flex flex-wrap items-center gap-2 pl-8 pb-1 text-xs text-gray-500 dark:text-gray-400" data-suggestion-id={suggestion.id}>
+    <span>
+      <span className="font-medium text-green-700 dark:text-green-300">{suggestion.author.name}</span>
+      {' suggested '}
+      {getSuggestionKinds(suggestion).map(kind => describe(kind, suggestion)).join(', ')}
+      {' · '}
+      {formatDistanceToNow(new Date(suggestion.createdAt), { addSuffix: true })}
+    </span>
+    {outdated && (
+      <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400" title="The block was edited after this was suggested; accepting replaces those edits">
+        <AlertTriangle className="w-3.5 h-3.5" />
+        Outdated
+      </span>
+    )}
+    {onAccept && (
+      <button
+        onClick={onAccept}
+        className="flex items-center gap-1 px-2 py-0.5 rounded text-green-700 dark:text-green-300 hover:bg-green-50 dark:hover:bg-green-900/20"
+        title="Accept suggestion"
+      >
+        <Check className="w-3.5 h-3.5" />
+        Accept
+      </button>
+    )}
+    {onReject && (
+      <button
+        onClick={onReject}
+        className="flex items-center gap-1 px-2 py-0.5 rounded text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+        title="Reject suggestion"
+      >
+        <X className="w-3.5 h-3.5" />
+        Reject
+      </button>
+    )}
+  </div>
+);
+
+export default SuggestionControls;
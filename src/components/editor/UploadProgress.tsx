@@ -0,0 +1,41 @@
+import React from 'react';
+import { AlertCircle, RotateCcw, X } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import type { UploadState } from '@/hooks/use-upload';
+import { formatFileSize } from '@/lib/editor/upload';
+
+interface UploadProgressProps {
+  upload: UploadState;
+  onCancel: () => void;   // Cancels a running upload, or clears a failed one
+  onRetry: () => void;
+}
+
+// Progress of the file being uploaded in the image and file dialogs
+const UploadProgress: React.FC<UploadProgressProps> = ({ upload, onCancel, onRetry }) => (
+  <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 text-sm" role="status">
+    <div className="flex items-center gap-2 mb-2">
+      {upload.error && <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />}
+      <span className="flex-1 truncate">{upload.file.name}</span>
+      <span className="text-xs text-gray-500">{formatFileSize(upload.file.size)}</span>
+      {upload.error && !upload.refused && (
+        <button onClick={onRetry} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700" title="Retry">
+          <RotateCcw className="w-4 h-4" />
+        </button>
+      )}
+      <button
+        onClick={onCancel}
+        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+        title={upload.error ? 'Dismiss' : 'Cancel upload'}
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    {upload.error ? (
+      <p className="text-xs text-red-500">{upload.error}</p>
+    ) : (
+      <Progress value={upload.progress * 100} className="h-2" aria-label="Upload progress" />
+    )}
+  </div>
+);
+
+export default UploadProgress;
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import { Block, getBlockRichText } from '@/lib/editor/blocks';
+import { BlockChange, diffBlocks } from '@/lib/editor/diff';
+import { readDocument } from '@/lib/editor/document';
+import type { Snapshot } from '@/lib/editor/persistence';
+import { getBlockType } from '@/lib/editor/registry';
+import { richTextToPlainText } from '@/lib/editor/rich-text';
+
+interface VersionHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  snapshots: Snapshot[];
+  error?: Error | null;   // The last failure to list, save or delete versions
+  content: Block[];   // The current document, which versions are compared with
+  onCreate: (name: string) => void;
+  onRemove: (id: string) => void;
+  onRestore: (blocks: Block[]) => void;
+  onRestoreBlock: (version: Block[], id: string) => void;
+}
+
+const changeStyles: Record<BlockChange['kind'], string> = {
+  added: 'bg-green-50 dark:bg-green-900/20 border-green-500',
+  removed: 'bg-red-50 dark:bg-red-900/20 border-red-500 line-through text-gray-500',
+  changed: 'bg-amber-50 dark:bg-amber-900/20 border-amber-500',
+  unchanged: 'border-transparent text-gray-500'
+};
+
+const changeLabels: Record<BlockChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Deleted',
+  changed: 'Changed',
+  unchanged: ''
+};
+
+const blockText = (block: Block) => richTextToPlainText(getBlockRichText(block));
+
+const ChangeRow: React.FC<{ change: BlockChange; onRestore?: () => void }> = ({ change, onRestore }) => {
+  const typeLabel = getBlockType(change.block.type)?.label || change.block.type;
+  const text = change.text ? (
+    change.text.map((part, i) =>
+      part.type === 'insert' ? <ins key={i} className="bg-green-200 dark:bg-green-800 no-underline">{part.text}</ins> :
+      part.type === 'delete' ? <del key={i} className="bg-red-200 dark:bg-red-800">{part.text}</del> :
+      <span key={i}>{part.text}</span>)
+  ) : blockText(change.block) || <span className="italic">No text</span>;
+
+  return (
+    <div
+      className={`group flex items-start gap-2 px-2 py-1 border-l-2 text-sm ${changeStyles[change.kind]}`}
+      style={{ marginLeft: change.depth * 16 }}
+    >
+      <div className="flex-1 min-w-0">
+        <div className="text-xs text-gray-400 no-underline">
+          {typeLabel}{changeLabels[change.kind] && ` · ${changeLabels[change.kind]}`}
+          {change.kind === 'changed' && !change.text && ' (formatting or settings)'}
+        </div>
+        <div className="whitespace-pre-wrap break-words">{text}</div>
+      </div>
+      {onRestore && (
+        <button
+          onClick={onRestore}
+          className="p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-black/5 dark:hover:bg-white/10"
+          title="Restore this block"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Lists the saved versions of the document and shows how the document has
+// changed since the selected one, with restore for the whole version or a block
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  open,
+  onOpenChange,
+  snapshots,
+  error,
+  content,
+  onCreate,
+  onRemove,
+  onRestore,
+  onRestoreBlock
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId);
+  // Versions saved by a newer editor can't be read here
+  const version = useMemo(() => selected && readDocument(selected.document), [selected]);
+  const versionBlocks = version?.document?.blocks;
+  const changes = useMemo(() => versionBlocks && diffBlocks(versionBlocks, content), [versionBlocks, content]);
+  const changed = changes?.some(change => change.kind !== 'unchanged');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreate(name);
+    setName('');
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle>Version history</SheetTitle>
+          <SheetDescription>Select a version to see what has changed since. Restoring can be undone.</SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Version name (optional)"
+            className="flex-1 px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-700 bg-transparent"
+          />
+          <button type="submit" className="px-3 py-1 rounded text-sm bg-blue-600 text-white hover:bg-blue-700">
+            Save version
+          </button>
+        </form>
+
+        {error && (
+          <p className="flex items-center gap-1 text-sm text-red-600 dark:text-red-400" role="alert">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            Versions could not be loaded or saved: {error.message || 'unknown error'}
+          </p>
+        )}
+
+        <div className="max-h-56 overflow-y-auto -mx-2">
+          {snapshots.length === 0 && !error && <p className="px-2 text-sm text-gray-500">No versions saved yet.</p>}
+          {[...snapshots].reverse().map(snapshot => (
+            <div
+              key={snapshot.id}
+              className={`group flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer ${
+                snapshot.id === selectedId ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+              onClick={() => setSelectedId(snapshot.id === selectedId ? null : snapshot.id)}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">{snapshot.name || 'Autosaved version'}</div>
+                <div className="text-xs text-gray-500">
+                  {format(new Date(snapshot.createdAt), 'PPp')}{snapshot.authorId && ` · ${snapshot.authorId}`}
+                </div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (snapshot.id === selectedId) setSelectedId(null);
+                  onRemove(snapshot.id);
+                }}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-700"
+                title="Delete version"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {version?.error && (
+          <p className="border-t border-gray-200 dark:border-gray-700 pt-4 text-sm text-red-600 dark:text-red-400">
+            This version can't be shown: {version.error}
+          </p>
+        )}
+
+        {versionBlocks && changes && (
+          <div className="flex-1 min-h-0 flex flex-col gap-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+            <div className="flex items-center gap-2">
+              <span className="flex-1 text-sm font-medium">{changed ? 'Changes since this version' : 'No changes since this version'}</span>
+              {changed && (
+                <button
+                  onClick={() => onRestore(versionBlocks)}
+                  className="px-3 py-1 rounded text-sm bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  Restore this version
+                </button>
+              )}
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-0.5">
+              {changes.map(change => (
+                <ChangeRow
+                  key={`${change.kind}-${change.block.id}`}
+                  change={change}
+                  onRestore={change.kind === 'removed' || change.kind === 'changed'
+                    ? () => onRestoreBlock(versionBlocks, change.block.id)
+                    : undefined}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default VersionHistoryPanel;
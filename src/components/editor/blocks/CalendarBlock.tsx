@@ -0,0 +1,55 @@
+import React from 'react';
+import { format } from 'date-fns';
+import CalendarView, { CalendarEvent } from '@/components/CalendarView';
+import type { BlockRenderProps } from '@/lib/editor/registry';
+
+const CalendarBlock: React.FC<BlockRenderProps> = ({ block, readOnly, updateBlock }) => {
+  const events = block.calendarEvents || [];
+
+  return (
+    <div className="w-full h-64 bg-gray-50 dark:bg-gray-800 rounded-lg flex items-center justify-center">
+      <div className="w-full bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Calendar</h4>
+          {block.selectedDate && (
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              Selected: {format(block.selectedDate, 'PPP')}
+            </div>
+          )}
+        </div>
+        <div className="flex justify-center">
+          <CalendarView
+            selectedDate={block.selectedDate}
+            events={events}
+            readOnly={readOnly}
+            onDateSelect={(date) => updateBlock({ selectedDate: date })}
+            onEventCreate={(eventData) => {
+              const newEvent: CalendarEvent = {
+                ...eventData,
+                id: `event-${Date.now()}`
+              };
+              updateBlock({ calendarEvents: [...events, newEvent] });
+            }}
+            onEventUpdate={(eventId, eventData) => {
+              updateBlock({
+                calendarEvents: events.map(event => (event.id === eventId ? { ...event, ...eventData } : event))
+              });
+            }}
+            onEventDelete={(eventId) => {
+              updateBlock({ calendarEvents: events.filter(event => event.id !== eventId) });
+            }}
+          />
+        </div>
+        {block.selectedDate && (
+          <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/30 rounded-md">
+            <p className="text-sm text-blue-700 dark:text-blue-300">
+              📅 {format(block.selectedDate, 'EEEE, MMMM do, yyyy')}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarBlock;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart as RechartsPieChart, Cell, Pie } from 'recharts';
+import type { BlockRenderProps } from '@/lib/editor/registry';
+
+const COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
+
+// Renders both 'chart-bar' and 'chart-pie' blocks
+const ChartBlock: React.FC<BlockRenderProps> = ({ block, readOnly, updateBlock }) => {
+  const chartData = block.chartData || { labels: [], values: [] };
+  const data = chartData.labels.map((label, index) => ({
+    name: label,
+    value: chartData.values[index] || 0
+  }));
+
+  const addDataPoint = () => {
+    updateBlock({
+      chartData: {
+        labels: [...chartData.labels, `Item ${chartData.labels.length + 1}`],
+        values: [...chartData.values, 0]
+      }
+    });
+  };
+
+  const removeDataPoint = (index: number) => {
+    if (chartData.labels.length <= 1) return;
+    updateBlock({
+      chartData: {
+        labels: chartData.labels.filter((_, i) => i !== index),
+        values: chartData.values.filter((_, i) => i !== index)
+      }
+    });
+  };
+
+  const updateLabel = (index: number, label: string) => {
+    updateBlock({ chartData: { ...chartData, labels: chartData.labels.map((l, i) => (i === index ? label : l)) } }, { group: `label-${index}` });
+  };
+
+  const updateValue = (index: number, value: number) => {
+    updateBlock({ chartData: { ...chartData, values: chartData.values.map((v, i) => (i === index ? value : v)) } }, { group: `value-${index}` });
+  };
+
+  return (
+    <div className="w-full h-64 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <div className="p-4">
+        <h4 className="text-sm font-medium mb-4">{block.type === 'chart-pie' ? 'Pie Chart' : 'Bar Chart'}</h4>
+        <ResponsiveContainer width="100%" height={200}>
+          {block.type === 'chart-pie' ? (
+            <RechartsPieChart>
+              <Pie
+                data={data}
+                cx="50%"
+                cy="50%"
+                labelLine={false}
+                outerRadius={80}
+                fill="#8884d8"
+                dataKey="value"
+              >
+                {data.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                ))}
+              </Pie>
+              <Tooltip />
+            </RechartsPieChart>
+          ) : (
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis />
+              <Tooltip />
+              <Bar dataKey="value" fill="#3b82f6" />
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+        {!readOnly && (
+          <div className="mt-4">
+            <div className="flex gap-2 mb-4">
+              <button
+                onClick={addDataPoint}
+                className="text-xs bg-green-100 hover:bg-green-200 text-green-700 px-3 py-1 rounded"
+              >
+                Add Data Point
+              </button>
+            </div>
+            <div className="space-y-2">
+              <p className="text-xs text-gray-500">Edit chart data:</p>
+              {chartData.labels.map((label, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={label}
+                    onChange={(e) => updateLabel(index, e.target.value)}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                    placeholder="Label"
+                  />
+                  <input
+                    type="number"
+                    value={chartData.values[index] || 0}
+                    onChange={(e) => updateValue(index, Number(e.target.value))}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                    placeholder="Value"
+                  />
+                  {chartData.labels.length > 1 && (
+                    <button
+                      onClick={() => removeDataPoint(index)}
+                      className="text-red-500 hover:bg-red-100 rounded p-1"
+                      title="Remove data point"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChartBlock;
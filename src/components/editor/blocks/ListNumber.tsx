@@ -0,0 +1,75 @@
+import React from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { ListStyle, formatListNumber, getListNumber, getListSegmentStart, getListStyle } from '@/lib/editor/blocks';
+import type { BlockRenderProps } from '@/lib/editor/registry';
+
+const listStyles: { style: ListStyle; label: string }[] = [
+  { style: 'decimal', label: 'Numbers' },
+  { style: 'alpha', label: 'Letters' },
+  { style: 'roman', label: 'Roman numerals' }
+];
+
+// Marker of a numbered-list item; clicking it opens the numbering options
+const ListNumber: React.FC<BlockRenderProps> = ({ block, blocks, index, readOnly, updateBlock, updateSibling }) => {
+  const number = getListNumber(blocks, index);
+  const style = getListStyle(blocks, index);
+  const marker = `${formatListNumber(number, style)}.`;
+  const className = 'text-gray-500 dark:text-gray-400 mt-1 select-none min-w-[1.5rem]';
+  if (readOnly) return <span className={className}>{marker}</span>;
+
+  const runStart = blocks[index - 1]?.type !== 'numbered-list';
+  const hasPreviousRun = runStart && blocks.slice(0, index).some(b => b.type === 'numbered-list');
+  // A restart inside a run goes back to counting on; a run's first item can pick up the previous run
+  const canContinue = runStart ? hasPreviousRun && (!block.listContinue || block.listStart !== undefined) : block.listStart !== undefined;
+
+  const restartAt = () => {
+    const value = prompt('Restart numbering at:', String(number));
+    const start = value === null ? NaN : parseInt(value, 10);
+    if (start >= 0) updateBlock({ listStart: start, listContinue: undefined });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className={`${className} text-left hover:text-gray-700 dark:hover:text-gray-200`} title="Numbering options">
+          {marker}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-52">
+        <DropdownMenuLabel>Number style</DropdownMenuLabel>
+        {/* The style belongs to the item numbering counts from */}
+        <DropdownMenuRadioGroup
+          value={style}
+          onValueChange={(value) => updateSibling(blocks[getListSegmentStart(blocks, index)].id, {
+            listStyle: value === 'decimal' ? undefined : value as ListStyle
+          })}
+        >
+          {listStyles.map(({ style: option, label }) => (
+            <DropdownMenuRadioItem key={option} value={option}>
+              <span className="w-8 text-gray-500">{formatListNumber(1, option)}.</span>
+              {label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={restartAt}>Restart at…</DropdownMenuItem>
+        {canContinue && (
+          <DropdownMenuItem onSelect={() => updateBlock({ listStart: undefined, listContinue: runStart || undefined })}>
+            Continue from previous
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ListNumber;
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { Image, X, FileText, Video, Music, Bookmark, Play, Pause, Download, FileAudio, FileVideo } from 'lucide-react';
+import { useMediaUrl } from '@/hooks/use-media-url';
+import type { BlockRenderProps } from '@/lib/editor/registry';
+
+export const ImageBlock: React.FC<BlockRenderProps> = ({ block, readOnly, openMediaPicker }) => {
+  const src = useMediaUrl(block.content);
+
+  // Read-only documents have no placeholder to click
+  if (!block.content && readOnly) return null;
+
+  return block.content ? (
+    <img
+      src={src}
+      alt="Uploaded content"
+      className={`w-full h-auto rounded-lg ${readOnly ? '' : 'cursor-pointer hover:opacity-90 transition-opacity'}`}
+      onClick={() => !readOnly && openMediaPicker('image')}
+    />
+  ) : (
+    <div
+      onClick={() => openMediaPicker('image')}
+      className="w-full border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-8 text-center cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+    >
+      <Image className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+      <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Click to add an image</p>
+      <p className="text-xs text-gray-500">Upload or select from library</p>
+    </div>
+  );
+};
+
+export const FileBlock: React.FC<BlockRenderProps> = ({ block, readOnly, openMediaPicker }) => {
+  const src = useMediaUrl(block.content);
+
+  return (
+    <div className="w-full p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      {block.content ? (
+        <div className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+          <FileText className="w-8 h-8 text-blue-500 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+              {block.fileName || 'Document'}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {block.fileSize || 'Unknown size'} • {block.fileType || 'Document'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => src && window.open(src, '_blank')}
+              className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+              title="Open file"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+            {!readOnly && (
+              <button
+                onClick={() => openMediaPicker('file')}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title="Replace file"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      ) : !readOnly && (
+        <div
+          onClick={() => openMediaPicker('file')}
+          className="flex items-center gap-3 p-6 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+        >
+          <FileText className="w-8 h-8 text-gray-400" />
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Upload a file</p>
+            <p className="text-xs text-gray-500">Click to browse files</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const VideoBlock: React.FC<BlockRenderProps> = ({ block, readOnly, openMediaPicker }) => {
+  const src = useMediaUrl(block.content);
+
+  return (
+    <div className="w-full bg-gray-100 dark:bg-gray-800 rounded-lg">
+      {block.content ? (
+        <div className="relative">
+          <video
+            src={src}
+            controls
+            className="w-full rounded-lg"
+            style={{ maxHeight: '400px' }}
+          >
+            Your browser does not support the video tag.
+          </video>
+          <div className="mt-2 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <FileVideo className="w-4 h-4 text-gray-500" />
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {block.fileName || 'Video file'}
+              </span>
+              {block.fileSize && (
+                <span className="text-xs text-gray-500">({block.fileSize})</span>
+              )}
+            </div>
+            {!readOnly && (
+              <button
+                onClick={() => openMediaPicker('file')}
+                className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                title="Replace video"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      ) : !readOnly && (
+        <div
+          onClick={() => openMediaPicker('file')}
+          className="aspect-video bg-gray-100 dark:bg-gray-800 rounded-lg flex flex-col items-center justify-center cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors border-2 border-dashed border-gray-300 dark:border-gray-600"
+        >
+          <Video className="w-16 h-16 text-gray-400 mb-3" />
+          <p className="text-gray-500 font-medium">Upload Video</p>
+          <p className="text-xs text-gray-400 mt-1">Click to browse video files</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AudioBlock: React.FC<BlockRenderProps> = ({ block, readOnly, openMediaPicker }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const src = useMediaUrl(block.content);
+
+  return (
+    <div className="w-full p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      {block.content ? (
+        <div className="flex items-center gap-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+          <button
+            onClick={() => setIsPlaying(playing => !playing)}
+            className="p-3 bg-blue-100 hover:bg-blue-200 dark:bg-blue-900/30 dark:hover:bg-blue-900/50 text-blue-600 dark:text-blue-400 rounded-full transition-colors"
+          >
+            {isPlaying ? (
+              <Pause className="w-6 h-6" />
+            ) : (
+              <Play className="w-6 h-6" />
+            )}
+          </button>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 mb-1">
+              <FileAudio className="w-4 h-4 text-gray-500" />
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                {block.fileName || 'Audio file'}
+              </p>
+            </div>
+            <audio
+              src={src}
+              controls
+              className="w-full h-8"
+              style={{ filter: 'sepia(20%) saturate(70%) hue-rotate(180deg)' }}
+            >
+              Your browser does not support the audio tag.
+            </audio>
+            {block.fileSize && (
+              <p className="text-xs text-gray-500 mt-1">{block.fileSize}</p>
+            )}
+          </div>
+          {!readOnly && (
+            <button
+              onClick={() => openMediaPicker('file')}
+              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              title="Replace audio"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ) : !readOnly && (
+        <div
+          onClick={() => openMediaPicker('file')}
+          className="flex items-center gap-4 p-6 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+        >
+          <Music className="w-8 h-8 text-gray-400" />
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Upload Audio</p>
+            <p className="text-xs text-gray-500">Click to browse audio files</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const BookmarkBlock: React.FC<BlockRenderProps> = ({ block, readOnly, updateBlock }) => (
+  <div className="w-full p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+    <div className="flex items-center gap-3">
+      <Bookmark className="w-6 h-6 text-gray-400" />
+      <div className="flex-1 min-w-0">
+        {readOnly ? (
+          <a href={block.content} target="_blank" rel="noopener noreferrer" className="block text-sm text-blue-600 dark:text-blue-400 hover:underline truncate">
+            {block.content}
+          </a>
+        ) : (
+          <input
+            type="url"
+            defaultValue={block.content}
+            placeholder="Paste a link to create a bookmark"
+            className="w-full bg-transparent border-none outline-none text-sm"
+            onBlur={(e) => updateBlock({ content: e.target.value })}
+          />
+        )}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,128 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import type { BlockRenderProps } from '@/lib/editor/registry';
+
+const TableBlock: React.FC<BlockRenderProps> = ({ block, readOnly, updateBlock }) => {
+  const tableData = block.tableData || { headers: [], rows: [] };
+
+  const addRow = () => {
+    const newRow = new Array(tableData.headers.length).fill('');
+    updateBlock({ tableData: { ...tableData, rows: [...tableData.rows, newRow] } });
+  };
+
+  const addColumn = () => {
+    updateBlock({
+      tableData: {
+        headers: [...tableData.headers, `Column ${tableData.headers.length + 1}`],
+        rows: tableData.rows.map(row => [...row, ''])
+      }
+    });
+  };
+
+  const removeRow = (rowIndex: number) => {
+    if (tableData.rows.length <= 1) return;
+    updateBlock({ tableData: { ...tableData, rows: tableData.rows.filter((_, index) => index !== rowIndex) } });
+  };
+
+  const removeColumn = (colIndex: number) => {
+    if (tableData.headers.length <= 1) return;
+    updateBlock({
+      tableData: {
+        headers: tableData.headers.filter((_, index) => index !== colIndex),
+        rows: tableData.rows.map(row => row.filter((_, index) => index !== colIndex))
+      }
+    });
+  };
+
+  const updateHeader = (colIndex: number, value: string) => {
+    updateBlock({
+      tableData: { ...tableData, headers: tableData.headers.map((header, index) => (index === colIndex ? value : header)) }
+    }, { group: `header-${colIndex}` });
+  };
+
+  const updateCell = (rowIndex: number, colIndex: number, value: string) => {
+    updateBlock({
+      tableData: {
+        ...tableData,
+        rows: tableData.rows.map((row, r) => (r === rowIndex ? row.map((cell, c) => (c === colIndex ? value : cell)) : row))
+      }
+    }, { group: `cell-${rowIndex}-${colIndex}` });
+  };
+
+  return (
+    <div className="w-full overflow-x-auto">
+      {!readOnly && (
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={addRow}
+            className="text-xs bg-blue-100 hover:bg-blue-200 text-blue-700 px-2 py-1 rounded"
+          >
+            Add Row
+          </button>
+          <button
+            onClick={addColumn}
+            className="text-xs bg-blue-100 hover:bg-blue-200 text-blue-700 px-2 py-1 rounded"
+          >
+            Add Column
+          </button>
+        </div>
+      )}
+      <table className="min-w-full border border-gray-200 dark:border-gray-700">
+        <thead className="bg-gray-50 dark:bg-gray-800">
+          <tr>
+            {tableData.headers.map((header, index) => (
+              <th key={index} className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-left font-medium relative group">
+                {readOnly ? header : (
+                  <input
+                    type="text"
+                    value={header}
+                    onChange={(e) => updateHeader(index, e.target.value)}
+                    className="w-full bg-transparent border-none outline-none"
+                    placeholder={`Header ${index + 1}`}
+                  />
+                )}
+                {!readOnly && tableData.headers.length > 1 && (
+                  <button
+                    onClick={() => removeColumn(index)}
+                    className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 text-red-500 hover:bg-red-100 rounded p-1"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {tableData.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="group">
+              {row.map((cell, cellIndex) => (
+                <td key={cellIndex} className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 relative">
+                  {readOnly ? cell : (
+                    <input
+                      type="text"
+                      value={cell}
+                      onChange={(e) => updateCell(rowIndex, cellIndex, e.target.value)}
+                      className="w-full bg-transparent border-none outline-none"
+                      placeholder="Enter data"
+                    />
+                  )}
+                  {!readOnly && cellIndex === 0 && tableData.rows.length > 1 && (
+                    <button
+                      onClick={() => removeRow(rowIndex)}
+                      className="absolute left-1 top-1/2 transform -translate-y-1/2 opacity-0 group-hover:opacity-100 text-red-500 hover:bg-red-100 rounded p-1"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TableBlock;
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import type { BlockRenderProps } from '@/lib/editor/registry';
+import ToggleBody from './ToggleBody';
+
+interface ToggleProps extends BlockRenderProps {
+  text: React.ReactNode;   // The toggle's title region
+}
+
+// Toggle title with its collapsible body. Read-only documents still open and
+// close, without saving it to the block.
+const Toggle: React.FC<ToggleProps> = ({ text, ...props }) => {
+  const [openedLocally, setOpenedLocally] = useState<boolean>();
+  const collapsed = props.readOnly && openedLocally !== undefined ? !openedLocally : !!props.block.collapsed;
+
+  const toggle = () => {
+    if (props.readOnly) setOpenedLocally(collapsed);
+    else props.updateBlock({ collapsed: !collapsed });
+  };
+
+  return (
+    <>
+      <button
+        onClick={toggle}
+        className="mt-1 flex-shrink-0 p-0.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+        aria-expanded={!collapsed}
+      >
+        <ChevronRight className={`w-4 h-4 text-gray-500 transition-transform ${collapsed ? '' : 'rotate-90'}`} />
+      </button>
+      <div className="flex-1">
+        {text}
+        {!collapsed && <ToggleBody {...props} />}
+      </div>
+    </>
+  );
+};
+
+export default Toggle;
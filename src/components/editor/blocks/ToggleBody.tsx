@@ -0,0 +1,19 @@
+import React from 'react';
+import type { BlockRenderProps } from '@/lib/editor/registry';
+
+// Collapsible body under a toggle's title: its child blocks, or a prompt to
+// add the first one
+const ToggleBody: React.FC<BlockRenderProps> = ({ childBlocks, readOnly, addChildBlock }) => (
+  <div className="mt-1 space-y-1 border-l-2 border-gray-200 dark:border-gray-700 pl-2">
+    {childBlocks || (!readOnly && (
+      <button
+        onClick={() => addChildBlock('paragraph')}
+        className="w-full text-left px-2 py-1 text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800 rounded"
+      >
+        Empty toggle. Click to add a block.
+      </button>
+    ))}
+  </div>
+);
+
+export default ToggleBody;
@@ -0,0 +1,212 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Minus, Image, Table, BarChart3, PieChart, Calendar as CalendarIcon, FileText, Video, Music, Bookmark } from 'lucide-react';
+import type { CalendarEvent } from '@/components/CalendarView';
+import type { Block } from '@/lib/editor/blocks';
+import { BlockTypeDefinition, registerBlockType } from '@/lib/editor/registry';
+import { escapeMarkdown, markdownLink, markdownTable } from '@/lib/editor/to-markdown';
+import { textBlockTypes } from './text-blocks';
+import TableBlock from './TableBlock';
+import ChartBlock from './ChartBlock';
+import CalendarBlock from './CalendarBlock';
+import { ImageBlock, FileBlock, VideoBlock, AudioBlock, BookmarkBlock } from './MediaBlocks';
+
+const validateChart = (block: Block) => {
+  if (!block.chartData) return 'Chart block is missing chartData';
+  if (block.chartData.labels.length !== block.chartData.values.length) {
+    return 'Chart labels and values must have the same length';
+  }
+  return undefined;
+};
+
+// Markdown has no charts; export the data as a table under a title
+const chartToMarkdown = (title: string) => (block: Block) => {
+  const { labels, values } = block.chartData || { labels: [], values: [] };
+  return `**${title}**\n\n${markdownTable(['Label', 'Value'], labels.map((label, index) => [label, String(values[index] ?? 0)]))}`;
+};
+
+// Documents saved as plain JSON keep calendar dates as ISO strings
+const toDate = (value: Date | string) => (value instanceof Date ? value : new Date(value));
+const isValidDate = (date: Date) => !Number.isNaN(date.getTime());
+const toIsoString = (value: Date | string) => {
+  const date = toDate(value);
+  return isValidDate(date) ? date.toISOString() : undefined;
+};
+
+// Turns string dates back into dates; unreadable ones are dropped, since
+// nothing can show or save them
+const repairCalendar = (block: Block): Block => {
+  const events = block.calendarEvents || [];
+  const dates = [block.selectedDate, ...events.flatMap(event => [event.startTime, event.endTime])];
+  if (dates.every(date => date === undefined || (date instanceof Date && isValidDate(date)))) return block;
+
+  const selectedDate = block.selectedDate && toDate(block.selectedDate);
+  return {
+    ...block,
+    selectedDate: selectedDate && isValidDate(selectedDate) ? selectedDate : undefined,
+    calendarEvents: block.calendarEvents
+      ?.map(event => ({ ...event, startTime: toDate(event.startTime), endTime: toDate(event.endTime) }))
+      .filter(event => isValidDate(event.startTime) && isValidDate(event.endTime))
+  };
+};
+
+// Calendars export as the selected date followed by a list of its events
+const calendarToMarkdown = (block: Block) => {
+  const date = block.selectedDate ? new Date(block.selectedDate) : undefined;
+  const events = (block.calendarEvents || []).map(event => {
+    const time = `${format(new Date(event.startTime), 'yyyy-MM-dd HH:mm')}–${format(new Date(event.endTime), 'HH:mm')}`;
+    const location = event.location ? ` (${escapeMarkdown(event.location)})` : '';
+    return `- ${time} ${escapeMarkdown(event.title)}${location}`;
+  });
+  return [`📅 **${date ? format(date, 'yyyy-MM-dd') : 'Calendar'}**`, ...events].join('\n');
+};
+
+export const builtInBlockTypes: BlockTypeDefinition[] = [
+  ...textBlockTypes,
+  {
+    type: 'divider',
+    label: 'Divider',
+    icon: Minus,
+    description: 'Visually divide blocks.',
+    group: 'Basic blocks',
+    aliases: ['hr', 'line', 'separator'],
+    render: () => <div className="w-full border-t border-gray-300 dark:border-gray-600 my-4" />,
+    toMarkdown: () => '---'
+  },
+  {
+    type: 'image',
+    label: 'Image',
+    icon: Image,
+    description: 'Upload or embed with a link.',
+    group: 'Media',
+    aliases: ['img', 'picture', 'photo'],
+    contentUrl: 'media',
+    render: (props) => <ImageBlock {...props} />,
+    toMarkdown: (block) => (block.content ? `!${markdownLink(block.fileName || '', block.content)}` : '')
+  },
+  {
+    type: 'table',
+    label: 'Table',
+    icon: Table,
+    description: 'Create a table with data.',
+    group: 'Advanced',
+    aliases: ['grid', 'spreadsheet'],
+    defaults: () => ({ tableData: { headers: ['Column 1', 'Column 2'], rows: [['', ''], ['', '']] } }),
+    render: (props) => <TableBlock {...props} />,
+    toMarkdown: (block) => markdownTable(block.tableData?.headers || [], block.tableData?.rows || []),
+    validate: (block) => {
+      if (!block.tableData) return 'Table block is missing tableData';
+      const columns = block.tableData.headers.length;
+      if (block.tableData.rows.some(row => row.length !== columns)) {
+        return 'Every table row needs one cell per header';
+      }
+      return undefined;
+    }
+  },
+  {
+    type: 'chart-bar',
+    label: 'Bar Chart',
+    icon: BarChart3,
+    description: 'Display data as bar chart.',
+    group: 'Advanced',
+    aliases: ['chart', 'graph', 'bar'],
+    defaults: () => ({ chartData: { labels: ['A', 'B', 'C'], values: [10, 20, 30] } }),
+    render: (props) => <ChartBlock {...props} />,
+    toMarkdown: chartToMarkdown('Bar chart'),
+    validate: validateChart
+  },
+  {
+    type: 'chart-pie',
+    label: 'Pie Chart',
+    icon: PieChart,
+    description: 'Display data as pie chart.',
+    group: 'Advanced',
+    aliases: ['chart', 'graph', 'pie'],
+    defaults: () => ({ chartData: { labels: ['A', 'B', 'C'], values: [10, 20, 30] } }),
+    render: (props) => <ChartBlock {...props} />,
+    toMarkdown: chartToMarkdown('Pie chart'),
+    validate: validateChart
+  },
+  {
+    type: 'calendar',
+    label: 'Calendar',
+    icon: CalendarIcon,
+    description: 'Add a calendar view.',
+    group: 'Advanced',
+    aliases: ['date', 'events', 'schedule'],
+    defaults: () => ({ selectedDate: new Date(), calendarEvents: [] }),
+    render: (props) => <CalendarBlock {...props} />,
+    toMarkdown: calendarToMarkdown,
+    repair: repairCalendar,
+    serialize: (block) => ({
+      ...block,
+      selectedDate: block.selectedDate && toIsoString(block.selectedDate),
+      calendarEvents: block.calendarEvents?.map(event => ({
+        ...event,
+        startTime: toIsoString(event.startTime),
+        endTime: toIsoString(event.endTime)
+      }))
+    }),
+    deserialize: (data) => {
+      const { selectedDate, calendarEvents, ...block } = data as unknown as Omit<Block, 'selectedDate' | 'calendarEvents'> & {
+        selectedDate?: string;
+        calendarEvents?: (Omit<CalendarEvent, 'startTime' | 'endTime'> & { startTime: string; endTime: string })[];
+      };
+      return {
+        ...block,
+        selectedDate: selectedDate ? new Date(selectedDate) : undefined,
+        calendarEvents: calendarEvents?.map(event => ({
+          ...event,
+          startTime: new Date(event.startTime),
+          endTime: new Date(event.endTime)
+        }))
+      };
+    }
+  },
+  {
+    type: 'file',
+    label: 'File',
+    icon: FileText,
+    description: 'Upload and embed files.',
+    group: 'Media',
+    aliases: ['attachment', 'pdf', 'upload'],
+    contentUrl: 'media',
+    render: (props) => <FileBlock {...props} />,
+    toMarkdown: (block) => (block.content ? markdownLink(block.fileName || 'File', block.content) : '')
+  },
+  {
+    type: 'video',
+    label: 'Video',
+    icon: Video,
+    description: 'Embed video content.',
+    group: 'Media',
+    aliases: ['movie', 'mp4'],
+    contentUrl: 'media',
+    render: (props) => <VideoBlock {...props} />,
+    toMarkdown: (block) => (block.content ? markdownLink(block.fileName || 'Video', block.content) : '')
+  },
+  {
+    type: 'audio',
+    label: 'Audio',
+    icon: Music,
+    description: 'Embed audio content.',
+    group: 'Media',
+    aliases: ['sound', 'music', 'mp3'],
+    contentUrl: 'media',
+    render: (props) => <AudioBlock {...props} />,
+    toMarkdown: (block) => (block.content ? markdownLink(block.fileName || 'Audio', block.content) : '')
+  },
+  {
+    type: 'bookmark',
+    label: 'Bookmark',
+    icon: Bookmark,
+    description: 'Save a link with preview.',
+    group: 'Media',
+    aliases: ['link', 'url', 'embed'],
+    contentUrl: 'link',
+    render: (props) => <BookmarkBlock {...props} />,
+    toMarkdown: (block) => (block.content ? markdownLink(block.content, block.content) : '')
+  }
+];
+
+builtInBlockTypes.forEach(registerBlockType);
@@ -0,0 +1,223 @@
+import React from 'react';
+import {
+  Code,
+  Quote,
+  List,
+  ListOrdered,
+  Heading1,
+  Heading2,
+  Heading3,
+  Type,
+  Check,
+  Hash,
+  MoreHorizontal
+} from 'lucide-react';
+import { Block, formatListNumber, getListNumber, getListStyle } from '@/lib/editor/blocks';
+import type { BlockTypeDefinition } from '@/lib/editor/registry';
+import { blockTextToMarkdown, fenceCode, prefixLines } from '@/lib/editor/to-markdown';
+import ListNumber from './ListNumber';
+import Toggle from './Toggle';
+
+// Markdown cannot restart numbering inside a list, so each restart switches
+// between '.' and ')', which begins a new list
+const listDelimiter = (blocks: Block[], index: number) => {
+  let restarts = 0;
+  for (let i = index; blocks[i - 1]?.type === 'numbered-list'; i--) {
+    if (blocks[i].listStart !== undefined) restarts++;
+  }
+  return restarts % 2 ? ')' : '.';
+};
+
+// Blocks whose body is an editable text region rendered by the editor
+export const textBlockTypes: BlockTypeDefinition[] = [
+  {
+    type: 'paragraph',
+    label: 'Text',
+    icon: Type,
+    description: 'Just start writing with plain text.',
+    group: 'Basic blocks',
+    aliases: ['text', 'p', 'plain'],
+    className: 'text-gray-800 dark:text-gray-200 leading-relaxed min-h-[1.5rem] text-base',
+    alignable: true
+  },
+  {
+    type: 'heading1',
+    label: 'Heading 1',
+    icon: Heading1,
+    description: 'Big section heading.',
+    group: 'Basic blocks',
+    aliases: ['h1', 'title'],
+    className: 'text-3xl font-bold text-gray-900 dark:text-gray-100 leading-tight min-h-[2.5rem]',
+    placeholder: 'Heading 1',
+    alignable: true,
+    toMarkdown: (block) => `# ${blockTextToMarkdown(block)}`
+  },
+  {
+    type: 'heading2',
+    label: 'Heading 2',
+    icon: Heading2,
+    description: 'Medium section heading.',
+    group: 'Basic blocks',
+    aliases: ['h2', 'subtitle'],
+    className: 'text-2xl font-semibold text-gray-900 dark:text-gray-100 leading-tight min-h-[2rem]',
+    placeholder: 'Heading 2',
+    alignable: true,
+    toMarkdown: (block) => `## ${blockTextToMarkdown(block)}`
+  },
+  {
+    type: 'heading3',
+    label: 'Heading 3',
+    icon: Heading3,
+    description: 'Small section heading.',
+    group: 'Basic blocks',
+    aliases: ['h3'],
+    className: 'text-xl font-medium text-gray-900 dark:text-gray-200 leading-tight min-h-[1.75rem]',
+    placeholder: 'Heading 3',
+    alignable: true,
+    toMarkdown: (block) => `### ${blockTextToMarkdown(block)}`
+  },
+  {
+    type: 'list',
+    label: 'Bulleted list',
+    icon: List,
+    description: 'Create a simple bulleted list.',
+    group: 'Basic blocks',
+    aliases: ['ul', 'bullet', 'unordered'],
+    className: 'text-gray-800 dark:text-gray-200 leading-relaxed min-h-[1.5rem]',
+    placeholder: 'List item',
+    alignable: true,
+    toMarkdown: (block) => prefixLines(blockTextToMarkdown(block), '  ', '- '),
+    decorate: ({ depth }, text) => (
+      <>
+        {/* Bullet style cycles with the nesting level */}
+        <span className="text-gray-500 dark:text-gray-400 mt-1 select-none">{['•', '◦', '▪'][depth % 3]}</span>
+        {text}
+      </>
+    )
+  },
+  {
+    type: 'numbered-list',
+    label: 'Numbered list',
+    icon: ListOrdered,
+    description: 'Create a list with numbering.',
+    group: 'Basic blocks',
+    aliases: ['ol', 'ordered', 'numbers'],
+    className: 'text-gray-800 dark:text-gray-200 leading-relaxed min-h-[1.5rem]',
+    placeholder: 'Numbered list item',
+    alignable: true,
+    toMarkdown: (block, { blocks, index }) => {
+      const number = formatListNumber(getListNumber(blocks, index), getListStyle(blocks, index));
+      const marker = `${number}${listDelimiter(blocks, index)} `;
+      return prefixLines(blockTextToMarkdown(block), ' '.repeat(marker.length), marker);
+    },
+    decorate: (props, text) => (
+      <>
+        <ListNumber {...props} />
+        {text}
+      </>
+    )
+  },
+  {
+    type: 'todo',
+    label: 'To-do list',
+    icon: Check,
+    description: 'Track tasks with a to-do list.',
+    group: 'Basic blocks',
+    aliases: ['todo', 'task', 'checkbox'],
+    defaults: () => ({ checked: false }),
+    className: 'text-gray-800 dark:text-gray-200 leading-relaxed min-h-[1.5rem]',
+    placeholder: 'To-do',
+    alignable: true,
+    toMarkdown: (block) => prefixLines(blockTextToMarkdown(block), '  ', `- [${block.checked ? 'x' : ' '}] `),
+    decorate: ({ block, readOnly, updateBlock }, text) => (
+      <>
+        <button
+          onClick={() => updateBlock({ checked: !block.checked })}
+          className="mt-1 flex-shrink-0"
+          disabled={readOnly}
+        >
+          <div className={`w-4 h-4 border-2 rounded-sm flex items-center justify-center ${
+            block.checked
+              ? 'bg-blue-600 border-blue-600 text-white'
+              : 'border-gray-300 dark:border-gray-600 hover:border-gray-400'
+          }`}>
+            {block.checked && <Check className="w-3 h-3" />}
+          </div>
+        </button>
+        {text}
+      </>
+    )
+  },
+  {
+    type: 'toggle',
+    label: 'Toggle list',
+    icon: MoreHorizontal,
+    description: 'Toggles can hide and show content inside.',
+    group: 'Basic blocks',
+    aliases: ['details', 'collapse', 'expand'],
+    defaults: () => ({ collapsed: false, toggleTitle: '' }),
+    textField: 'toggleTitle',
+    wrapsChildren: true,
+    className: 'text-gray-800 dark:text-gray-200 leading-relaxed min-h-[1.5rem] text-base',
+    placeholder: 'Toggle title',
+    decorate: (props, text) => <Toggle {...props} text={text} />,
+    // GitHub and most static site generators render <details> as a toggle
+    toMarkdown: (block, { children }) =>
+      `<details>\n<summary>${blockTextToMarkdown(block)}</summary>\n\n${children ? `${children}\n\n` : ''}</details>`,
+    validate: (block) => (block.toggleTitle === undefined ? 'Toggle block is missing its title' : undefined)
+  },
+  {
+    type: 'code',
+    label: 'Code',
+    icon: Code,
+    description: 'Capture a code snippet.',
+    group: 'Basic blocks',
+    aliases: ['pre', 'snippet', 'codeblock'],
+    className: 'font-mono bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-md p-4 text-sm whitespace-pre-wrap min-h-[3rem]',
+    placeholder: 'Type your code...',
+    alignable: true,
+    defaults: () => ({ language: '' }),
+    toMarkdown: (block) => fenceCode(block.content, block.language),
+    decorate: ({ block }, text) => (
+      <div className="flex-1 relative">
+        {text}
+        {block.language && (
+          <span className="absolute top-2 right-3 text-xs text-gray-400 dark:text-gray-500 select-none">{block.language}</span>
+        )}
+      </div>
+    )
+  },
+  {
+    type: 'quote',
+    label: 'Quote',
+    icon: Quote,
+    description: 'Capture a quote.',
+    group: 'Basic blocks',
+    aliases: ['blockquote', 'citation'],
+    className: 'text-gray-700 dark:text-gray-300 italic text-lg leading-relaxed border-l-4 border-gray-300 dark:border-gray-600 pl-4 min-h-[1.5rem]',
+    placeholder: 'Quote',
+    alignable: true,
+    toMarkdown: (block) => prefixLines(blockTextToMarkdown(block), '> ')
+  },
+  {
+    type: 'callout',
+    label: 'Callout',
+    icon: Hash,
+    description: 'Make writing stand out.',
+    group: 'Basic blocks',
+    aliases: ['note', 'tip', 'info'],
+    placeholder: 'Type your callout...',
+    wrapsChildren: true,
+    toMarkdown: (block, { children }) =>
+      prefixLines([`💡 ${blockTextToMarkdown(block)}`, children].filter(Boolean).join('\n\n'), '> '),
+    decorate: ({ childBlocks }, text) => (
+      <div className="w-full bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-900/50 rounded-md p-4 flex items-start gap-3">
+        <span className="text-yellow-500 mt-1 flex-shrink-0 text-lg">💡</span>
+        <div className="flex-1 min-w-0">
+          {text}
+          {childBlocks && <div className="mt-2 space-y-1">{childBlocks}</div>}
+        </div>
+      </div>
+    )
+  }
+];
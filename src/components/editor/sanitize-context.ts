@@ -0,0 +1,13 @@
+import { createContext } from 'react';
+import { SanitizePolicy, SanitizeReport, defaultSanitizePolicy } from '@/lib/editor/sanitize';
+
+export interface SanitizeContextValue {
+  policy: SanitizePolicy;
+  report: (report: SanitizeReport) => void;
+}
+
+// Gives every editable region the sanitizer policy of the editor it is in
+export const SanitizeContext = createContext<SanitizeContextValue>({
+  policy: defaultSanitizePolicy,
+  report: () => undefined
+});
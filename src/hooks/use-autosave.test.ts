@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import '@/components/editor/blocks';
+import type { Block } from '@/lib/editor/blocks';
+import { StoredDocument, serializeDocument } from '@/lib/editor/document';
+import type { PersistenceAdapter } from '@/lib/editor/persistence';
+import { AutosaveOptions, useAutosave } from './use-autosave';
+
+const blocks = (content: string): Block[] => [{ id: 'a', type: 'paragraph', content }];
+
+// Adapter holding drafts in a map, optionally without offline saving
+const memoryAdapter = (drafts: Record<string, StoredDocument> = {}, local = true) => {
+  const stored = new Map(Object.entries(drafts));
+  const adapter: PersistenceAdapter = {
+    local,
+    load: vi.fn(async (key: string) => stored.get(key) || null),
+    save: vi.fn(async (key: string, document: StoredDocument) => { stored.set(key, document); }),
+    remove: vi.fn(async (key: string) => { stored.delete(key); })
+  };
+  return { adapter, stored };
+};
+
+const renderAutosave = (initial: Block[], options: AutosaveOptions) =>
+  renderHook(({ content }) => useAutosave(content, options), { initialProps: { content: initial } });
+
+describe('useAutosave', () => {
+  it('saves a moment after the last edit', async () => {
+    const { adapter, stored } = memoryAdapter();
+    const { result, rerender } = renderAutosave(blocks('one'), { key: 'doc', adapter, delay: 20 });
+    await waitFor(() => expect(adapter.load).toHaveBeenCalledWith('doc'));
+
+    rerender({ content: blocks('two') });
+    expect(result.current.status).toBe('saving');
+    await waitFor(() => expect(result.current.status).toBe('saved'));
+    expect(adapter.save).toHaveBeenCalledTimes(1);
+    expect(stored.get('doc')?.blocks).toEqual([expect.objectContaining({ content: 'two' })]);
+    expect(stored.get('doc')?.meta.updatedAt).toEqual(expect.any(String));
+  });
+
+  it('offers a draft that differs from the loaded content and holds saves until it is dismissed', async () => {
+    const draft = serializeDocument(blocks('draft'), { updatedAt: '2024-05-01T00:00:00.000Z' });
+    const { adapter, stored } = memoryAdapter({ doc: draft });
+    const { result, rerender } = renderAutosave(blocks('loaded'), { key: 'doc', adapter, delay: 0 });
+
+    await waitFor(() => expect(result.current.draft).not.toBeNull());
+    expect(result.current.draft).toEqual({ blocks: [expect.objectContaining({ content: 'draft' })], savedAt: '2024-05-01T00:00:00.000Z' });
+    rerender({ content: blocks('edited') });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(adapter.save).not.toHaveBeenCalled();
+
+    act(() => result.current.dismissDraft(true));
+    expect(result.current.draft).toBeNull();
+    await waitFor(() => expect(adapter.remove).toHaveBeenCalledWith('doc'));
+    await waitFor(() => expect(stored.get('doc')?.blocks).toEqual([expect.objectContaining({ content: 'edited' })]));
+  });
+
+  it('does not offer a draft that matches the loaded content', async () => {
+    const { adapter } = memoryAdapter({ doc: serializeDocument(blocks('same')) });
+    const { result } = renderAutosave(blocks('same'), { key: 'doc', adapter, delay: 0 });
+    await waitFor(() => expect(adapter.load).toHaveBeenCalled());
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(result.current.draft).toBeNull();
+    expect(result.current.status).toBe('saved');
+    expect(adapter.save).not.toHaveBeenCalled();
+  });
+
+  it('waits for the network with a remote adapter', async () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    try {
+      const { adapter } = memoryAdapter({}, false);
+      const { result, rerender } = renderAutosave(blocks('one'), { key: 'doc', adapter, delay: 0 });
+      await waitFor(() => expect(adapter.load).toHaveBeenCalled());
+      rerender({ content: blocks('two') });
+      await waitFor(() => expect(result.current.status).toBe('offline'));
+
+      onLine.mockReturnValue(true);
+      act(() => {
+        window.dispatchEvent(new Event('online'));
+      });
+      await waitFor(() => expect(result.current.status).toBe('saved'));
+      expect(adapter.save).toHaveBeenCalledTimes(1);
+    } finally {
+      onLine.mockRestore();
+    }
+  });
+
+  it('reports failed saves', async () => {
+    const { adapter } = memoryAdapter();
+    adapter.save = vi.fn(async () => { throw new Error('quota exceeded'); });
+    const { result, rerender } = renderAutosave(blocks('one'), { key: 'doc', adapter, delay: 0 });
+    await waitFor(() => expect(adapter.load).toHaveBeenCalled());
+    rerender({ content: blocks('two') });
+    await waitFor(() => expect(result.current.status).toBe('error'));
+  });
+});
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Block } from '@/lib/editor/blocks';
+import { deserializeDocument, serializeDocument } from '@/lib/editor/document';
+import { PersistenceAdapter, createLocalStorageAdapter } from '@/lib/editor/persistence';
+import { serializeBlocks } from '@/lib/editor/registry';
+
+export type SaveStatus = 'saved' | 'saving' | 'offline' | 'error';
+
+export interface AutosaveOptions {
+  key: string;                    // Identifies the document among saved drafts
+  adapter?: PersistenceAdapter;   // Where drafts go; localStorage when left out. Keep the object stable
+  delay?: number;                 // Milliseconds after the last edit before saving; 1000 by default
+}
+
+export interface Draft {
+  blocks: Block[];
+  savedAt?: string;   // ISO date
+}
+
+const defaultAdapter = createLocalStorageAdapter();
+
+const toJson = (blocks: Block[]) => JSON.stringify(serializeBlocks(blocks));
+
+// Saves `blocks` as a draft a moment after each edit, and finds the draft an
+// earlier session left behind when it differs from `blocks`. Until the user
+// restores or discards that draft, nothing is saved over it.
+export function useAutosave(blocks: Block[], options: AutosaveOptions | undefined) {
+  const key = options?.key;
+  const adapter = options?.adapter || defaultAdapter;
+  const delay = options?.delay ?? 1000;
+
+  const [status, setStatus] = useState<SaveStatus>('saved');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [checked, setChecked] = useState(false);
+  const [online, setOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  // What the adapter holds, and what is waiting to be saved
+  const savedJsonRef = useRef<string | null>(null);
+  const pendingJsonRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    setChecked(false);
+    setDraft(null);
+    savedJsonRef.current = null;
+
+    const initialJson = toJson(blocksRef.current);
+    adapter.load(key)
+      .then(stored => {
+        if (cancelled || !stored) return;
+        const found = deserializeDocument(stored);
+        if (toJson(found.blocks) === initialJson) savedJsonRef.current = initialJson;
+        else setDraft({ blocks: found.blocks, savedAt: found.meta.updatedAt });
+      })
+      // An unreadable draft is saved over
+      .catch(() => undefined)
+      .finally(() => {
+        if (!cancelled) setChecked(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, adapter]);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const active = !!key && checked && !draft;
+
+  useEffect(() => {
+    if (!key || !active) return;
+    const json = toJson(blocks);
+    pendingJsonRef.current = json;
+    if (json === savedJsonRef.current) {
+      setStatus('saved');
+      return;
+    }
+    if (!online && !adapter.local) {
+      setStatus('offline');
+      return;
+    }
+
+    setStatus('saving');
+    const timer = setTimeout(() => {
+      adapter.save(key, serializeDocument(blocks, { updatedAt: new Date().toISOString() }))
+        .then(() => {
+          savedJsonRef.current = json;
+          if (pendingJsonRef.current === json) setStatus('saved');
+        })
+        .catch(() => setStatus('error'));
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [blocks, key, adapter, delay, active, online]);
+
+  // Edits still waiting for the delay are saved as the page closes
+  useEffect(() => {
+    if (!key || !active) return;
+    const flush = () => {
+      if (toJson(blocksRef.current) === savedJsonRef.current) return;
+      adapter.save(key, serializeDocument(blocksRef.current, { updatedAt: new Date().toISOString() })).catch(() => undefined);
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, [key, adapter, active]);
+
+  // Call once the user has restored or discarded the draft; a discarded draft is deleted
+  const dismissDraft = useCallback((discard: boolean) => {
+    setDraft(null);
+    if (discard && key) adapter.remove(key).catch(() => undefined);
+  }, [key, adapter]);
+
+  return { status, draft, dismissDraft };
+}
@@ -0,0 +1,158 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import type { BlockSelection } from '@/hooks/use-block-selection';
+import { Block, getOutermostBlocks, getTextField, insertBlocksAfter, replaceBlockById } from '@/lib/editor/blocks';
+import { copyBlocksToClipboard, readBlocksFromClipboard, writeBlocksToClipboard } from '@/lib/editor/clipboard';
+import { looksLikeMarkdown, markdownToBlocks } from '@/lib/editor/from-markdown';
+import { sanitizeBlocks } from '@/lib/editor/sanitize';
+import { focusBlock } from '@/lib/editor/selection';
+import type { SanitizeContextValue } from '@/components/editor/sanitize-context';
+
+export interface BlockClipboardOptions {
+  readOnly: boolean;
+  suggesting: boolean;
+  selection: BlockSelection | null;
+  setSelection: (selection: BlockSelection | null) => void;
+  getRenderedBlockIds: () => string[];
+  applyChange: (updater: (blocks: Block[]) => Block[]) => void;
+  deleteBlocks: (ids: string[]) => void;
+  sanitize: SanitizeContextValue;
+}
+
+// Copy, cut and paste of whole blocks in the editor under `editorRef`.
+// Pasted blocks are held to the editor's sanitizer policy, and Markdown
+// pasted into a text block can be converted to blocks afterwards.
+export function useBlockClipboard(
+  editorRef: RefObject<HTMLElement>,
+  content: Block[],
+  { readOnly, suggesting, selection, setSelection, getRenderedBlockIds, applyChange, deleteBlocks, sanitize }: BlockClipboardOptions
+) {
+  // Markdown just pasted into `block` (as it was before the paste), offered for conversion
+  const [markdownPaste, setMarkdownPaste] = useState<{ block: Block; markdown: string } | null>(null);
+
+  // Adds sanitized pasted blocks after `blockId`, or in its place, and returns
+  // them as they went in
+  const pasteBlocks = useCallback((pasted: Block[], blockId: string, replace = false) => {
+    const { blocks, removed } = sanitizeBlocks(pasted, sanitize.policy);
+    if (removed.length) sanitize.report({ source: 'paste', removed });
+    if (!blocks.length) return null;
+
+    applyChange(currentContent => replace
+      ? replaceBlockById(currentContent, blockId, blocks)
+      : insertBlocksAfter(currentContent, blocks, blockId));
+    return blocks;
+  }, [applyChange, sanitize]);
+
+  // Blocks copied from an editor are pasted as blocks, replacing an empty
+  // block. Markdown pasted into a text block goes in as text; converting it
+  // to blocks is offered below the block.
+  const handleTextPaste = (e: React.ClipboardEvent, block: Block) => {
+    const copiedBlocks = block.type !== 'code' && readBlocksFromClipboard(e.clipboardData);
+    if (copiedBlocks) {
+      e.preventDefault();
+      setMarkdownPaste(null);
+      const empty = !(block[getTextField(block)] || '').trim() && !block.children?.length;
+      const pasted = pasteBlocks(copiedBlocks, block.id, empty);
+      if (pasted) focusBlock(pasted[pasted.length - 1].id);
+      return;
+    }
+
+    const text = e.clipboardData.getData('text/plain');
+    setMarkdownPaste(!suggesting && block.type !== 'code' && looksLikeMarkdown(text) ? { block, markdown: text } : null);
+  };
+
+  // Puts the block back as it was before the paste and adds the Markdown's
+  // blocks after it. An empty block is replaced by them.
+  const convertMarkdownPaste = () => {
+    if (!markdownPaste) return;
+    const { block, markdown } = markdownPaste;
+    setMarkdownPaste(null);
+
+    const { blocks, removed } = sanitizeBlocks(markdownToBlocks(markdown), sanitize.policy);
+    if (removed.length) sanitize.report({ source: 'paste', removed });
+    if (!blocks.length) return;
+
+    const replaced = (block[getTextField(block)] || '').trim() ? [block, ...blocks] : blocks;
+    applyChange(currentContent => replaceBlockById(currentContent, block.id, replaced));
+  };
+
+  // The selection toolbar's Copy and Cut; cut blocks are only deleted once
+  // they are on the clipboard
+  const copySelectedBlocks = (cut: boolean) => {
+    const ids = selection?.ids || [];
+    copyBlocksToClipboard(getOutermostBlocks(content, ids))
+      .then(() => cut && deleteBlocks(ids))
+      .catch(() => undefined);
+  };
+
+  // Blocks a text selection spans when it starts and ends in different blocks
+  const getBlocksInTextSelection = useCallback(() => {
+    const textSelection = window.getSelection();
+    if (!textSelection || textSelection.isCollapsed) return null;
+    const getBlockId = (node: Node | null) => {
+      const element = node instanceof Element ? node : node?.parentElement;
+      if (!element || !editorRef.current?.contains(element)) return undefined;
+      return element.closest<HTMLElement>('[data-block-id]')?.dataset.blockId;
+    };
+    const anchorId = getBlockId(textSelection.anchorNode);
+    const focusId = getBlockId(textSelection.focusNode);
+    if (!anchorId || !focusId || anchorId === focusId) return null;
+
+    const ids = getRenderedBlockIds();
+    const [start, end] = [ids.indexOf(anchorId), ids.indexOf(focusId)].sort((a, b) => a - b);
+    return ids.slice(start, end + 1);
+  }, [editorRef, getRenderedBlockIds]);
+
+  // Cmd/Ctrl+C and X copy whole blocks when
+  // blocks are selected or a text selection crosses blocks. Text selected in
+  // one field or elsewhere on the page is copied as usual.
+  useEffect(() => {
+    const handleClipboard = (event: ClipboardEvent) => {
+      const target = event.target instanceof Element ? event.target : null;
+      let ids = getBlocksInTextSelection();
+      if (!ids && selection && !target?.closest('[data-editable], input, textarea') && window.getSelection()?.isCollapsed) {
+        ids = selection.ids;
+      }
+      if (!ids || !event.clipboardData) return;
+
+      event.preventDefault();
+      writeBlocksToClipboard(event.clipboardData, getOutermostBlocks(content, ids));
+      if (event.type === 'cut' && !readOnly) deleteBlocks(ids);
+    };
+
+    document.addEventListener('copy', handleClipboard);
+    document.addEventListener('cut', handleClipboard);
+    return () => {
+      document.removeEventListener('copy', handleClipboard);
+      document.removeEventListener('cut', handleClipboard);
+    };
+  }, [selection, content, readOnly, deleteBlocks, getBlocksInTextSelection]);
+
+  // Pasting with blocks selected adds the clipboard's blocks (or its text, read
+  // as Markdown) after them and selects what was pasted
+  useEffect(() => {
+    if (!selection || readOnly) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target instanceof Element ? event.target : null;
+      if (target?.closest('[data-editable], input, textarea')) return;
+      const text = event.clipboardData?.getData('text/plain');
+      const blocks = readBlocksFromClipboard(event.clipboardData) || (text ? markdownToBlocks(text) : []);
+      const selected = getOutermostBlocks(content, selection.ids);
+      if (!blocks.length || !selected.length) return;
+
+      event.preventDefault();
+      const pasted = pasteBlocks(blocks, selected[selected.length - 1].id);
+      if (pasted) setSelection({ ids: pasted.map(block => block.id), anchor: pasted[0].id, focus: pasted[pasted.length - 1].id });
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [selection, content, readOnly, pasteBlocks, setSelection]);
+
+  return {
+    handleTextPaste,
+    markdownPaste,
+    convertMarkdownPaste,
+    dismissMarkdownPaste: () => setMarkdownPaste(null),
+    copySelectedBlocks
+  };
+}
@@ -0,0 +1,72 @@
+import { RefObject, useState } from 'react';
+import { Block, DropPosition, getDropPosition, moveBlocksTo } from '@/lib/editor/blocks';
+
+export interface BlockDragOptions {
+  readOnly: boolean;
+  selectedIds: string[];                                  // Dragging one of these moves them all
+  selectBlock: (id: string) => void;                      // A click on the handle selects its block
+  applyChange: (updater: (blocks: Block[]) => Block[]) => void;
+}
+
+// Drag and drop of blocks by their handle, with a mouse, pen or finger, in
+// the editor under `editorRef`. `dropTarget` is where the blocks would land.
+export function useBlockDrag(editorRef: RefObject<HTMLElement>, { readOnly, selectedIds, selectBlock, applyChange }: BlockDragOptions) {
+  const [draggingIds, setDraggingIds] = useState<string[] | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+
+  const startDrag = (e: React.PointerEvent, blockId: string) => {
+    if (readOnly || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const ids = selectedIds.includes(blockId) ? selectedIds : [blockId];
+    const start = { x: e.clientX, y: e.clientY };
+    let dragging = false;
+    let target: { id: string; position: DropPosition } | null = null;
+
+    const handleMove = (event: PointerEvent) => {
+      if (!dragging) {
+        // Until the pointer moves, this may still be a click
+        if (Math.hypot(event.clientX - start.x, event.clientY - start.y) < 4) return;
+        dragging = true;
+        setDraggingIds(ids);
+      }
+      // Scroll while dragging near the top or bottom of the window
+      if (event.clientY < 40) window.scrollBy(0, -10);
+      else if (event.clientY > window.innerHeight - 40) window.scrollBy(0, 10);
+
+      // Blocks cannot be dropped onto themselves or their own children
+      const row = document.elementFromPoint(event.clientX, event.clientY)?.closest<HTMLElement>('[data-block-row]');
+      const valid = row && editorRef.current?.contains(row) && !ids.some(id => row.closest(`[data-block-id="${id}"]`));
+      let next: typeof target = null;
+      if (valid) {
+        const rect = row.getBoundingClientRect();
+        next = { id: row.dataset.blockRow!, position: getDropPosition((event.clientY - rect.top) / rect.height) };
+      }
+      if (next?.id !== target?.id || next?.position !== target?.position) {
+        target = next;
+        setDropTarget(next);
+      }
+    };
+
+    const handleEnd = (event: PointerEvent) => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleEnd);
+      window.removeEventListener('pointercancel', handleEnd);
+      setDraggingIds(null);
+      setDropTarget(null);
+
+      const drop = target;
+      if (!dragging) {
+        if (event.type === 'pointerup') selectBlock(blockId);
+      } else if (drop && event.type === 'pointerup') {
+        applyChange(currentContent => moveBlocksTo(currentContent, ids, drop.id, drop.position));
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleEnd);
+    window.addEventListener('pointercancel', handleEnd);
+  };
+
+  return { draggingIds, dropTarget, startDrag };
+}
@@ -0,0 +1,82 @@
+import { RefObject, useCallback, useState } from 'react';
+
+// Blocks selected as a whole, in document order. `anchor` stays put while
+// Shift+click or Shift+arrows move `focus`.
+export interface BlockSelection {
+  ids: string[];
+  anchor: string;
+  focus: string;
+}
+
+// Whole-block selection in the editor under `editorRef`, made with Escape,
+// Shift+click, Shift+arrows or by dragging a rectangle across the margin.
+// Blocks are found through their `data-block-row` elements, so children of
+// collapsed toggles are left out.
+export function useBlockSelection(editorRef: RefObject<HTMLElement>, readOnly: boolean) {
+  const [selection, setSelection] = useState<BlockSelection | null>(null);
+  // Rubber-band rectangle while dragging across the margin, in viewport coordinates
+  const [band, setBand] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+
+  // Ids of the blocks on screen in document order
+  const getRenderedBlockIds = useCallback(() =>
+    Array.from(editorRef.current?.querySelectorAll<HTMLElement>('[data-block-row]') || [], row => row.dataset.blockRow!), [editorRef]);
+
+  // Keys and copy/cut go to the editor itself while blocks are selected
+  const focusEditor = useCallback(() => {
+    window.getSelection()?.removeAllRanges();
+    editorRef.current?.focus({ preventScroll: true });
+  }, [editorRef]);
+
+  // Selects the blocks from `anchor` to `focus` as shown on screen
+  const selectRange = useCallback((anchor: string, focus: string) => {
+    const ids = getRenderedBlockIds();
+    const anchorIndex = ids.indexOf(anchor);
+    const focusIndex = ids.indexOf(focus);
+    if (anchorIndex === -1 || focusIndex === -1) return;
+
+    setSelection({
+      ids: ids.slice(Math.min(anchorIndex, focusIndex), Math.max(anchorIndex, focusIndex) + 1),
+      anchor,
+      focus
+    });
+    focusEditor();
+  }, [getRenderedBlockIds, focusEditor]);
+
+  // Dragging from the margin selects every block the rectangle touches
+  const startBand = (e: React.MouseEvent) => {
+    const target = e.target as HTMLElement;
+    // Menus rendered in portals pass their events up through React too
+    if (readOnly || e.button !== 0 || !e.currentTarget.contains(target) || target.closest('[data-block-id], button, input, a')) return;
+    e.preventDefault();
+    const start = { x: e.clientX, y: e.clientY };
+
+    const handleMove = (event: MouseEvent) => {
+      const left = Math.min(start.x, event.clientX);
+      const top = Math.min(start.y, event.clientY);
+      const right = Math.max(start.x, event.clientX);
+      const bottom = Math.max(start.y, event.clientY);
+      setBand({ left, top, width: right - left, height: bottom - top });
+
+      const rows = Array.from(editorRef.current?.querySelectorAll<HTMLElement>('[data-block-row]') || []);
+      const ids = rows
+        .filter(row => {
+          const rect = row.getBoundingClientRect();
+          return rect.left < right && rect.right > left && rect.top < bottom && rect.bottom > top;
+        })
+        .map(row => row.dataset.blockRow!);
+      setSelection(ids.length ? { ids, anchor: ids[0], focus: ids[ids.length - 1] } : null);
+    };
+
+    const handleUp = () => {
+      setBand(null);
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      focusEditor();
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  return { selection, setSelection, selectRange, getRenderedBlockIds, band, startBand };
+}
@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import type * as Y from 'yjs';
+import '@/components/editor/blocks';
+import type { Block } from '@/lib/editor/blocks';
+import type { SyncProvider } from '@/lib/editor/sync';
+import { useCollaboration } from './use-collaboration';
+
+const blocks: Block[] = [{ id: 'a', type: 'paragraph', content: 'one' }];
+
+// Provider that records the documents it was given and never syncs
+const fakeProvider = () => {
+  const docs: Y.Doc[] = [];
+  const disconnect = vi.fn();
+  const provider: SyncProvider = {
+    connect: (doc) => {
+      docs.push(doc);
+      return disconnect;
+    }
+  };
+  return { provider, docs, disconnect };
+};
+
+const destroyed = (doc: Y.Doc) => {
+  const onDestroy = vi.fn();
+  doc.on('destroy', onDestroy);
+  return onDestroy;
+};
+
+describe('useCollaboration', () => {
+  it('destroys its document when unmounted', () => {
+    const { provider, docs, disconnect } = fakeProvider();
+    const { unmount } = renderHook(() => useCollaboration(blocks, vi.fn(), { provider }));
+    expect(docs).toHaveLength(1);
+    const onDestroy = destroyed(docs[0]);
+
+    unmount();
+    expect(disconnect).toHaveBeenCalledTimes(1);
+    expect(onDestroy).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a new document for a new provider and destroys the old one', () => {
+    const first = fakeProvider();
+    const second = fakeProvider();
+    const { rerender } = renderHook(({ provider }) => useCollaboration(blocks, vi.fn(), { provider }), {
+      initialProps: { provider: first.provider }
+    });
+    const onDestroy = destroyed(first.docs[0]);
+
+    rerender({ provider: second.provider });
+    expect(onDestroy).toHaveBeenCalledTimes(1);
+    expect(first.docs).toHaveLength(1);
+    expect(second.docs).toHaveLength(1);
+    expect(second.docs[0]).not.toBe(first.docs[0]);
+  });
+
+  it('makes no document without a provider', () => {
+    const { result } = renderHook(() => useCollaboration(blocks, vi.fn(), undefined));
+    expect(result.current.active).toBe(false);
+    expect(result.current.canUndo).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import type { Block } from '@/lib/editor/blocks';
+import { createUndoManager, isDocEmpty, mergeOfflineEdits, readBlocks, writeBlocks } from '@/lib/editor/crdt';
+import type { AwarenessChannel, CollaboratorUser } from '@/lib/editor/presence';
+import type { SyncProvider, SyncStatus } from '@/lib/editor/sync';
+
+export interface CollaborationOptions {
+  provider: SyncProvider;        // Keep the object stable; a new provider starts a new document
+  user?: CollaboratorUser;       // Who this copy is, shown to the others. Keep the object stable
+  awareness?: AwarenessChannel;  // Where presence goes; the provider's own channel when left out
+}
+
+// Backs `blocks` with a CRDT document synced through `options.provider`.
+// Local edits are written to the document as they happen and remote ones
+// come back through `setBlocks`; `load` cleans blocks from other copies
+// before they are shown. Blocks can be edited before the first sync; those
+// edits are merged into the shared document once it arrives. Undo and redo
+// only revert this copy's own edits.
+export function useCollaboration(
+  blocks: Block[],
+  setBlocks: (blocks: Block[]) => void,
+  options: CollaborationOptions | undefined,
+  { readOnly = false, load = (remote: Block[]) => remote }: { readOnly?: boolean; load?: (blocks: Block[]) => Block[] } = {}
+) {
+  const provider = options?.provider;
+  const [status, setStatus] = useState<SyncStatus>('connecting');
+  const [synced, setSynced] = useState(false);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  // Origin of this copy's own transactions
+  const origin = useMemo(() => ({}), []);
+  // The document and undo manager for a provider, made in an effect below so
+  // they can be destroyed again. Until it has run for a new provider, there
+  // is no document rather than the old one.
+  const [session, setSession] = useState<{ provider: SyncProvider; doc: Y.Doc; undoManager: Y.UndoManager } | null>(null);
+  const current = session?.provider === provider ? session : null;
+  const doc = current?.doc ?? null;
+  const undoManager = current?.undoManager ?? null;
+
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  const setBlocksRef = useRef(setBlocks);
+  setBlocksRef.current = setBlocks;
+  const loadRef = useRef(load);
+  loadRef.current = load;
+  const readOnlyRef = useRef(readOnly);
+  readOnlyRef.current = readOnly;
+  // The blocks the document held when last read or written
+  const docBlocksRef = useRef<Block[] | null>(null);
+  // The blocks when the connection started, which edits before the first sync are made to
+  const baseBlocksRef = useRef<Block[]>(blocks);
+
+  useEffect(() => {
+    if (!doc || !provider) return;
+    docBlocksRef.current = null;
+    baseBlocksRef.current = blocksRef.current;
+    setSynced(false);
+
+    const handleUpdate = (_update: Uint8Array, updateOrigin: unknown) => {
+      if (updateOrigin === origin || !docBlocksRef.current) return;
+      const next = loadRef.current(readBlocks(doc, docBlocksRef.current));
+      docBlocksRef.current = next;
+      setBlocksRef.current(next);
+    };
+
+    const handleStatus = (next: SyncStatus) => {
+      setStatus(next);
+      if (next !== 'synced' || docBlocksRef.current) return;
+      // The first sync decides: an empty document starts from this copy's blocks
+      if (isDocEmpty(doc)) {
+        doc.transact(() => writeBlocks(doc, blocksRef.current), origin);
+        docBlocksRef.current = blocksRef.current;
+        // Seeding the document is not an edit to undo
+        undoManager?.clear();
+      } else {
+        let remote = readBlocks(doc, blocksRef.current);
+        if (blocksRef.current !== baseBlocksRef.current && !readOnlyRef.current) {
+          const merged = mergeOfflineEdits(remote, baseBlocksRef.current, blocksRef.current);
+          doc.transact(() => writeBlocks(doc, merged, remote), origin);
+          remote = readBlocks(doc, merged);
+        }
+        const loaded = loadRef.current(remote);
+        docBlocksRef.current = loaded;
+        setBlocksRef.current(loaded);
+      }
+      setSynced(true);
+    };
+
+    doc.on('update', handleUpdate);
+    const disconnect = provider.connect(doc, handleStatus);
+    return () => {
+      disconnect();
+      doc.off('update', handleUpdate);
+    };
+  }, [doc, provider, origin, undoManager]);
+
+  // Written before the browser handles anything else, so a remote update
+  // can't arrive in between and be read without this edit
+  useLayoutEffect(() => {
+    if (!doc || !synced || readOnly || blocks === docBlocksRef.current) return;
+    doc.transact(() => writeBlocks(doc, blocks, docBlocksRef.current || []), origin);
+    docBlocksRef.current = blocks;
+  }, [blocks, doc, synced, readOnly, origin]);
+
+  useEffect(() => {
+    if (!undoManager) return;
+    const update = () => {
+      setCanUndo(undoManager.undoStack.length > 0);
+      setCanRedo(undoManager.redoStack.length > 0);
+    };
+    undoManager.on('stack-item-added', update);
+    undoManager.on('stack-item-popped', update);
+    undoManager.on('stack-cleared', update);
+    return () => {
+      undoManager.off('stack-item-added', update);
+      undoManager.off('stack-item-popped', update);
+      undoManager.off('stack-cleared', update);
+    };
+  }, [undoManager]);
+
+  // Declared last, so the effects above let go of the document before it is destroyed
+  useEffect(() => {
+    if (!provider) return;
+    const next = new Y.Doc();
+    const manager = createUndoManager(next, origin);
+    setSession({ provider, doc: next, undoManager: manager });
+    return () => {
+      setSession(null);
+      manager.destroy();
+      next.destroy();
+    };
+  }, [provider, origin]);
+
+  const undo = useCallback(() => undoManager?.undo(), [undoManager]);
+  const redo = useCallback(() => undoManager?.redo(), [undoManager]);
+
+  return { active: !!provider, doc, status, synced, undo, redo, canUndo, canRedo };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useLayoutEffect, useRef } from 'react';
+import { useControllableState } from '@/hooks/use-controllable-state';
+import type { Block } from '@/lib/editor/blocks';
+import {
+  Comment,
+  CommentThread,
+  CommentUser,
+  addReply,
+  createComment,
+  createThread,
+  mapCommentAnchors,
+  removeComment,
+  reopenThread,
+  resolveThread
+} from '@/lib/editor/comments';
+
+export interface CommentOptions {
+  user: CommentUser;                  // Who writes new comments and resolves threads
+  people?: CommentUser[];             // Who can be @mentioned
+  threads?: CommentThread[];          // Controlled threads; pair with onChange
+  defaultThreads?: CommentThread[];   // Initial threads when uncontrolled
+  onChange?: (threads: CommentThread[]) => void;
+  onMention?: (person: CommentUser, thread: CommentThread, comment: Comment) => void;  // E.g. to notify them
+}
+
+const noThreads: CommentThread[] = [];
+
+// Comment threads on `blocks`. Ranges move along as the blocks' text changes,
+// so they stay on the words they were made on.
+export function useComments(blocks: Block[], options: CommentOptions | undefined) {
+  const [threads, setThreads] = useControllableState<CommentThread[]>({
+    value: options?.threads,
+    defaultValue: options?.defaultThreads || noThreads,
+    onChange: options?.onChange
+  });
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const blocksRef = useRef(blocks);
+
+  // Before paint, so highlights never show on the old offsets
+  useLayoutEffect(() => {
+    const previous = blocksRef.current;
+    blocksRef.current = blocks;
+    if (previous !== blocks) setThreads(current => mapCommentAnchors(current, previous, blocks));
+  }, [blocks, setThreads]);
+
+  // Creates the comment and tells the people mentioned in it
+  const write = useCallback((body: string, add: (comment: Comment) => CommentThread) => {
+    const current = optionsRef.current;
+    if (!current || !body.trim()) return;
+    const comment = createComment(current.user, body, current.people);
+    const thread = add(comment);
+    current.people
+      ?.filter(person => comment.mentions.includes(person.id) && person.id !== current.user.id)
+      .forEach(person => current.onMention?.(person, thread, comment));
+  }, []);
+
+  // Starts a thread on a block, or on the text between `start` and `end` in it
+  const addThread = useCallback((blockId: string, body: string, range?: { start: number; end: number }) => {
+    let id: string | undefined;
+    write(body, comment => {
+      const thread = createThread(blocksRef.current, blockId, comment, range);
+      id = thread.id;
+      setThreads(current => [...current, thread]);
+      return thread;
+    });
+    return id;
+  }, [write, setThreads]);
+
+  const reply = useCallback((threadId: string, body: string) => {
+    write(body, comment => {
+      let thread: CommentThread | undefined;
+      setThreads(current => {
+        const next = addReply(current, threadId, comment);
+        thread = next.find(item => item.id === threadId);
+        return next;
+      });
+      return thread!;
+    });
+  }, [write, setThreads]);
+
+  const resolve = useCallback((threadId: string) => {
+    const user = optionsRef.current?.user;
+    if (user) setThreads(current => resolveThread(current, threadId, user));
+  }, [setThreads]);
+
+  const reopen = useCallback((threadId: string) => setThreads(current => reopenThread(current, threadId)), [setThreads]);
+
+  const remove = useCallback((threadId: string, commentId: string) =>
+    setThreads(current => removeComment(current, threadId, commentId)), [setThreads]);
+
+  return { threads, addThread, reply, resolve, reopen, remove };
+}
@@ -0,0 +1,39 @@
+import { useCallback, useRef, useState } from 'react';
+
+type SetStateAction<T> = T | ((prev: T) => T);
+
+interface UseControllableStateOptions<T> {
+  value?: T;
+  defaultValue: T;
+  onChange?: (value: T) => void;
+}
+
+// Works like useState, but defers to `value` when the parent controls it and
+// reports every change through `onChange`. Functional updates always receive
+// the latest value, even when several updates happen before a re-render.
+export function useControllableState<T>({ value, defaultValue, onChange }: UseControllableStateOptions<T>) {
+  const isControlled = value !== undefined;
+  const [internalValue, setInternalValue] = useState<T>(defaultValue);
+  const current = isControlled ? value : internalValue;
+
+  const latestRef = useRef(current);
+  latestRef.current = current;
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const setValue = useCallback((action: SetStateAction<T>) => {
+    const next = typeof action === 'function'
+      ? (action as (prev: T) => T)(latestRef.current)
+      : action;
+    if (Object.is(next, latestRef.current)) return;
+
+    latestRef.current = next;
+    if (!isControlled) {
+      setInternalValue(next);
+    }
+    onChangeRef.current?.(next);
+  }, [isControlled]);
+
+  return [current, setValue] as const;
+}
@@ -0,0 +1,64 @@
+import { useMemo, useState } from 'react';
+import { CommentOptions, useComments } from '@/hooks/use-comments';
+import type { Block } from '@/lib/editor/blocks';
+import { CommentAnchor, isRangeAnchor } from '@/lib/editor/comments';
+
+// Comment threads in the editor, with the state of the comments panel: whether
+// it is open, which thread it shows and the new thread being written
+export function useEditorComments(blocks: Block[], options: CommentOptions | undefined, readOnly: boolean) {
+  const { threads, addThread, reply, resolve, reopen, remove } = useComments(blocks, options);
+  const showTools = !!options && !readOnly;
+  const [panelOpen, setPanelOpen] = useState(false);
+  const [draft, setDraft] = useState<CommentAnchor | null>(null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const openThreads = useMemo(() => threads.filter(thread => !thread.resolved), [threads]);
+
+  // Opens the panel with a new thread on the block, or on a range of its text
+  const start = (blockId: string, range?: { start: number; end: number }) => {
+    setDraft(range && range.start !== range.end
+      ? { blockId, start: Math.min(range.start, range.end), end: Math.max(range.start, range.end) }
+      : { blockId });
+    setActiveThreadId(null);
+    setPanelOpen(true);
+  };
+
+  const create = (body: string) => {
+    if (!draft) return;
+    const id = addThread(draft.blockId, body, isRangeAnchor(draft) ? { start: draft.start!, end: draft.end! } : undefined);
+    setDraft(null);
+    setActiveThreadId(id || null);
+  };
+
+  const showThread = (id: string) => {
+    setActiveThreadId(id);
+    setPanelOpen(true);
+  };
+
+  // Closing the panel drops the new thread and the open one
+  const changePanelOpen = (open: boolean) => {
+    setPanelOpen(open);
+    if (!open) {
+      setDraft(null);
+      setActiveThreadId(null);
+    }
+  };
+
+  return {
+    threads,
+    openThreads,
+    showTools,
+    panelOpen,
+    setPanelOpen: changePanelOpen,
+    draft,
+    cancelDraft: () => setDraft(null),
+    activeThreadId,
+    setActiveThreadId,
+    start,
+    create,
+    showThread,
+    reply,
+    resolve,
+    reopen,
+    remove
+  };
+}
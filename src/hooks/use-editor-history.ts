@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import type { Block } from '@/lib/editor/blocks';
+import type { HistorySelection } from '@/lib/editor/history';
+import { sameOutline } from '@/lib/editor/suggestions';
+
+// Undo and redo of a shared document, as returned by useCollaboration
+export interface SharedHistory {
+  active: boolean;
+  synced: boolean;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface EditorHistoryOptions {
+  readOnly: boolean;
+  suggesting: boolean;   // Only changes to what blocks say go through while suggesting
+  shared: SharedHistory;
+  readSelection: () => HistorySelection | null;
+  restoreSelection: (selection: HistorySelection) => void;
+}
+
+// The editor's undo history. Every document change goes through
+// `applyChange` so it can be undone, and the caret goes back to where it was
+// once undone content is on screen; set `pendingSelectionRef` to move it
+// after other changes. Shared documents undo through the CRDT, which only
+// reverts this copy's edits. Suggestions aren't shared, and nothing is before
+// the first sync, so those undo locally.
+export function useEditorHistory(
+  content: Block[],
+  setContent: (action: Block[] | ((blocks: Block[]) => Block[])) => void,
+  { readOnly, suggesting, shared, readSelection, restoreSelection }: EditorHistoryOptions
+) {
+  const {
+    record,
+    undo: popUndo,
+    redo: popRedo,
+    clear,
+    canUndo: canUndoLocal,
+    canRedo: canRedoLocal
+  } = useUndoHistory<Block[]>();
+  // Set when an edit that adds, moves or removes blocks was refused while suggesting
+  const [structureRefused, setStructureRefused] = useState(false);
+
+  const contentRef = useRef(content);
+  contentRef.current = content;
+  const lastSelectionRef = useRef<HistorySelection | null>(null);
+  const pendingSelectionRef = useRef<HistorySelection | null>(null);
+
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const selection = readSelection();
+      if (selection) lastSelectionRef.current = selection;
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [readSelection]);
+
+  // Put the caret back after undo/redo once the restored content is on screen
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    if (!selection) return;
+    pendingSelectionRef.current = null;
+    restoreSelection(selection);
+  }, [content, restoreSelection]);
+
+  const applyChange = useCallback((updater: (blocks: Block[]) => Block[], group?: string) => {
+    // Block renderers may still call updateBlock; read-only documents ignore it
+    if (readOnly) return;
+    // Suggestions change what blocks say, not which blocks there are, so
+    // anything else is refused, saying why
+    if (suggesting && !sameOutline(contentRef.current, updater(contentRef.current))) {
+      setStructureRefused(true);
+      return;
+    }
+    const selectionBefore = lastSelectionRef.current;
+    setContent(currentContent => {
+      let nextContent = updater(currentContent);
+      // In case the blocks changed since the check above
+      if (suggesting && !sameOutline(currentContent, nextContent)) nextContent = currentContent;
+      if (nextContent !== currentContent) {
+        record(currentContent, nextContent, {
+          group,
+          selectionBefore,
+          selectionAfter: readSelection()
+        });
+      }
+      return nextContent;
+    });
+  }, [readOnly, setContent, suggesting, record, readSelection]);
+
+  useEffect(() => {
+    if (!structureRefused) return;
+    const timer = setTimeout(() => setStructureRefused(false), 5000);
+    return () => clearTimeout(timer);
+  }, [structureRefused]);
+
+  // Edits made before the first sync are now in the shared document, where
+  // undo continues
+  useEffect(() => {
+    if (shared.synced) clear();
+  }, [shared.synced, clear]);
+
+  const undoesShared = shared.active && shared.synced && !suggesting;
+  const { undo: undoShared, redo: redoShared } = shared;
+
+  const undo = useCallback(() => {
+    if (undoesShared) {
+      undoShared();
+      return;
+    }
+    const entry = popUndo();
+    if (!entry) return;
+    pendingSelectionRef.current = entry.selectionBefore;
+    setContent(entry.before);
+  }, [popUndo, setContent, undoesShared, undoShared]);
+
+  const redo = useCallback(() => {
+    if (undoesShared) {
+      redoShared();
+      return;
+    }
+    const entry = popRedo();
+    if (!entry) return;
+    pendingSelectionRef.current = entry.selectionAfter;
+    setContent(entry.after);
+  }, [popRedo, setContent, undoesShared, redoShared]);
+
+  return {
+    applyChange,
+    undo,
+    redo,
+    canUndo: undoesShared ? shared.canUndo : canUndoLocal,
+    canRedo: undoesShared ? shared.canRedo : canRedoLocal,
+    clear,
+    structureRefused,
+    lastSelectionRef,
+    pendingSelectionRef
+  };
+}
@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { SuggestionOptions, useSuggestions } from '@/hooks/use-suggestions';
+import type { Block } from '@/lib/editor/blocks';
+import { SanitizePolicy, sanitizeBlocks } from '@/lib/editor/sanitize';
+import { Suggestion, applySuggestions } from '@/lib/editor/suggestions';
+
+// Suggesting mode in the editor. While suggesting, the editor shows and edits
+// the document as it would be with every suggestion accepted, and edits are
+// recorded as suggestions: `content` and `setContent` are what it shows and
+// edits in either mode.
+export function useEditorSuggestions(
+  blocks: Block[],
+  setBlocks: (action: Block[] | ((blocks: Block[]) => Block[])) => void,
+  options: SuggestionOptions | undefined,
+  { readOnly, sanitizePolicy }: { readOnly: boolean; sanitizePolicy: SanitizePolicy }
+) {
+  const { suggestions, suggesting, setSuggesting, propose, remove } = useSuggestions(blocks, options);
+  const proposed = useMemo(
+    () => (suggestions.length ? sanitizeBlocks(applySuggestions(blocks, suggestions), sanitizePolicy).blocks : blocks),
+    [blocks, suggestions, sanitizePolicy]
+  );
+  const byBlock = useMemo(() => new Map(suggestions.map(suggestion => [suggestion.blockId, suggestion])), [suggestions]);
+  const showTools = !!options && !readOnly;
+  const canReview = showTools && !options?.suggestOnly;
+  const userId = options?.user.id;
+
+  // Reviewers can reject any suggestion, others only their own
+  const canReject = (suggestion: Suggestion) => canReview || (showTools && suggestion.author.id === userId);
+
+  // A block with a suggestion shows it and can't be edited until it is
+  // accepted or rejected, except by its author while suggesting
+  const isLocked = (blockId: string) => {
+    const suggestion = byBlock.get(blockId);
+    return !!suggestion && !(suggesting && suggestion.author.id === userId);
+  };
+
+  return {
+    suggestions,
+    suggesting,
+    setSuggesting,
+    remove,
+    proposed,
+    content: suggesting ? proposed : blocks,
+    setContent: suggesting ? propose : setBlocks,
+    byBlock,
+    showTools,
+    canReview,
+    canReject,
+    isLocked
+  };
+}
@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { storeMedia } from '@/lib/editor/persistence';
+import { useMediaUrl } from './use-media-url';
+
+// jsdom has no object URLs
+const createObjectURL = vi.fn(() => 'blob:object-url');
+const revokeObjectURL = vi.fn();
+Object.assign(URL, { createObjectURL, revokeObjectURL });
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('useMediaUrl', () => {
+  it('returns other URLs as they are', () => {
+    const { result } = renderHook(() => useMediaUrl('https://example.com/a.png'));
+    expect(result.current).toBe('https://example.com/a.png');
+    expect(createObjectURL).not.toHaveBeenCalled();
+  });
+
+  it('shows stored media through an object URL released on unmount', async () => {
+    const url = await storeMedia(new Blob(['image bytes'], { type: 'image/png' }));
+    const { result, unmount } = renderHook(() => useMediaUrl(url));
+    expect(result.current).toBeUndefined();
+
+    await waitFor(() => expect(result.current).toBe('blob:object-url'));
+    expect(createObjectURL).toHaveBeenCalledTimes(1);
+    unmount();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:object-url');
+  });
+
+  it('stays empty for media that is not stored', async () => {
+    const { result } = renderHook(() => useMediaUrl('media:missing'));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(result.current).toBeUndefined();
+    expect(createObjectURL).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { isStoredMediaUrl, loadMedia } from '@/lib/editor/persistence';
+
+// A URL the browser can show for a block's media. Files kept in IndexedDB
+// (`media:` URLs) get an object URL, released when the block lets go of it;
+// other URLs are returned as they are.
+export function useMediaUrl(url: string) {
+  const stored = isStoredMediaUrl(url);
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!stored) return;
+    let cancelled = false;
+    let created: string | null = null;
+    loadMedia(url)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        created = URL.createObjectURL(blob);
+        setObjectUrl(created);
+      })
+      // A missing file shows as a broken image or link
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+      setObjectUrl(null);
+    };
+  }, [url, stored]);
+
+  return stored ? objectUrl || undefined : url;
+}
@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type * as Y from 'yjs';
+import { Block, findBlock, getTextField } from '@/lib/editor/blocks';
+import { getTextPosition, resolveTextPosition } from '@/lib/editor/crdt';
+import { stableStringify } from '@/lib/editor/document';
+import type { HistorySelection } from '@/lib/editor/history';
+import type { AwarenessChannel, Collaborator, CollaboratorUser, PresenceCursor } from '@/lib/editor/presence';
+
+// Carets are published at most this often while the selection moves
+const PUBLISH_DELAY = 50;
+
+// Publishes where `user`'s caret is through `awareness` and returns everyone
+// else in the document, with their carets moved to where that text is now in
+// `blocks`. `readCursor` reads this copy's selection.
+export function usePresence(
+  awareness: AwarenessChannel | undefined,
+  user: CollaboratorUser | undefined,
+  { doc, blocks, readCursor }: { doc: Y.Doc | null; blocks: Block[]; readCursor: () => HistorySelection | null }
+): Collaborator[] {
+  const [others, setOthers] = useState<Collaborator[]>([]);
+  const readCursorRef = useRef(readCursor);
+  readCursorRef.current = readCursor;
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+
+  useEffect(() => {
+    if (!awareness) return;
+    const unsubscribe = awareness.subscribe(setOthers);
+    return () => {
+      unsubscribe();
+      setOthers([]);
+    };
+  }, [awareness]);
+
+  useEffect(() => {
+    if (!awareness || !user) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let published: string | null = null;
+
+    const publish = () => {
+      timer = undefined;
+      const selection = readCursorRef.current();
+      let cursor: PresenceCursor | null = selection && { blockId: selection.blockId, start: selection.start, end: selection.end };
+      if (cursor && selection?.field) cursor.field = selection.field;
+      const block = cursor && findBlock(blocksRef.current, cursor.blockId);
+      if (cursor && doc && block && cursor.field === getTextField(block)) {
+        const relativeStart = getTextPosition(doc, cursor.blockId, cursor.start);
+        if (relativeStart) cursor = { ...cursor, relativeStart, relativeEnd: getTextPosition(doc, cursor.blockId, cursor.end) };
+      }
+
+      const state = { user, cursor };
+      const json = stableStringify(state);
+      if (json === published) return;
+      published = json;
+      awareness.setLocalState(state);
+    };
+    const schedule = () => {
+      if (timer === undefined) timer = setTimeout(publish, PUBLISH_DELAY);
+    };
+
+    publish();
+    document.addEventListener('selectionchange', schedule);
+    return () => {
+      document.removeEventListener('selectionchange', schedule);
+      clearTimeout(timer);
+      awareness.setLocalState(null);
+    };
+  }, [awareness, user, doc]);
+
+  return useMemo(() => others.map(collaborator => {
+    const cursor = collaborator.cursor;
+    if (!doc || !cursor?.relativeStart) return collaborator;
+    const start = resolveTextPosition(doc, cursor.relativeStart);
+    const end = resolveTextPosition(doc, cursor.relativeEnd);
+    return start === null ? collaborator : { ...collaborator, cursor: { ...cursor, start, end: end ?? start } };
+    // `blocks` changes whenever the document does, which moves the positions
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }), [others, doc, blocks]);
+}
@@ -0,0 +1,32 @@
+import { useCallback, useState } from 'react';
+
+const STORAGE_KEY = 'block-editor:recent-commands';
+
+const readRecent = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    // No storage (server rendering, private mode) or a value we did not write
+    return [];
+  }
+};
+
+// Most recently used commands first, remembered across sessions in localStorage
+export function useRecentCommands(limit = 5) {
+  const [recent, setRecent] = useState<string[]>(readRecent);
+
+  const addRecent = useCallback((command: string) => {
+    setRecent(current => {
+      const next = [command, ...current.filter(item => item !== command)].slice(0, limit);
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Keep the list for this session only
+      }
+      return next;
+    });
+  }, [limit]);
+
+  return { recent: recent.slice(0, limit), addRecent };
+}
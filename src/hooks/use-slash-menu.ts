@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRecentCommands } from '@/hooks/use-recent-commands';
+import type { HistorySelection } from '@/lib/editor/history';
+
+// `selection` is where '/' was typed, so the caret can go back there
+export interface SlashMenuState {
+  blockId: string;
+  position: { x: number; y: number };
+  selection: HistorySelection | null;
+}
+
+// The block type menu opened by typing '/', with the recently picked types.
+// It closes on a click outside `ref`.
+export function useSlashMenu(restoreSelection: (selection: HistorySelection) => void) {
+  const [menu, setMenu] = useState<SlashMenuState | null>(null);
+  const { recent, addRecent } = useRecentCommands();
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (ref.current && !ref.current.contains(event.target as Node)) setMenu(null);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // Opens below the caret, or below `target` when the caret has no size
+  const open = useCallback((blockId: string, target: HTMLElement, selection: HistorySelection | null) => {
+    const caretRect = window.getSelection()?.rangeCount ? window.getSelection()!.getRangeAt(0).getBoundingClientRect() : null;
+    const rect = caretRect && caretRect.height ? caretRect : target.getBoundingClientRect();
+    setMenu({ blockId, position: { x: rect.left, y: rect.bottom }, selection });
+  }, []);
+
+  const close = () => {
+    if (menu?.selection) restoreSelection(menu.selection);
+    setMenu(null);
+  };
+
+  // Closes the menu, remembering `type`, and returns the block it was opened in
+  const pick = (type: string) => {
+    if (!menu) return null;
+    addRecent(type);
+    setMenu(null);
+    return menu.blockId;
+  };
+
+  return { menu, ref, recent, open, close, pick };
+}
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Block, randomBlockId } from '@/lib/editor/blocks';
+import { serializeDocument } from '@/lib/editor/document';
+import { Snapshot, SnapshotAdapter, createLocalStorageSnapshotAdapter } from '@/lib/editor/persistence';
+import { serializeBlocks } from '@/lib/editor/registry';
+
+export interface SnapshotOptions {
+  key: string;                  // Identifies the document whose versions are kept
+  adapter?: SnapshotAdapter;    // Where versions go; localStorage when left out. Keep the object stable
+  authorId?: string;            // Recorded with each version
+  interval?: number;            // Milliseconds between periodic versions; 10 minutes by default, 0 turns them off
+  limit?: number;               // Periodic versions kept; the oldest go first. 50 by default
+}
+
+const defaultAdapter = createLocalStorageSnapshotAdapter();
+
+const toJson = (blocks: Block[]) => JSON.stringify(serializeBlocks(blocks));
+
+// Lists the saved versions of a document, saves a new one every `interval`
+// while it is being edited, and saves named versions on request. Named
+// versions are never pruned.
+export function useSnapshots(blocks: Block[], options: SnapshotOptions | undefined) {
+  const key = options?.key;
+  const adapter = options?.adapter || defaultAdapter;
+  const authorId = options?.authorId;
+  const interval = options?.interval ?? 10 * 60 * 1000;
+  const limit = options?.limit ?? 50;
+
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  const snapshotsRef = useRef(snapshots);
+  snapshotsRef.current = snapshots;
+  // The content of the latest version, so unchanged documents are not saved again
+  const lastJsonRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    setSnapshots([]);
+    adapter.list(key)
+      .then(list => {
+        if (cancelled) return;
+        setSnapshots(list);
+        const latest = list[list.length - 1];
+        lastJsonRef.current = latest ? JSON.stringify(latest.document.blocks) : null;
+      })
+      .catch(err => {
+        if (!cancelled) setError(err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, adapter]);
+
+  const saveSnapshot = useCallback(async (name?: string) => {
+    if (!key) return;
+    const json = toJson(blocksRef.current);
+    const snapshot: Snapshot = {
+      id: randomBlockId(),
+      ...(name && { name }),
+      createdAt: new Date().toISOString(),
+      ...(authorId && { authorId }),
+      document: serializeDocument(blocksRef.current, {})
+    };
+    try {
+      await adapter.save(key, snapshot);
+      lastJsonRef.current = json;
+
+      const periodic = [...snapshotsRef.current, snapshot].filter(saved => !saved.name);
+      const pruned = periodic.slice(0, Math.max(0, periodic.length - limit)).map(saved => saved.id);
+      await Promise.all(pruned.map(id => adapter.remove(key, id)));
+      setSnapshots(list => [...list, snapshot].filter(saved => !pruned.includes(saved.id)));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    }
+  }, [key, adapter, authorId, limit]);
+
+  useEffect(() => {
+    if (!key || !interval) return;
+    const timer = setInterval(() => {
+      if (toJson(blocksRef.current) !== lastJsonRef.current) saveSnapshot();
+    }, interval);
+    return () => clearInterval(timer);
+  }, [key, interval, saveSnapshot]);
+
+  const createSnapshot = useCallback((name: string) => saveSnapshot(name.trim() || undefined), [saveSnapshot]);
+
+  const removeSnapshot = useCallback(async (id: string) => {
+    if (!key) return;
+    try {
+      await adapter.remove(key, id);
+      setSnapshots(list => list.filter(saved => saved.id !== id));
+    } catch (err) {
+      setError(err as Error);
+    }
+  }, [key, adapter]);
+
+  return { snapshots, error, createSnapshot, removeSnapshot };
+}
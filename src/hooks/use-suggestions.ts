@@ -0,0 +1,46 @@
+import { useCallback, useRef, useState } from 'react';
+import { useControllableState } from '@/hooks/use-controllable-state';
+import type { Block } from '@/lib/editor/blocks';
+import type { CommentUser } from '@/lib/editor/comments';
+import { Suggestion, applySuggestions, recordSuggestions, removeSuggestions } from '@/lib/editor/suggestions';
+
+export interface SuggestionOptions {
+  user: CommentUser;                    // Who new suggestions are attributed to
+  suggestions?: Suggestion[];           // Controlled suggestions; pair with onChange
+  defaultSuggestions?: Suggestion[];    // Initial suggestions when uncontrolled
+  onChange?: (suggestions: Suggestion[]) => void;
+  suggestOnly?: boolean;                // Always suggesting; the user can't accept, and only rejects their own
+}
+
+const noSuggestions: Suggestion[] = [];
+
+// Suggestions on `blocks`, and whether edits are being suggested rather than
+// made. While suggesting, `propose` takes the document as it would be with
+// every suggestion accepted and records how it differs from `blocks`.
+export function useSuggestions(blocks: Block[], options: SuggestionOptions | undefined) {
+  const [suggestions, setSuggestions] = useControllableState<Suggestion[]>({
+    value: options?.suggestions,
+    defaultValue: options?.defaultSuggestions || noSuggestions,
+    onChange: options?.onChange
+  });
+  const [suggestingLocal, setSuggesting] = useState(false);
+  const suggesting = !!options && (suggestingLocal || !!options.suggestOnly);
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  const userRef = useRef(options?.user);
+  userRef.current = options?.user;
+
+  // Same signature as the setter of the blocks, so edits can go through either
+  const propose = useCallback((action: Block[] | ((proposed: Block[]) => Block[])) => {
+    const user = userRef.current;
+    if (!user) return;
+    setSuggestions(current => {
+      const proposed = typeof action === 'function' ? action(applySuggestions(blocksRef.current, current)) : action;
+      return recordSuggestions(current, blocksRef.current, proposed, user);
+    });
+  }, [setSuggestions]);
+
+  const remove = useCallback((ids: string[]) => setSuggestions(current => removeSuggestions(current, ids)), [setSuggestions]);
+
+  return { suggestions, suggesting, setSuggesting, propose, remove };
+}
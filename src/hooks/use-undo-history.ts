@@ -0,0 +1,75 @@
+import { useCallback, useRef, useState } from 'react';
+import {
+  History,
+  HistoryEntry,
+  HistorySelection,
+  PushOptions,
+  createHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory
+} from '@/lib/editor/history';
+
+interface RecordMeta {
+  group?: string;
+  selectionBefore?: HistorySelection | null;
+  selectionAfter?: HistorySelection | null;
+}
+
+// Keeps an undo/redo stack of value transitions. The caller records every change
+// it makes and applies the entry returned by undo()/redo() itself.
+export function useUndoHistory<T>(options: PushOptions = {}) {
+  const historyRef = useRef<History<T>>(createHistory<T>());
+  const [counts, setCounts] = useState({ undo: 0, redo: 0 });
+
+  const sync = useCallback(() => {
+    setCounts({
+      undo: historyRef.current.undoStack.length,
+      redo: historyRef.current.redoStack.length
+    });
+  }, []);
+
+  const { groupDelay, limit } = options;
+
+  const record = useCallback((before: T, after: T, meta: RecordMeta = {}) => {
+    historyRef.current = pushHistory(historyRef.current, {
+      before,
+      after,
+      group: meta.group,
+      selectionBefore: meta.selectionBefore || null,
+      selectionAfter: meta.selectionAfter || null,
+      timestamp: Date.now()
+    }, { groupDelay, limit });
+    sync();
+  }, [groupDelay, limit, sync]);
+
+  const undo = useCallback((): HistoryEntry<T> | null => {
+    const result = undoHistory(historyRef.current);
+    if (!result) return null;
+    historyRef.current = result.history;
+    sync();
+    return result.entry;
+  }, [sync]);
+
+  const redo = useCallback((): HistoryEntry<T> | null => {
+    const result = redoHistory(historyRef.current);
+    if (!result) return null;
+    historyRef.current = result.history;
+    sync();
+    return result.entry;
+  }, [sync]);
+
+  const clear = useCallback(() => {
+    historyRef.current = createHistory<T>();
+    sync();
+  }, [sync]);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: counts.undo > 0,
+    canRedo: counts.redo > 0
+  };
+}
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { UploadAdapter, UploadKind, UploadLimits, UploadResult, checkUpload, isAbortError } from '@/lib/editor/upload';
+
+export interface UploadState {
+  file: File;
+  kind: UploadKind;
+  progress: number;   // 0 to 1
+  error?: string;     // Set when the upload failed or the file was refused
+  refused?: boolean;  // The file breaks the size or type limits, so retrying won't help
+}
+
+// Runs one upload at a time through `adapter`, with its progress, cancel and
+// retry. `onDone` gets the adapter's result once the file is uploaded.
+export function useUpload(adapter: UploadAdapter, limits: UploadLimits) {
+  const [upload, setUpload] = useState<UploadState | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const doneRef = useRef<((result: UploadResult, file: File) => void) | null>(null);
+
+  const run = useCallback((file: File, kind: UploadKind) => {
+    controllerRef.current?.abort();
+    const error = checkUpload(file, limits[kind]);
+    setUpload({ file, kind, progress: 0, error, refused: !!error });
+    if (error) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    adapter.upload(file, {
+      signal: controller.signal,
+      onProgress: (progress) => {
+        if (!controller.signal.aborted) setUpload(current => current && { ...current, progress });
+      }
+    })
+      .then(result => {
+        if (controller.signal.aborted) return;
+        controllerRef.current = null;
+        setUpload(null);
+        doneRef.current?.(result, file);
+      })
+      .catch(err => {
+        if (controller.signal.aborted || isAbortError(err)) return;
+        controllerRef.current = null;
+        setUpload(current => current && { ...current, error: err instanceof Error ? err.message : 'Upload failed' });
+      });
+  }, [adapter, limits]);
+
+  const start = useCallback((file: File, kind: UploadKind, onDone: (result: UploadResult, file: File) => void) => {
+    doneRef.current = onDone;
+    run(file, kind);
+  }, [run]);
+
+  const retry = useCallback(() => {
+    if (upload) run(upload.file, upload.kind);
+  }, [upload, run]);
+
+  // Also clears a failed upload
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setUpload(null);
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { upload, start, retry, cancel };
+}
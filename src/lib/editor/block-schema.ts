@@ -0,0 +1,75 @@
+import * as z from 'zod';
+import type { Block } from './blocks';
+import { getBlockType, validateBlock } from './registry';
+
+export const richTextSchema = z.array(z.object({
+  text: z.string(),
+  marks: z.object({
+    bold: z.boolean().optional(),
+    italic: z.boolean().optional(),
+    underline: z.boolean().optional(),
+    strike: z.boolean().optional(),
+    code: z.boolean().optional(),
+    link: z.string().optional(),
+    color: z.string().optional(),
+    highlight: z.string().optional()
+  }).optional()
+}));
+
+// Zod schema for a single block. Type-specific checks come from the block
+// type registry, so custom block types are validated like built-in ones.
+export const blockSchema: z.ZodType<Block> = z.object({
+  id: z.string(),
+  // Types this editor doesn't know are kept, as the editor keeps them
+  type: z.string().min(1),
+  content: z.string(),
+  richText: richTextSchema.optional(),
+  alignment: z.enum(['left', 'center', 'right']).optional(),
+  checked: z.boolean().optional(),
+  listStart: z.number().int().optional(),
+  listContinue: z.boolean().optional(),
+  listStyle: z.enum(['decimal', 'alpha', 'roman']).optional(),
+  collapsed: z.boolean().optional(),
+  children: z.lazy(() => z.array(blockSchema)).optional(),
+  color: z.string().optional(),
+  backgroundColor: z.string().optional(),
+  tableData: z.object({
+    headers: z.array(z.string()),
+    rows: z.array(z.array(z.string()))
+  }).optional(),
+  chartData: z.object({
+    labels: z.array(z.string()),
+    values: z.array(z.number())
+  }).optional(),
+  toggleTitle: z.string().optional(),
+  toggleContent: z.string().optional(),
+  language: z.string().optional(),
+  selectedDate: z.date().optional(),
+  calendarEvents: z.array(z.any()).optional(),
+  fileName: z.string().optional(),
+  fileSize: z.string().optional(),
+  fileType: z.string().optional(),
+  fileMeta: z.record(z.unknown()).optional(),
+  data: z.record(z.unknown()).optional()
+}).passthrough().superRefine((block, ctx) => {
+  if (!getBlockType(block.type)) return;
+  const error = validateBlock(block as Block);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+}) as unknown as z.ZodType<Block>;
+
+export const blocksSchema = z.array(blockSchema);
+
+// Refinement for a whole document: ids must be unique across the tree
+export const checkUniqueBlockIds = (blocks: Block[], ctx: z.RefinementCtx) => {
+  const seenIds = new Set<string>();
+  const checkIds = (list: Block[]) => list.forEach(block => {
+    if (seenIds.has(block.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate block id "${block.id}"` });
+    }
+    seenIds.add(block.id);
+    if (block.children) checkIds(block.children);
+  });
+  checkIds(blocks);
+};
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Block,
+  cloneBlock,
+  createBlockId,
+  findBlockLocation,
+  formatListNumber,
+  getDropPosition,
+  getListNumber,
+  getListSegmentStart,
+  getListStyle,
+  getOutermostBlocks,
+  indentBlock,
+  insertBlocksAfter,
+  moveBlockTo,
+  moveBlocks,
+  moveBlocksTo,
+  moveToggleContentToChildren,
+  outdentBlock,
+  removeBlockById,
+  removeBlocks,
+  updateBlockById
+} from './blocks';
+
+const block = (id: string, children?: Block[]): Block => ({ id, type: 'paragraph', content: id, ...(children && { children }) });
+
+// Ids as nested arrays, e.g. ['a', ['b', ['c']]] for c inside b
+type Shape = (string | Shape)[];
+const shape = (blocks: Block[]): Shape =>
+  blocks.flatMap(b => (b.children?.length ? [b.id, shape(b.children)] : [b.id]));
+
+describe('block tree', () => {
+  it('indents a block into the sibling above it', () => {
+    const blocks = [block('a', [block('a1')]), block('b'), block('c')];
+    expect(shape(indentBlock(blocks, 'b'))).toEqual(['a', ['a1', 'b'], 'c']);
+    // The first sibling has nothing to go into
+    expect(indentBlock(blocks, 'a')).toBe(blocks);
+  });
+
+  it('outdents a block and takes the siblings below it along', () => {
+    const blocks = [block('a', [block('a1'), block('a2'), block('a3')]), block('b')];
+    expect(shape(outdentBlock(blocks, 'a2'))).toEqual(['a', ['a1'], 'a2', ['a3'], 'b']);
+    expect(outdentBlock(blocks, 'b')).toBe(blocks);
+  });
+
+  it('undoes an indent with an outdent', () => {
+    const blocks = [block('a'), block('b', [block('b1')]), block('c')];
+    expect(shape(outdentBlock(indentBlock(blocks, 'b'), 'b'))).toEqual(shape(blocks));
+  });
+
+  it('moves a block next to or into a target', () => {
+    const blocks = [block('a'), block('b', [block('b1')]), block('c')];
+    expect(shape(moveBlockTo(blocks, 'a', 'c', 'after'))).toEqual(['b', ['b1'], 'c', 'a']);
+    expect(shape(moveBlockTo(blocks, 'c', 'b1', 'before'))).toEqual(['a', 'b', ['c', 'b1']]);
+    expect(shape(moveBlockTo(blocks, 'a', 'b', 'inside'))).toEqual(['b', ['b1', 'a'], 'c']);
+  });
+
+  it('refuses to move a block into itself', () => {
+    const blocks = [block('a', [block('a1')]), block('b')];
+    expect(moveBlockTo(blocks, 'a', 'a1', 'inside')).toBe(blocks);
+    expect(moveBlockTo(blocks, 'a', 'a', 'after')).toBe(blocks);
+  });
+
+  it('removes a block with its children', () => {
+    const blocks = [block('a', [block('a1')]), block('b')];
+    expect(shape(removeBlockById(blocks, 'a'))).toEqual(['b']);
+    expect(shape(removeBlockById(blocks, 'a1'))).toEqual(['a', 'b']);
+  });
+
+  it('moves several blocks to one target in document order', () => {
+    const blocks = [block('a'), block('b', [block('b1')]), block('c')];
+    expect(shape(moveBlocksTo(blocks, ['c', 'a'], 'b1', 'before'))).toEqual(['b', ['a', 'c', 'b1']]);
+    expect(shape(moveBlocksTo(blocks, ['a', 'c'], 'b', 'inside'))).toEqual(['b', ['b1', 'a', 'c']]);
+    // A selected child comes along with its selected parent
+    expect(shape(moveBlocksTo(blocks, ['b', 'b1'], 'c', 'after'))).toEqual(['a', 'c', 'b', ['b1']]);
+  });
+
+  it('refuses to drop blocks onto one of themselves', () => {
+    const blocks = [block('a', [block('a1')]), block('b'), block('c')];
+    expect(moveBlocksTo(blocks, ['b', 'a'], 'a1', 'after')).toBe(blocks);
+    expect(moveBlocksTo(blocks, ['b', 'c'], 'c', 'inside')).toBe(blocks);
+    expect(moveBlocksTo(blocks, ['missing'], 'b', 'after')).toBe(blocks);
+  });
+
+  it('drops before, into or after a block by pointer height', () => {
+    expect([0, 0.2, 0.25, 0.5, 0.75, 0.8, 1].map(getDropPosition))
+      .toEqual(['before', 'before', 'inside', 'inside', 'inside', 'after', 'after']);
+  });
+
+  it('moves a selected run up and down together', () => {
+    const blocks = [block('a'), block('b'), block('c'), block('d')];
+    expect(shape(moveBlocks(blocks, ['b', 'c'], 'up'))).toEqual(['b', 'c', 'a', 'd']);
+    expect(shape(moveBlocks(blocks, ['b', 'c'], 'down'))).toEqual(['a', 'd', 'b', 'c']);
+    expect(shape(moveBlocks(blocks, ['a'], 'up'))).toEqual(shape(blocks));
+  });
+
+  it('moves selected blocks within their own siblings', () => {
+    const blocks = [block('a', [block('a1'), block('a2')]), block('b')];
+    expect(shape(moveBlocks(blocks, ['a2', 'b'], 'up'))).toEqual(['b', 'a', ['a2', 'a1']]);
+    // A selected child moves along with its selected parent
+    expect(shape(moveBlocks(blocks, ['a', 'a1'], 'down'))).toEqual(['b', 'a', ['a1', 'a2']]);
+  });
+
+  it('removes blocks with their children', () => {
+    const blocks = [block('a', [block('a1')]), block('b')];
+    expect(shape(removeBlocks(blocks, ['a']))).toEqual(['b']);
+    expect(shape(removeBlocks(blocks, ['a1', 'a']))).toEqual(['b']);
+    expect(getOutermostBlocks(blocks, ['a1', 'a']).map(b => b.id)).toEqual(['a']);
+    expect(getOutermostBlocks(blocks, ['b', 'a1']).map(b => b.id)).toEqual(['a1', 'b']);
+  });
+
+  it('inserts several blocks after a block or at the end', () => {
+    const blocks = [block('a', [block('a1')]), block('b')];
+    expect(shape(insertBlocksAfter(blocks, [block('x'), block('y')], 'a1'))).toEqual(['a', ['a1', 'x', 'y'], 'b']);
+    expect(shape(insertBlocksAfter(blocks, [block('x')]))).toEqual(['a', ['a1'], 'b', 'x']);
+  });
+
+  it('keeps unchanged branches and returns the same tree for no-op updates', () => {
+    const blocks = [block('a', [block('a1')]), block('b', [block('b1')])];
+    const updated = updateBlockById(blocks, 'a1', { content: 'changed' });
+    expect(updated[0].children![0].content).toBe('changed');
+    expect(updated[1]).toBe(blocks[1]);
+    expect(updateBlockById(blocks, 'a1', { content: 'a1' })).toBe(blocks);
+    expect(findBlockLocation(updated, 'a1')).toMatchObject({ parent: { id: 'a' }, index: 0 });
+  });
+
+  it('clones a subtree with fresh ids', () => {
+    const original = block('a', [block('a1')]);
+    const copy = cloneBlock(original);
+    expect(copy.id).not.toBe('a');
+    expect(copy.children![0].id).not.toBe('a1');
+    expect(copy.children![0].content).toBe('a1');
+    expect(new Set(Array.from({ length: 100 }, createBlockId)).size).toBe(100);
+  });
+
+  it('turns toggle body HTML into a child paragraph', () => {
+    const toggle: Block = { id: 't', type: 'toggle', content: '', toggleTitle: 'More', toggleContent: '<b>Body</b>' };
+    const [moved] = moveToggleContentToChildren([toggle]);
+    expect(moved.toggleContent).toBeUndefined();
+    expect(moved.children).toEqual([expect.objectContaining({ id: 't-body', type: 'paragraph', content: 'Body' })]);
+    const blocks = [block('a')];
+    expect(moveToggleContentToChildren(blocks)).toBe(blocks);
+  });
+});
+
+describe('list numbering', () => {
+  const item = (id: string, fields: Partial<Block> = {}, children?: Block[]): Block =>
+    ({ id, type: 'numbered-list', content: id, ...fields, ...(children && { children }) });
+  const numbers = (blocks: Block[]) =>
+    blocks.map((b, i) => (b.type === 'numbered-list' ? formatListNumber(getListNumber(blocks, i), getListStyle(blocks, i)) : '-'));
+
+  it('counts up through a run and starts again after other blocks', () => {
+    expect(numbers([item('a'), item('b'), item('c'), block('p'), item('d'), item('e')])).toEqual(['1', '2', '3', '-', '1', '2']);
+  });
+
+  it('restarts at an item with a start number', () => {
+    const blocks = [item('a'), item('b'), item('c', { listStart: 10 }), item('d')];
+    expect(numbers(blocks)).toEqual(['1', '2', '10', '11']);
+    expect(getListSegmentStart(blocks, 3)).toBe(2);
+    expect(getListSegmentStart(blocks, 1)).toBe(0);
+  });
+
+  it('continues from the previous run when asked to', () => {
+    const blocks = [item('a', { listStart: 4 }), item('b'), block('p'), item('c', { listContinue: true }), item('d'), block('q'), item('e')];
+    expect(numbers(blocks)).toEqual(['4', '5', '-', '6', '7', '-', '1']);
+    // With no earlier run there is nothing to continue
+    expect(numbers([block('p'), item('a', { listContinue: true })])).toEqual(['-', '1']);
+  });
+
+  it('numbers each level on its own', () => {
+    const children = [item('a1'), item('a2', { listStart: 5 }), item('a3')];
+    const blocks = [item('a', {}, children), item('b')];
+    expect(numbers(blocks)).toEqual(['1', '2']);
+    expect(numbers(blocks[0].children!)).toEqual(['1', '5', '6']);
+  });
+
+  it('takes the marker style from the start of the segment', () => {
+    const blocks = [item('a', { listStyle: 'alpha' }), item('b'), item('c', { listStart: 1, listStyle: 'roman' }), item('d'), item('e', { listStart: 9 })];
+    expect(numbers(blocks)).toEqual(['a', 'b', 'i', 'ii', '9']);
+  });
+
+  it('writes letters and Roman numerals', () => {
+    expect([1, 26, 27, 52, 703].map(n => formatListNumber(n, 'alpha'))).toEqual(['a', 'z', 'aa', 'az', 'aaa']);
+    expect([1, 4, 9, 14, 40, 90, 400, 1994].map(n => formatListNumber(n, 'roman')))
+      .toEqual(['i', 'iv', 'ix', 'xiv', 'xl', 'xc', 'cd', 'mcmxciv']);
+    expect(formatListNumber(0, 'alpha')).toBe('0');
+    expect(formatListNumber(-2, 'roman')).toBe('-2');
+    expect(formatListNumber(12)).toBe('12');
+  });
+});
@@ -0,0 +1,379 @@
+import type { CalendarEvent } from '@/components/CalendarView';
+import { getBlockType } from './registry';
+import { RichText, htmlToRichText, richTextToPlainText } from './rich-text';
+
+export type BuiltInBlockType =
+  | 'paragraph'
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'quote'
+  | 'code'
+  | 'list'
+  | 'numbered-list'
+  | 'todo'
+  | 'toggle'
+  | 'image'
+  | 'divider'
+  | 'callout'
+  | 'table'
+  | 'chart-bar'
+  | 'chart-pie'
+  | 'calendar'
+  | 'file'
+  | 'video'
+  | 'audio'
+  | 'bookmark';
+
+// Numbered list markers: 1., a. or i.
+export type ListStyle = 'decimal' | 'alpha' | 'roman';
+
+// Custom block types can be added through registerBlockType; the intersection
+// keeps editor autocompletion for the built-in names.
+export type BlockType = BuiltInBlockType | (string & Record<never, never>);
+
+export interface Block {
+  id: string;
+  type: BlockType;
+  content: string;
+  richText?: RichText;              // Formatted text of the text field; the field itself holds the plain text
+  alignment?: 'left' | 'center' | 'right';
+  checked?: boolean;
+  listStart?: number;               // Numbered list: numbering restarts at this value from this item
+  listContinue?: boolean;           // Numbered list: the run carries on from the previous run
+  listStyle?: ListStyle;            // Numbered list: marker style from this item on; decimal when unset
+  collapsed?: boolean;
+  children?: Block[];               // Nested blocks: list sub-items, toggle and callout bodies
+  color?: string;
+  backgroundColor?: string;
+  tableData?: { headers: string[]; rows: string[][] };
+  chartData?: { labels: string[]; values: number[] };
+  toggleTitle?: string;
+  toggleContent?: string;           // Legacy toggle body as HTML; moved into `children` on load
+  language?: string;                // Language of a code block, e.g. 'ts'
+  selectedDate?: Date;
+  calendarEvents?: CalendarEvent[];
+  fileName?: string;
+  fileSize?: string;
+  fileType?: string;
+  fileMeta?: Record<string, unknown>;   // What the upload adapter returned with the file's URL
+  data?: Record<string, unknown>;   // Free-form data for custom block types
+}
+
+// Color palette definition
+export const colorPalette = [
+  { name: 'Default', text: '#000000', bg: 'transparent' },
+  { name: 'Gray', text: '#6B7280', bg: '#F3F4F6' },
+  { name: 'Brown', text: '#92400E', bg: '#FEF3C7' },
+  { name: 'Orange', text: '#EA580C', bg: '#FED7AA' },
+  { name: 'Yellow', text: '#D97706', bg: '#FEF3C7' },
+  { name: 'Green', text: '#16A34A', bg: '#DCFCE7' },
+  { name: 'Blue', text: '#2563EB', bg: '#DBEAFE' },
+  { name: 'Purple', text: '#9333EA', bg: '#E9D5FF' },
+  { name: 'Pink', text: '#DB2777', bg: '#FCE7F3' },
+  { name: 'Red', text: '#DC2626', bg: '#FEE2E2' },
+  { name: 'Teal', text: '#0D9488', bg: '#CCFBF1' },
+  { name: 'Indigo', text: '#4338CA', bg: '#E0E7FF' }
+];
+
+// Type-specific fields a block of `type` starts with
+export const getBlockDefaults = (type: BlockType): Partial<Block> =>
+  getBlockType(type)?.defaults?.() || {};
+
+// URL-safe alphabet for random ids
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_-';
+
+// 21 random characters (126 bits), like nanoid
+export const randomBlockId = () => {
+  const bytes = new Uint8Array(21);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) crypto.getRandomValues(bytes);
+  else bytes.forEach((_, i) => { bytes[i] = Math.floor(Math.random() * 256); });
+  return Array.from(bytes, byte => ID_ALPHABET[byte & 63]).join('');
+};
+
+let generateBlockId = randomBlockId;
+
+// Replaces the id generator for every block created from now on, e.g. with
+// one that issues ids from the server. Generated ids must be unique.
+export const setBlockIdGenerator = (generator: () => string) => {
+  generateBlockId = generator;
+};
+
+export const createBlockId = () => generateBlockId();
+
+export const createBlock = (type: BlockType): Block => ({
+  id: createBlockId(),
+  type,
+  content: '',
+  alignment: 'left',
+  ...getBlockDefaults(type)
+});
+
+// Updates that convert `block` to `newType`: fields owned by the old type are
+// cleared, the new type's defaults applied and the text carried over.
+export const getTypeChangeUpdates = (block: Block, newType: BlockType): Partial<Block> => {
+  const updates: Partial<Block> = {};
+  Object.keys(getBlockDefaults(block.type)).forEach(key => {
+    updates[key] = undefined;
+  });
+
+  return {
+    ...updates,
+    ...getBlockDefaults(newType),
+    type: newType,
+    richText: getBlockType(newType)?.render ? undefined : block.richText,
+    toggleTitle: newType === 'toggle' ? block.content : undefined,
+    content: newType === 'toggle' ? '' : block.type === 'toggle' ? block.toggleTitle || '' : block.content
+  };
+};
+
+// Block field holding the text of a text block
+export const getTextField = (block: Block): 'content' | 'toggleTitle' =>
+  getBlockType(block.type)?.textField || 'content';
+
+// Formatted text of a text block. Blocks saved before rich text existed, or
+// whose text was changed without updating `richText`, are read from the
+// (possibly HTML) text field instead.
+export const getBlockRichText = (block: Block): RichText => {
+  const text = block[getTextField(block)] || '';
+  return block.richText && richTextToPlainText(block.richText) === text
+    ? block.richText
+    : htmlToRichText(text);
+};
+
+// Updates storing `richText` as the block's text
+export const getRichTextUpdates = (block: Block, richText: RichText): Partial<Block> => ({
+  richText,
+  [getTextField(block)]: richTextToPlainText(richText)
+});
+
+// Index of the item that numbering of `blocks[index]` counts from: the
+// closest earlier item in its run with `listStart`, or the run's first item
+export const getListSegmentStart = (blocks: Block[], index: number) => {
+  let start = index;
+  while (blocks[start].listStart === undefined && blocks[start - 1]?.type === 'numbered-list') start--;
+  return start;
+};
+
+// Number of a numbered-list item among its siblings. Numbering counts up
+// through a run of consecutive items and starts again after anything else,
+// unless the run is set to continue from the previous one.
+export const getListNumber = (blocks: Block[], index: number): number => {
+  const start = getListSegmentStart(blocks, index);
+  const first = blocks[start];
+  if (first.listStart !== undefined) return first.listStart + index - start;
+
+  const previous = first.listContinue ? blocks.slice(0, start).map(block => block.type).lastIndexOf('numbered-list') : -1;
+  return (previous === -1 ? 1 : getListNumber(blocks, previous) + 1) + index - start;
+};
+
+export const getListStyle = (blocks: Block[], index: number): ListStyle =>
+  blocks[getListSegmentStart(blocks, index)].listStyle || 'decimal';
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+];
+
+// "3", "c" or "iii". Letters go on as aa, ab... after z; numbers below one
+// have no letter or numeral and stay digits.
+export const formatListNumber = (number: number, style: ListStyle = 'decimal') => {
+  if (number < 1 || style === 'decimal') return String(number);
+
+  let text = '';
+  if (style === 'alpha') {
+    for (let rest = number; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+      text = String.fromCharCode(97 + ((rest - 1) % 26)) + text;
+    }
+    return text;
+  }
+
+  let rest = number;
+  ROMAN_NUMERALS.forEach(([value, numeral]) => {
+    while (rest >= value) {
+      text += numeral;
+      rest -= value;
+    }
+  });
+  return text;
+};
+
+// Applies `change` to the list of siblings that holds `id`: the top level or
+// some block's children. Returns `blocks` itself when nothing changed.
+const updateSiblings = (blocks: Block[], id: string, change: (siblings: Block[], index: number) => Block[]): Block[] => {
+  const index = blocks.findIndex(block => block.id === id);
+  if (index !== -1) return change(blocks, index);
+
+  let changed = false;
+  const next = blocks.map(block => {
+    if (!block.children?.length) return block;
+    const children = updateSiblings(block.children, id, change);
+    if (children === block.children) return block;
+    changed = true;
+    return { ...block, children };
+  });
+  return changed ? next : blocks;
+};
+
+// Depth-first search through the whole tree
+export const findBlock = (blocks: Block[], id: string): Block | undefined => {
+  for (const block of blocks) {
+    if (block.id === id) return block;
+    const child = block.children && findBlock(block.children, id);
+    if (child) return child;
+  }
+  return undefined;
+};
+
+// Parent (null at the top level) and siblings of block `id`
+export const findBlockLocation = (
+  blocks: Block[],
+  id: string,
+  parent: Block | null = null
+): { parent: Block | null; siblings: Block[]; index: number } | null => {
+  const index = blocks.findIndex(block => block.id === id);
+  if (index !== -1) return { parent, siblings: blocks, index };
+
+  for (const block of blocks) {
+    const location = block.children && findBlockLocation(block.children, id, block);
+    if (location) return location;
+  }
+  return null;
+};
+
+// Inserts `newBlocks` as the next siblings of `afterId`, or at the end of the document
+export const insertBlocksAfter = (blocks: Block[], newBlocks: Block[], afterId?: string): Block[] => {
+  if (!afterId) return [...blocks, ...newBlocks];
+
+  return updateSiblings(blocks, afterId, (siblings, index) =>
+    [...siblings.slice(0, index + 1), ...newBlocks, ...siblings.slice(index + 1)]);
+};
+
+export const insertBlockAfter = (blocks: Block[], newBlock: Block, afterId?: string): Block[] =>
+  insertBlocksAfter(blocks, [newBlock], afterId);
+
+// Adds `child` at the end of block `parentId`'s children
+export const appendChildBlock = (blocks: Block[], parentId: string, child: Block): Block[] =>
+  updateSiblings(blocks, parentId, (siblings, index) =>
+    siblings.map((block, i) => (i === index ? { ...block, children: [...(block.children || []), child] } : block)));
+
+// Returns `blocks` itself when the update changes nothing
+export const updateBlockById = (blocks: Block[], id: string, updates: Partial<Block>): Block[] =>
+  updateSiblings(blocks, id, (siblings, index) => {
+    const block = siblings[index];
+    if (Object.keys(updates).every(key => block[key] === updates[key])) return siblings;
+    return siblings.map((b, i) => (i === index ? { ...b, ...updates } : b));
+  });
+
+// Replaces block `id` (and its children) with `replacements`
+export const replaceBlockById = (blocks: Block[], id: string, replacements: Block[]): Block[] =>
+  updateSiblings(blocks, id, (siblings, index) => [...siblings.slice(0, index), ...replacements, ...siblings.slice(index + 1)]);
+
+// Removes the block together with its children
+export const removeBlockById = (blocks: Block[], id: string): Block[] => replaceBlockById(blocks, id, []);
+
+// Makes the block the last child of the sibling above it
+export const indentBlock = (blocks: Block[], id: string): Block[] =>
+  updateSiblings(blocks, id, (siblings, index) => {
+    if (index === 0) return siblings;
+    const previous = siblings[index - 1];
+    return [
+      ...siblings.slice(0, index - 1),
+      { ...previous, children: [...(previous.children || []), siblings[index]] },
+      ...siblings.slice(index + 1)
+    ];
+  });
+
+// Moves the block out of its parent to just after it. Siblings below it
+// become its children, so nothing changes position on screen.
+export const outdentBlock = (blocks: Block[], id: string): Block[] => {
+  const location = findBlockLocation(blocks, id);
+  if (!location?.parent) return blocks;
+  const { parent, siblings, index } = location;
+  const block = siblings[index];
+  const moved = { ...block, children: [...(block.children || []), ...siblings.slice(index + 1)] };
+
+  return replaceBlockById(blocks, parent.id, [{ ...parent, children: siblings.slice(0, index) }, moved]);
+};
+
+export type DropPosition = 'before' | 'after' | 'inside';
+
+// Where a drag drops for a pointer `offset` down a block, from 0 at its top
+// to 1 at its bottom: the top and bottom quarters drop before and after it,
+// the middle into it as its last child
+export const getDropPosition = (offset: number): DropPosition =>
+  offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+
+// Moves block `id` next to block `targetId`, or to the end of its children.
+// A block cannot be moved into itself or its own children.
+export const moveBlockTo = (blocks: Block[], id: string, targetId: string, position: DropPosition): Block[] =>
+  moveBlocksTo(blocks, [id], targetId, position);
+
+// Toggles used to keep their body as HTML in `toggleContent`. It becomes a
+// paragraph child; returns `blocks` itself when there is nothing to move.
+export const moveToggleContentToChildren = (blocks: Block[]): Block[] => {
+  let changed = false;
+  const next = blocks.map(block => {
+    const children = block.children?.length ? moveToggleContentToChildren(block.children) : block.children;
+    if (!block.toggleContent && children === block.children) return block;
+    changed = true;
+    if (!block.toggleContent) return { ...block, children };
+
+    const { toggleContent, ...toggle } = block;
+    const body = { ...createBlock('paragraph'), id: `${block.id}-body` };
+    return { ...toggle, children: [{ ...body, ...getRichTextUpdates(body, htmlToRichText(toggleContent)) }, ...(children || [])] };
+  });
+  return changed ? next : blocks;
+};
+
+// Copy of a block and its children with fresh ids
+export const cloneBlock = (block: Block): Block => ({
+  ...block,
+  id: createBlockId(),
+  ...(block.children && { children: block.children.map(cloneBlock) })
+});
+
+// Blocks among `ids` in document order, leaving out any inside another
+// listed block, which come along with it
+export const getOutermostBlocks = (blocks: Block[], ids: string[]): Block[] => {
+  const selected = new Set(ids);
+  return blocks.flatMap(block =>
+    selected.has(block.id) ? [block] : getOutermostBlocks(block.children || [], ids));
+};
+
+export const removeBlocks = (blocks: Block[], ids: string[]): Block[] =>
+  ids.reduce(removeBlockById, blocks);
+
+// Moves each block one place up or down among its siblings. A block does not
+// jump over another moving block, so a selected run moves together.
+export const moveBlocks = (blocks: Block[], ids: string[], direction: 'up' | 'down'): Block[] => {
+  const moving = getOutermostBlocks(blocks, ids);
+  const movingIds = new Set(moving.map(block => block.id));
+  const delta = direction === 'up' ? -1 : 1;
+
+  return (direction === 'up' ? moving : [...moving].reverse()).reduce((current, block) =>
+    updateSiblings(current, block.id, (siblings, index) => {
+      const target = index + delta;
+      if (target < 0 || target >= siblings.length || movingIds.has(siblings[target].id)) return siblings;
+      const newBlocks = [...siblings];
+      [newBlocks[index], newBlocks[target]] = [newBlocks[target], newBlocks[index]];
+      return newBlocks;
+    }), blocks);
+};
+
+// Moves several blocks to one drop target, keeping their document order.
+// Nothing moves when the target is one of them or inside one.
+export const moveBlocksTo = (blocks: Block[], ids: string[], targetId: string, position: DropPosition): Block[] => {
+  const moving = getOutermostBlocks(blocks, ids);
+  if (!moving.length || moving.some(block => block.id === targetId || findBlock(block.children || [], targetId))) return blocks;
+
+  const remaining = removeBlocks(blocks, moving.map(block => block.id));
+  return updateSiblings(remaining, targetId, (siblings, index) => {
+    if (position === 'inside') {
+      return siblings.map((block, i) => (i === index ? { ...block, children: [...(block.children || []), ...moving] } : block));
+    }
+    const newBlocks = [...siblings];
+    newBlocks.splice(position === 'before' ? index : index + 1, 0, ...moving);
+    return newBlocks;
+  });
+};
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import '@/components/editor/blocks';
+import { Block } from './blocks';
+import { BLOCKS_MIME_TYPE, blocksToHtml, copyBlocksToClipboard, isBlockData, readBlocksFromClipboard, writeBlocksToClipboard } from './clipboard';
+
+const paragraph = (id: string, content: string, children?: Block[]): Block =>
+  ({ id, type: 'paragraph', content, ...(children && { children }) });
+
+// A clipboard holding `data` by MIME type, as a paste event would give
+const clipboardWith = (data: Record<string, string>) =>
+  ({ getData: (type: string) => data[type] || '' }) as DataTransfer;
+
+const payload = (blocks: unknown) => JSON.stringify({ version: 1, blocks });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('readBlocksFromClipboard', () => {
+  it('reads blocks written by writeBlocksToClipboard with fresh ids', () => {
+    const data: Record<string, string> = {};
+    writeBlocksToClipboard({ setData: (type, value) => { data[type] = value; } }, [paragraph('a', 'one', [paragraph('b', 'two')])]);
+    expect(Object.keys(data).sort()).toEqual([BLOCKS_MIME_TYPE, 'text/html', 'text/plain']);
+
+    const blocks = readBlocksFromClipboard(clipboardWith(data))!;
+    expect(blocks).toEqual([expect.objectContaining({ type: 'paragraph', content: 'one', children: [expect.objectContaining({ content: 'two' })] })]);
+    expect(blocks[0].id).not.toBe('a');
+    expect(blocks[0].children![0].id).not.toBe('b');
+  });
+
+  it('reads the type with the "web " prefix the async Clipboard API writes', () => {
+    const blocks = readBlocksFromClipboard(clipboardWith({ [`web ${BLOCKS_MIME_TYPE}`]: payload([paragraph('a', 'one')]) }));
+    expect(blocks?.map(block => block.content)).toEqual(['one']);
+  });
+
+  it('ignores clipboards without blocks', () => {
+    expect(readBlocksFromClipboard(null)).toBeNull();
+    expect(readBlocksFromClipboard(clipboardWith({ 'text/plain': 'plain text' }))).toBeNull();
+    expect(readBlocksFromClipboard(clipboardWith({ [BLOCKS_MIME_TYPE]: payload([]) }))).toBeNull();
+  });
+
+  it('rejects malformed payloads', () => {
+    const read = (json: string) => readBlocksFromClipboard(clipboardWith({ [BLOCKS_MIME_TYPE]: json }));
+    expect(read('{not json')).toBeNull();
+    expect(read('null')).toBeNull();
+    expect(read(JSON.stringify({ version: 2, blocks: [paragraph('a', 'one')] }))).toBeNull();
+    expect(read(JSON.stringify({ version: 1, blocks: {} }))).toBeNull();
+    expect(read(payload([paragraph('a', 'one'), { type: 'paragraph' }]))).toBeNull();
+    expect(read(payload([{ ...paragraph('a', 'one'), children: [{ type: 1, content: '' }] }]))).toBeNull();
+  });
+});
+
+describe('isBlockData', () => {
+  it('needs a string type and content, and block children', () => {
+    expect(isBlockData({ type: 'paragraph', content: '' })).toBe(true);
+    expect(isBlockData({ type: 'toggle', content: '', children: [{ type: 'paragraph', content: 'x' }] })).toBe(true);
+    expect(isBlockData(null)).toBe(false);
+    expect(isBlockData('paragraph')).toBe(false);
+    expect(isBlockData({ type: 'paragraph', content: 1 })).toBe(false);
+    expect(isBlockData({ type: 'paragraph', content: '', children: 'x' })).toBe(false);
+    expect(isBlockData({ type: 'paragraph', content: '', children: [null] })).toBe(false);
+  });
+});
+
+describe('blocksToHtml', () => {
+  it('groups list items and numbers ordered lists from their start', () => {
+    expect(blocksToHtml([
+      { id: 'a', type: 'list', content: 'one' },
+      { id: 'b', type: 'list', content: 'two', children: [{ id: 'c', type: 'numbered-list', content: 'nested', listStart: 3 }] },
+      { id: 'd', type: 'todo', content: 'task', checked: true },
+      paragraph('e', 'after')
+    ])).toBe(
+      '<ul><li>one</li><li>two<ol start="3"><li>nested</li></ol></li>'
+      + '<li><input type="checkbox" disabled checked> task</li></ul><p>after</p>'
+    );
+  });
+
+  it('escapes text, code and URLs', () => {
+    expect(blocksToHtml([
+      { ...paragraph('a', '<b>not bold</b>'), richText: [{ text: '<b>not bold</b>' }] },
+      { id: 'b', type: 'code', content: 'a < b && c' },
+      { id: 'c', type: 'image', content: 'https://example.com/a.png" onerror="x', fileName: '"pic"' },
+      { id: 'd', type: 'table', content: '', tableData: { headers: ['<A>'], rows: [['&']] } }
+    ])).toBe(
+      '<p>&lt;b&gt;not bold&lt;/b&gt;</p>'
+      + '<pre><code>a &lt; b &amp;&amp; c</code></pre>'
+      + '<img src="https://example.com/a.png&quot; onerror=&quot;x" alt="&quot;pic&quot;">'
+      + '<table><thead><tr><th>&lt;A&gt;</th></tr></thead><tbody><tr><td>&amp;</td></tr></tbody></table>'
+    );
+  });
+});
+
+describe('copyBlocksToClipboard', () => {
+  it('writes our type with the "web " prefix where the browser supports it', async () => {
+    const write = vi.fn().mockResolvedValue(undefined);
+    class FakeClipboardItem {
+      static supports = (type: string) => type.startsWith('web ') || type.startsWith('text/');
+      constructor(public items: Record<string, Blob>) {}
+    }
+    vi.stubGlobal('ClipboardItem', FakeClipboardItem);
+    vi.stubGlobal('navigator', { clipboard: { write } });
+
+    await copyBlocksToClipboard([paragraph('a', 'one')]);
+    const [[[item]]] = write.mock.calls;
+    expect(Object.keys(item.items).sort()).toEqual(['text/html', 'text/plain', `web ${BLOCKS_MIME_TYPE}`]);
+    expect(await item.items['text/plain'].text()).toBe('one\n');
+  });
+
+  it('falls back to plain text without ClipboardItem', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal('ClipboardItem', undefined);
+    vi.stubGlobal('navigator', { clipboard: { writeText } });
+
+    await copyBlocksToClipboard([paragraph('a', 'one')]);
+    expect(writeText).toHaveBeenCalledWith('one\n');
+  });
+});
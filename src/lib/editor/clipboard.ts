@@ -0,0 +1,134 @@
+import { Block, cloneBlock, getBlockRichText, getListNumber } from './blocks';
+import { escapeAttribute, escapeText } from './html';
+import { deserializeBlocks, getBlockType, serializeBlocks } from './registry';
+import { richTextToHtml } from './rich-text';
+import { blocksToMarkdown } from './to-markdown';
+import { validateDocument } from './validate-document';
+
+// Block clipboard. Copied blocks are written in the editor's own format, which
+// keeps every field, plus HTML and Markdown for other apps. The system
+// clipboard carries them between editors and browser tabs.
+
+export const BLOCKS_MIME_TYPE = 'application/x-block-editor+json';
+
+interface ClipboardPayload {
+  version: 1;
+  blocks: Record<string, unknown>[];
+}
+
+const LIST_TAGS: Record<string, string> = { list: 'ul', todo: 'ul', 'numbered-list': 'ol' };
+
+const blockToHtml = (block: Block, children: string): string => {
+  const text = richTextToHtml(getBlockRichText(block));
+  const url = escapeAttribute(block.content);
+  switch (block.type) {
+    case 'heading1':
+      return `<h1>${text}</h1>${children}`;
+    case 'heading2':
+      return `<h2>${text}</h2>${children}`;
+    case 'heading3':
+      return `<h3>${text}</h3>${children}`;
+    case 'quote':
+    case 'callout':
+      return `<blockquote><p>${text}</p>${children}</blockquote>`;
+    case 'code':
+      return `<pre><code>${escapeText(block.content)}</code></pre>${children}`;
+    case 'toggle':
+      return `<details open><summary>${text}</summary>${children}</details>`;
+    case 'divider':
+      return '<hr>';
+    case 'image':
+      return `<img src="${url}" alt="${escapeAttribute(block.fileName || '')}">`;
+    case 'table': {
+      const { headers = [], rows = [] } = block.tableData || {};
+      const cells = (row: string[], tag: string) => row.map(cell => `<${tag}>${escapeText(cell)}</${tag}>`).join('');
+      return `<table><thead><tr>${cells(headers, 'th')}</tr></thead><tbody>${rows.map(row => `<tr>${cells(row, 'td')}</tr>`).join('')}</tbody></table>`;
+    }
+  }
+  const definition = getBlockType(block.type);
+  if (definition?.contentUrl) {
+    return `<p><a href="${url}">${escapeText(block.fileName || block.content)}</a></p>${children}`;
+  }
+  if (definition?.render) {
+    // Charts, calendars and custom types: their Markdown, line by line
+    const lines = blocksToMarkdown([{ ...block, children: undefined }]).trim().split('\n');
+    return `<p>${lines.map(escapeText).join('<br>')}</p>${children}`;
+  }
+  return `<p>${text}</p>${children}`;
+};
+
+// HTML for pasting into other apps. Consecutive list items share one list.
+export const blocksToHtml = (blocks: Block[]): string => {
+  let html = '';
+  let openList = '';
+  blocks.forEach((block, index) => {
+    const children = block.children?.length ? blocksToHtml(block.children) : '';
+    const listTag = LIST_TAGS[block.type] || '';
+    if (listTag !== openList) {
+      if (openList) html += `</${openList}>`;
+      if (listTag === 'ol') html += `<ol start="${getListNumber(blocks, index)}">`;
+      else if (listTag) html += `<${listTag}>`;
+      openList = listTag;
+    }
+    if (!listTag) {
+      html += blockToHtml(block, children);
+      return;
+    }
+    const checkbox = block.type === 'todo' ? `<input type="checkbox" disabled${block.checked ? ' checked' : ''}> ` : '';
+    html += `<li>${checkbox}${richTextToHtml(getBlockRichText(block))}${children}</li>`;
+  });
+  if (openList) html += `</${openList}>`;
+  return html;
+};
+
+export const writeBlocksToClipboard = (data: Pick<DataTransfer, 'setData'>, blocks: Block[]) => {
+  const payload: ClipboardPayload = { version: 1, blocks: serializeBlocks(blocks) };
+  data.setData(BLOCKS_MIME_TYPE, JSON.stringify(payload));
+  data.setData('text/html', blocksToHtml(blocks));
+  data.setData('text/plain', blocksToMarkdown(blocks));
+};
+
+// Our type as the async Clipboard API writes it; browsers only take custom
+// types with the "web " prefix
+const WEB_BLOCKS_MIME_TYPE = `web ${BLOCKS_MIME_TYPE}`;
+
+// The same data without a clipboard event, e.g. for a Copy button. Browsers
+// without custom types get the HTML and Markdown.
+export const copyBlocksToClipboard = async (blocks: Block[]) => {
+  const data = new Map<string, string>();
+  writeBlocksToClipboard({ setData: (type, value) => data.set(type, value) }, blocks);
+  if (typeof ClipboardItem === 'undefined') return navigator.clipboard.writeText(data.get('text/plain') || '');
+
+  const items: Record<string, Blob> = {};
+  data.forEach((value, type) => {
+    if (type !== BLOCKS_MIME_TYPE) items[type] = new Blob([value], { type });
+    else if (ClipboardItem.supports?.(WEB_BLOCKS_MIME_TYPE)) items[WEB_BLOCKS_MIME_TYPE] = new Blob([value], { type });
+  });
+  await navigator.clipboard.write([new ClipboardItem(items)]);
+};
+
+// Any page can write this MIME type, so only well-formed blocks are accepted.
+// Their content still goes through the sanitizer when pasted.
+export const isBlockData = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { type, content, children } = value as Record<string, unknown>;
+  return typeof type === 'string'
+    && typeof content === 'string'
+    && (children === undefined || (Array.isArray(children) && children.every(isBlockData)));
+};
+
+// Blocks copied from an editor, repaired for this editor's block types and
+// with fresh ids so they can be pasted any number of times. Null when the
+// clipboard holds no blocks.
+export const readBlocksFromClipboard = (data: DataTransfer | null): Block[] | null => {
+  const json = data?.getData(BLOCKS_MIME_TYPE) || data?.getData(WEB_BLOCKS_MIME_TYPE);
+  if (!json) return null;
+  try {
+    const payload = JSON.parse(json) as Partial<ClipboardPayload>;
+    if (payload.version !== 1 || !Array.isArray(payload.blocks) || !payload.blocks.every(isBlockData)) return null;
+    const blocks = validateDocument(deserializeBlocks(payload.blocks)).blocks.map(cloneBlock);
+    return blocks.length ? blocks : null;
+  } catch {
+    return null;
+  }
+};
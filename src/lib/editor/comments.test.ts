@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Block } from './blocks';
+import {
+  addReply,
+  createComment,
+  createThread,
+  findMentions,
+  mapCommentAnchors,
+  parseCommentThreads,
+  removeComment,
+  reopenThread,
+  resolveThread,
+  splitMentions
+} from './comments';
+
+const ann = { id: 'u1', name: 'Ann' };
+const annLee = { id: 'u2', name: 'Ann Lee' };
+const bob = { id: 'u3', name: 'Bob' };
+
+const text = (content: string): Block[] => [{ id: 'a', type: 'paragraph', content }];
+
+describe('mentions', () => {
+  it('prefers the longest matching name', () => {
+    expect(findMentions('Thanks @Ann Lee and @Bob', [ann, annLee, bob])).toEqual([annLee, bob]);
+    expect(findMentions('@Ann and @Ann Lee', [ann, annLee])).toEqual([annLee, ann]);
+    expect(createComment(bob, '  ask @Ann  ', [ann]).mentions).toEqual(['u1']);
+  });
+
+  it('splits a body into text and mentions', () => {
+    expect(splitMentions('hi @Bob!', [bob])).toEqual([{ text: 'hi ', mention: undefined }, { text: '@Bob', mention: bob }, { text: '!', mention: undefined }]);
+    expect(splitMentions('no one', [bob])).toEqual([{ text: 'no one' }]);
+  });
+});
+
+describe('threads', () => {
+  it('anchors to a range of the text with its quote', () => {
+    const thread = createThread(text('Hello brave world'), 'a', createComment(ann, 'Why?'), { start: 11, end: 6 });
+    expect(thread.anchor).toEqual({ blockId: 'a', start: 6, end: 11, quote: 'brave' });
+    expect(createThread(text('Hello'), 'a', createComment(ann, 'Hi'), { start: 2, end: 2 }).anchor).toEqual({ blockId: 'a' });
+  });
+
+  it('adds replies, resolves, reopens and removes', () => {
+    const first = createComment(ann, 'First');
+    const reply = createComment(bob, 'Reply');
+    let threads = [createThread(text('x'), 'a', first)];
+    const id = threads[0].id;
+
+    threads = addReply(threads, id, reply);
+    expect(threads[0].comments).toEqual([first, reply]);
+    threads = resolveThread(threads, id, bob);
+    expect(threads[0].resolved?.by).toEqual(bob);
+    threads = reopenThread(threads, id);
+    expect(threads[0].resolved).toBeUndefined();
+    expect(removeComment(threads, id, reply.id)[0].comments).toEqual([first]);
+    expect(removeComment(threads, id, first.id)).toEqual([]);
+  });
+
+  it('keeps only well-formed threads from storage', () => {
+    const thread = createThread(text('x'), 'a', createComment(ann, 'Ok'));
+    expect(parseCommentThreads(JSON.parse(JSON.stringify([thread, { id: 'bad' }, null, { ...thread, comments: [] }])))).toEqual([thread]);
+    expect(parseCommentThreads('nope')).toEqual([]);
+  });
+});
+
+describe('mapCommentAnchors', () => {
+  const before = text('Hello brave world');
+  const threads = [createThread(before, 'a', createComment(ann, 'Why?'), { start: 6, end: 11 })];
+
+  it('moves ranges along with edits before them', () => {
+    const mapped = mapCommentAnchors(threads, before, text('Oh, hello brave world'));
+    expect(mapped[0].anchor).toMatchObject({ start: 10, end: 15 });
+  });
+
+  it('does not grow a range when typing at its edges', () => {
+    expect(mapCommentAnchors(threads, before, text('Hello brave! world'))).toBe(threads);
+    expect(mapCommentAnchors(threads, before, text('Hello very brave world'))[0].anchor).toMatchObject({ start: 11, end: 16 });
+  });
+
+  it('falls back to the block when the text is deleted', () => {
+    expect(mapCommentAnchors(threads, before, text('Hello world'))[0].anchor).toEqual({ blockId: 'a', quote: 'brave' });
+    expect(mapCommentAnchors(threads, before, [])).toBe(threads);
+  });
+});
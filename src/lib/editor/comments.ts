@@ -0,0 +1,183 @@
+import { Block, findBlock, getBlockRichText, randomBlockId } from './blocks';
+import { TextChange, diffChars } from './diff';
+import { richTextToPlainText } from './rich-text';
+
+// Comment threads are kept next to the blocks, never inside them, so exports,
+// copies and the stored blocks don't carry them. A thread points at a block,
+// or at a range of its text, and the range is moved along as the text changes.
+
+export interface CommentUser {
+  id: string;
+  name: string;
+}
+
+export interface CommentAnchor {
+  blockId: string;
+  // A range of the block's text; the whole block when left out
+  start?: number;
+  end?: number;
+  quote?: string;   // The text the range covered when the thread started
+}
+
+export interface Comment {
+  id: string;
+  author: CommentUser;
+  body: string;
+  mentions: string[];   // Ids of the people @mentioned in `body`
+  createdAt: string;    // ISO date
+}
+
+export interface CommentThread {
+  id: string;
+  anchor: CommentAnchor;
+  comments: Comment[];  // The first one opens the thread; the rest are replies
+  resolved?: { by: CommentUser; at: string };
+}
+
+const getBlockText = (block: Block) => richTextToPlainText(getBlockRichText(block));
+
+export const isRangeAnchor = (anchor: CommentAnchor) => anchor.start !== undefined && anchor.end !== undefined;
+
+// People from `people` whose name follows an '@' in `body`. Longer names are
+// tried first, so "@Ann Lee" is not taken for "@Ann".
+export const findMentions = (body: string, people: CommentUser[]): CommentUser[] => {
+  const found: CommentUser[] = [];
+  let rest = body;
+  [...people].sort((a, b) => b.name.length - a.name.length).forEach(person => {
+    const mention = `@${person.name}`;
+    if (!rest.includes(mention)) return;
+    found.push(person);
+    rest = rest.split(mention).join('');
+  });
+  return found;
+};
+
+// `body` cut into plain text and mentions, for display
+export const splitMentions = (body: string, people: CommentUser[]): { text: string; mention?: CommentUser }[] => {
+  const mentioned = findMentions(body, people);
+  if (!mentioned.length) return [{ text: body }];
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(${mentioned.map(person => escape(`@${person.name}`)).join('|')})`);
+  return body.split(pattern).filter(Boolean).map(text => ({
+    text,
+    mention: mentioned.find(person => `@${person.name}` === text)
+  }));
+};
+
+export const createComment = (author: CommentUser, body: string, people: CommentUser[] = []): Comment => ({
+  id: randomBlockId(),
+  author,
+  body: body.trim(),
+  mentions: findMentions(body, people).map(person => person.id),
+  createdAt: new Date().toISOString()
+});
+
+// A new thread on `blockId`, on the text between `start` and `end` when given
+export const createThread = (blocks: Block[], blockId: string, comment: Comment, range?: { start: number; end: number }): CommentThread => {
+  const block = findBlock(blocks, blockId);
+  const anchor: CommentAnchor = { blockId };
+  if (block && range && range.start !== range.end) {
+    const start = Math.min(range.start, range.end);
+    const end = Math.max(range.start, range.end);
+    Object.assign(anchor, { start, end, quote: getBlockText(block).slice(start, end) });
+  }
+  return { id: randomBlockId(), anchor, comments: [comment] };
+};
+
+const updateThread = (threads: CommentThread[], id: string, update: (thread: CommentThread) => CommentThread) =>
+  threads.map(thread => (thread.id === id ? update(thread) : thread));
+
+export const addReply = (threads: CommentThread[], threadId: string, comment: Comment) =>
+  updateThread(threads, threadId, thread => ({ ...thread, comments: [...thread.comments, comment] }));
+
+export const resolveThread = (threads: CommentThread[], threadId: string, by: CommentUser) =>
+  updateThread(threads, threadId, thread => ({ ...thread, resolved: { by, at: new Date().toISOString() } }));
+
+export const reopenThread = (threads: CommentThread[], threadId: string) =>
+  updateThread(threads, threadId, ({ resolved, ...thread }) => thread);
+
+// Removes a comment; removing the first one removes the whole thread
+export const removeComment = (threads: CommentThread[], threadId: string, commentId: string) =>
+  threads.flatMap(thread => {
+    if (thread.id !== threadId) return [thread];
+    if (thread.comments[0]?.id === commentId) return [];
+    return [{ ...thread, comments: thread.comments.filter(comment => comment.id !== commentId) }];
+  });
+
+// Where `offset` in the old text is in the new one. Text inserted right at
+// the offset goes after it with bias 'after' and before it with 'before', so
+// typing at either edge of a range doesn't grow the range.
+const mapOffset = (changes: TextChange[], offset: number, bias: 'before' | 'after') => {
+  let oldOffset = 0;
+  let newOffset = 0;
+  for (const change of changes) {
+    const length = change.text.length;
+    if (change.type === 'insert') {
+      if (bias === 'before' && offset === oldOffset) return newOffset;
+      newOffset += length;
+      continue;
+    }
+    if (offset < oldOffset + length || (bias === 'before' && offset === oldOffset + length)) {
+      // Offsets inside deleted text end up where it was
+      return change.type === 'equal' ? newOffset + offset - oldOffset : newOffset;
+    }
+    oldOffset += length;
+    if (change.type === 'equal') newOffset += length;
+  }
+  return newOffset;
+};
+
+// Moves the ranges of threads on blocks whose text changed between `before`
+// and `after`. A range whose text was deleted entirely falls back to its
+// block. Threads on deleted blocks are kept, so they can still be read.
+// Returns `threads` itself when nothing moved.
+export const mapCommentAnchors = (threads: CommentThread[], before: Block[], after: Block[]): CommentThread[] => {
+  let changed = false;
+  const changesById = new Map<string, TextChange[] | null>();
+  const getChanges = (blockId: string) => {
+    if (!changesById.has(blockId)) {
+      const old = findBlock(before, blockId);
+      const current = findBlock(after, blockId);
+      const oldText = old && getBlockText(old);
+      const newText = current && getBlockText(current);
+      changesById.set(blockId, old && current && oldText !== newText ? diffChars(oldText!, newText!) : null);
+    }
+    return changesById.get(blockId);
+  };
+
+  const mapped = threads.map(thread => {
+    const { anchor } = thread;
+    if (!isRangeAnchor(anchor)) return thread;
+    const changes = getChanges(anchor.blockId);
+    if (!changes) return thread;
+
+    const start = mapOffset(changes, anchor.start!, 'after');
+    const end = mapOffset(changes, anchor.end!, 'before');
+    if (start === anchor.start && end === anchor.end) return thread;
+    changed = true;
+    return {
+      ...thread,
+      anchor: start < end ? { ...anchor, start, end } : { blockId: anchor.blockId, quote: anchor.quote }
+    };
+  });
+  return changed ? mapped : threads;
+};
+
+// Threads from storage; malformed ones are dropped
+export const parseCommentThreads = (value: unknown): CommentThread[] => {
+  if (!Array.isArray(value)) return [];
+  const isUser = (user: unknown): user is CommentUser =>
+    !!user && typeof (user as CommentUser).id === 'string' && typeof (user as CommentUser).name === 'string';
+  const isComment = (comment: unknown): comment is Comment => {
+    const { id, author, body, mentions, createdAt } = (comment || {}) as Comment;
+    return typeof id === 'string' && isUser(author) && typeof body === 'string' &&
+      Array.isArray(mentions) && typeof createdAt === 'string';
+  };
+
+  return value.filter((thread): thread is CommentThread => {
+    const { id, anchor, comments, resolved } = (thread || {}) as CommentThread;
+    return typeof id === 'string' && typeof anchor?.blockId === 'string' &&
+      Array.isArray(comments) && comments.length > 0 && comments.every(isComment) &&
+      (resolved === undefined || isUser(resolved.by));
+  });
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import * as Y from 'yjs';
+import '@/components/editor/blocks';
+import { Block, moveBlocksTo } from './blocks';
+import { mergeOfflineEdits, positionBetween, readBlocks, writeBlocks } from './crdt';
+
+const paragraph = (id: string, content: string, children?: Block[]): Block =>
+  ({ id, type: 'paragraph', content, ...(children && { children }) });
+
+// Id, text and children of each block. Text blocks read back with richText filled in.
+const outline = (blocks: Block[]): unknown[] =>
+  blocks.map(block => [block.id, block.content, ...(block.children ? [outline(block.children)] : [])]);
+
+// Two copies of a document holding `blocks`, as two clients would have after syncing
+const twoCopies = (blocks: Block[]) => {
+  const first = new Y.Doc();
+  first.transact(() => writeBlocks(first, blocks));
+  const second = new Y.Doc();
+  Y.applyUpdate(second, Y.encodeStateAsUpdate(first));
+  return [first, second];
+};
+
+const sync = (a: Y.Doc, b: Y.Doc) => {
+  const toB = Y.encodeStateAsUpdate(a, Y.encodeStateVector(b));
+  const toA = Y.encodeStateAsUpdate(b, Y.encodeStateVector(a));
+  Y.applyUpdate(b, toB);
+  Y.applyUpdate(a, toA);
+};
+
+const edit = (doc: Y.Doc, change: (blocks: Block[]) => Block[]) => {
+  const previous = readBlocks(doc);
+  doc.transact(() => writeBlocks(doc, change(previous), previous));
+};
+
+describe('positionBetween', () => {
+  it('sorts between its neighbours', () => {
+    let positions = [positionBetween()];
+    for (let i = 0; i < 50; i++) positions.push(positionBetween(positions[positions.length - 1]));
+    for (let i = 0; i < 50; i++) positions = [positionBetween(undefined, positions[0]), ...positions];
+    for (let i = 0; i < 50; i++) positions.splice(60, 0, positionBetween(positions[59], positions[60]));
+    expect([...positions].sort()).toEqual(positions);
+    expect(new Set(positions).size).toBe(positions.length);
+  });
+});
+
+describe('Yjs document', () => {
+  it('round-trips blocks', () => {
+    const blocks = [
+      paragraph('a', 'one', [paragraph('b', 'nested')]),
+      { id: 'c', type: 'paragraph', content: 'bold', richText: [{ text: 'bold', marks: { bold: true } }] },
+      { id: 'd', type: 'table', content: '', tableData: { headers: ['A'], rows: [['1']] } }
+    ] as Block[];
+    const doc = new Y.Doc();
+    writeBlocks(doc, blocks);
+    const read = readBlocks(doc);
+    expect(outline(read)).toEqual(outline(blocks));
+    expect(read[1].richText).toEqual(blocks[1].richText);
+    expect(read[2].tableData).toEqual(blocks[2].tableData);
+  });
+
+  it('keeps unchanged blocks when reading again', () => {
+    const doc = new Y.Doc();
+    writeBlocks(doc, [paragraph('a', 'one'), paragraph('b', 'two')]);
+    const first = readBlocks(doc);
+    expect(readBlocks(doc, first)).toBe(first);
+  });
+
+  it('converges after concurrent edits', () => {
+    const [first, second] = twoCopies([paragraph('a', 'alpha'), paragraph('b', 'beta'), paragraph('c', 'gamma')]);
+    edit(first, blocks => [paragraph('a', 'alpha edited'), blocks[1], paragraph('x', 'added'), blocks[2]]);
+    edit(second, blocks => moveBlocksTo(blocks.filter(block => block.id !== 'b'), ['a'], 'c', 'inside'));
+    sync(first, second);
+
+    const merged = readBlocks(first);
+    expect(readBlocks(second)).toEqual(merged);
+    expect(outline(merged)).toEqual([['x', 'added'], ['c', 'gamma', [['a', 'alpha edited']]]]);
+  });
+
+  it('merges concurrent typing in the same block', () => {
+    const [first, second] = twoCopies([paragraph('a', 'middle')]);
+    edit(first, () => [paragraph('a', 'start middle')]);
+    edit(second, () => [paragraph('a', 'middle end')]);
+    sync(first, second);
+    expect(outline(readBlocks(first))).toEqual([['a', 'start middle end']]);
+    expect(readBlocks(second)).toEqual(readBlocks(first));
+  });
+});
+
+describe('mergeOfflineEdits', () => {
+  it('applies offline edits on top of the shared document', () => {
+    const base = [paragraph('a', 'alpha'), paragraph('b', 'beta'), paragraph('c', 'gamma')];
+    const remote = [paragraph('a', 'ALPHA'), paragraph('b', 'beta', [paragraph('y', 'child y')]), paragraph('c', 'gamma'), paragraph('d', 'delta')];
+    const local = [paragraph('a', 'alpha'), paragraph('x', 'new'), paragraph('b', 'beta'), paragraph('c', 'gamma offline')];
+
+    expect(mergeOfflineEdits(remote, base, local)).toEqual([
+      paragraph('a', 'ALPHA'),
+      paragraph('x', 'new'),
+      paragraph('b', 'beta', [paragraph('y', 'child y')]),
+      paragraph('c', 'gamma offline'),
+      paragraph('d', 'delta')
+    ]);
+  });
+
+  it('removes blocks deleted offline', () => {
+    const base = [paragraph('a', 'alpha'), paragraph('b', 'beta')];
+    expect(mergeOfflineEdits([...base, paragraph('c', 'gamma')], base, [base[1]])).toEqual([paragraph('b', 'beta'), paragraph('c', 'gamma')]);
+  });
+});
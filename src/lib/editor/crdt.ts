@@ -0,0 +1,331 @@
+import * as Y from 'yjs';
+import {
+  Block,
+  findBlock,
+  findBlockLocation,
+  getBlockRichText,
+  getRichTextUpdates,
+  getTextField,
+  insertBlocksAfter,
+  removeBlocks,
+  replaceBlockById,
+  updateBlockById
+} from './blocks';
+import { stableStringify } from './document';
+import { deserializeBlock, getBlockType, serializeBlock } from './registry';
+import { Marks, RichText, markTypes, normalizeRichText, richTextToPlainText } from './rich-text';
+
+// The document as a Yjs CRDT, so copies edited at the same time merge to the
+// same blocks everywhere. Each block is a map entry keyed by its id holding:
+//
+//   parent    id of the parent block, or null at the top level
+//   position  where the block sorts among its siblings (a fractional index)
+//   fields    the block's stored fields, each merged on its own
+//   text      the text of text blocks, with marks as formatting attributes
+//
+// Keeping the tree as parent + position rather than nested arrays means a
+// moved block is the same CRDT object before and after the move, so edits
+// made to it elsewhere at the same time are not lost.
+
+const BLOCKS = 'blocks';
+
+const getBlockMap = (doc: Y.Doc) => doc.getMap<Y.Map<unknown>>(BLOCKS);
+
+export const isDocEmpty = (doc: Y.Doc) => getBlockMap(doc).size === 0;
+
+// Text blocks keep their text in a Y.Text; other blocks store `content` as a field
+const hasText = (block: Block) => {
+  const definition = getBlockType(block.type);
+  return !!definition && !definition.render;
+};
+
+// Fractional indexes: strings of base 36 digits that never end in '0', so
+// there is always room for another one between any two
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+export const positionBetween = (before = '', after?: string): string => {
+  let result = '';
+  for (let i = 0; ; i++) {
+    const low = i < before.length ? DIGITS.indexOf(before[i]) : 0;
+    const high = after !== undefined && i < after.length ? DIGITS.indexOf(after[i]) : DIGITS.length;
+    // Appending steps one digit up rather than halving, so keys stay short
+    // when blocks are added at the end one after another
+    if (high - low > 1) return result + DIGITS[after === undefined && i < before.length ? low + 1 : Math.floor((low + high) / 2)];
+    result += DIGITS[low];
+    // Once the result sorts before `after`, anything longer does too
+    if (low < high) after = undefined;
+  }
+};
+
+interface Entry {
+  id: string;
+  parent: string | null;
+  position: string;
+}
+
+const compareEntries = (a: Entry, b: Entry) =>
+  a.position < b.position ? -1 : a.position > b.position ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+
+// Ids of the entries in `list` to keep where they are: the longest run that is
+// already in order, so a reorder moves as few blocks as possible
+const longestOrderedRun = (list: Entry[]): Set<string> => {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  list.forEach((entry, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (compareEntries(list[tails[mid]], entry) < 0) low = mid + 1;
+      else high = mid;
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+  const kept = new Set<string>();
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) kept.add(list[i].id);
+  return kept;
+};
+
+const toAttributes = (marks: Marks = {}) =>
+  Object.fromEntries(markTypes.map(type => [type, marks[type] ?? null]));
+
+const richTextFromText = (text: Y.Text): RichText =>
+  normalizeRichText(text.toDelta().map((op: { insert: string; attributes?: Marks }) => ({ text: op.insert, marks: op.attributes })));
+
+// Marks of every character, as comparable strings
+const charMarks = (richText: RichText) =>
+  richText.flatMap(span => Array.from({ length: span.text.length }, () => stableStringify(toAttributes(span.marks))));
+
+// Turns `text` into `richText` with the smallest edit: the changed middle is
+// replaced, then formatting is fixed wherever it differs
+const writeText = (text: Y.Text, richText: RichText) => {
+  const before = text.toString();
+  const after = richTextToPlainText(richText);
+  if (before !== after) {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) start++;
+    let end = 0;
+    while (end < before.length - start && end < after.length - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+
+    if (before.length - start - end > 0) text.delete(start, before.length - start - end);
+    let offset = 0;
+    let index = start;
+    richText.forEach(span => {
+      const from = Math.max(start, offset);
+      const to = Math.min(after.length - end, offset + span.text.length);
+      if (from < to) {
+        text.insert(index, span.text.slice(from - offset, to - offset), toAttributes(span.marks));
+        index += to - from;
+      }
+      offset += span.text.length;
+    });
+  }
+
+  const current = charMarks(richTextFromText(text));
+  const wanted = charMarks(richText);
+  let offset = 0;
+  richText.forEach(span => {
+    for (let i = offset; i < offset + span.text.length;) {
+      if (current[i] === wanted[i]) {
+        i++;
+        continue;
+      }
+      let j = i;
+      while (j < offset + span.text.length && current[j] !== wanted[j]) j++;
+      text.format(i, j - i, toAttributes(span.marks));
+      i = j;
+    }
+    offset += span.text.length;
+  });
+};
+
+// The block's stored fields, without the id, children and the text kept in `text`
+const getFields = (block: Block): Record<string, unknown> => {
+  const { id, children, ...fields } = serializeBlock({ ...block, children: undefined });
+  if (hasText(block)) {
+    delete fields.richText;
+    delete fields[getTextField(block)];
+  }
+  return fields;
+};
+
+const sameContent = (a: Block, b: Block) =>
+  stableStringify(getFields(a)) === stableStringify(getFields(b)) &&
+  (!hasText(a) || stableStringify(getBlockRichText(a)) === stableStringify(getBlockRichText(b)));
+
+const writeBlock = (entry: Y.Map<unknown>, block: Block) => {
+  let fields = entry.get('fields') as Y.Map<unknown> | undefined;
+  if (!fields) {
+    fields = new Y.Map();
+    entry.set('fields', fields);
+  }
+  const values = getFields(block);
+  Array.from(fields.keys()).forEach(key => {
+    if (!(key in values)) fields.delete(key);
+  });
+  Object.entries(values).forEach(([key, value]) => {
+    if (value !== undefined && stableStringify(fields.get(key)) !== stableStringify(value)) fields.set(key, value);
+  });
+
+  if (hasText(block)) {
+    let text = entry.get('text') as Y.Text | undefined;
+    if (!(text instanceof Y.Text)) {
+      text = new Y.Text();
+      entry.set('text', text);
+    }
+    writeText(text, getBlockRichText(block));
+  } else if (entry.has('text')) {
+    entry.delete('text');
+  }
+};
+
+const flattenWithParents = (blocks: Block[], parent: string | null = null): { block: Block; parent: string | null }[] =>
+  blocks.flatMap(block => [{ block, parent }, ...flattenWithParents(block.children || [], block.id)]);
+
+const readEntries = (doc: Y.Doc): Entry[] =>
+  Array.from(getBlockMap(doc).entries(), ([id, entry]) => ({
+    id,
+    parent: (entry.get('parent') as string | null) ?? null,
+    position: (entry.get('position') as string) || ''
+  }));
+
+// Makes the document match `blocks`, changing only what differs. Blocks that
+// are the same objects as in `previous` (what the document held) are skipped.
+// Run it in `doc.transact` with an origin to tell local edits from remote ones.
+export const writeBlocks = (doc: Y.Doc, blocks: Block[], previous: Block[] = []) => {
+  const map = getBlockMap(doc);
+  const unchanged = new Set(flattenWithParents(previous).map(({ block }) => block));
+  const wanted = flattenWithParents(blocks);
+  const wantedIds = new Set(wanted.map(({ block }) => block.id));
+  Array.from(map.keys()).forEach(id => {
+    if (!wantedIds.has(id)) map.delete(id);
+  });
+
+  const existing = new Map(readEntries(doc).map(entry => [entry.id, entry]));
+  const siblingLists = new Map<string | null, Block[]>();
+  wanted.forEach(({ block, parent }) => siblingLists.set(parent, [...(siblingLists.get(parent) || []), block]));
+
+  siblingLists.forEach((siblings, parent) => {
+    // Blocks already under this parent and in order keep their positions
+    const placed = siblings.map(block => existing.get(block.id)).filter((entry): entry is Entry => !!entry && entry.parent === parent);
+    const kept = longestOrderedRun(placed);
+    const positions = new Map(placed.filter(entry => kept.has(entry.id)).map(entry => [entry.id, entry.position]));
+
+    let previousPosition: string | undefined;
+    siblings.forEach((block, index) => {
+      let position = positions.get(block.id);
+      if (position === undefined) {
+        const next = siblings.slice(index + 1).find(sibling => positions.has(sibling.id));
+        position = positionBetween(previousPosition, next && positions.get(next.id));
+      }
+      previousPosition = position;
+
+      let entry = map.get(block.id);
+      const created = !entry;
+      if (!entry) {
+        entry = new Y.Map();
+        map.set(block.id, entry);
+      }
+      if (entry.get('parent') !== parent) entry.set('parent', parent);
+      if (entry.get('position') !== position) entry.set('position', position);
+      if (created || !unchanged.has(block)) writeBlock(entry, block);
+    });
+  });
+};
+
+// The blocks the document holds. Blocks that are unchanged from `previous`
+// keep their identity, so only what changed re-renders.
+export const readBlocks = (doc: Y.Doc, previous: Block[] = []): Block[] => {
+  const map = getBlockMap(doc);
+  const previousById = new Map(flattenWithParents(previous).map(({ block }) => [block.id, block]));
+
+  // A block whose parent was deleted, or that ended up inside itself through
+  // moves made at the same time, goes to the top level
+  const entries = readEntries(doc);
+  const parentOf = new Map(entries.map(entry => [entry.id, entry.parent]));
+  const inCycle = (id: string) => {
+    const seen = new Set<string>();
+    for (let parent = parentOf.get(id); parent && !seen.has(parent); parent = parentOf.get(parent)) {
+      if (parent === id) return true;
+      seen.add(parent);
+    }
+    return false;
+  };
+  const childrenOf = new Map<string | null, Entry[]>();
+  entries.forEach(entry => {
+    const parent = entry.parent && map.has(entry.parent) && !inCycle(entry.id) ? entry.parent : null;
+    childrenOf.set(parent, [...(childrenOf.get(parent) || []), entry]);
+  });
+
+  const build = (parent: string | null): Block[] =>
+    (childrenOf.get(parent) || []).sort(compareEntries).map(({ id }) => {
+      const entry = map.get(id)!;
+      const fields = (entry.get('fields') as Y.Map<unknown> | undefined)?.toJSON() || {};
+      let block = deserializeBlock({ content: '', ...fields, id });
+      const text = entry.get('text');
+      if (text instanceof Y.Text && hasText(block)) block = { ...block, ...getRichTextUpdates(block, richTextFromText(text)) };
+      const children = build(id);
+      if (children.length) block.children = children;
+
+      const old = previousById.get(id);
+      const sameChildren = (old?.children || []).length === children.length &&
+        children.every((child, i) => child === old?.children?.[i]);
+      return old && sameChildren && sameContent(old, block) ? old : block;
+    });
+
+  const blocks = build(null);
+  return blocks.length === previous.length && blocks.every((block, i) => block === previous[i]) ? previous : blocks;
+};
+
+// Edits made before the first sync, from `base` to `local`, applied to what
+// the shared document holds (`remote`). Edited blocks take their offline
+// version, deleted ones go and added ones follow the block they came after.
+// Offline moves are not replayed: the shared order wins.
+export const mergeOfflineEdits = (remote: Block[], base: Block[], local: Block[]): Block[] => {
+  const baseById = new Map(flattenWithParents(base).map(({ block }) => [block.id, block]));
+  const localList = flattenWithParents(local);
+  const localIds = new Set(localList.map(({ block }) => block.id));
+
+  let merged = removeBlocks(remote, Array.from(baseById.keys()).filter(id => !localIds.has(id)));
+  localList.forEach(({ block, parent }) => {
+    const original = baseById.get(block.id);
+    const current = findBlock(merged, block.id);
+    const { children, ...fields } = block;
+    if (original && current) {
+      if (!sameContent(original, block)) merged = replaceBlockById(merged, block.id, [{ ...fields, children: current.children }]);
+      return;
+    }
+    // Deleted by someone else in the meantime, or added on both sides
+    if (original || current) return;
+
+    const location = findBlockLocation(local, block.id)!;
+    const previous = location.siblings.slice(0, location.index).reverse().find(sibling => findBlock(merged, sibling.id));
+    const parentBlock = parent ? findBlock(merged, parent) : undefined;
+    if (previous) merged = insertBlocksAfter(merged, [fields], previous.id);
+    else if (parentBlock) merged = updateBlockById(merged, parentBlock.id, { children: [fields, ...(parentBlock.children || [])] });
+    else merged = [fields, ...merged];
+  });
+  return merged;
+};
+
+// A point in a text block's text that stays with the characters around it as
+// others edit, for sharing carets. Null for blocks without text.
+export const getTextPosition = (doc: Y.Doc, blockId: string, index: number): unknown => {
+  const text = getBlockMap(doc).get(blockId)?.get('text');
+  return text instanceof Y.Text ? Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, index)) : null;
+};
+
+// Where a point from getTextPosition is now, or null if its block is gone
+export const resolveTextPosition = (doc: Y.Doc, position: unknown): number | null => {
+  try {
+    return Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(position), doc)?.index ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Undo for collaborative editing: it reverts only the changes made with
+// `origin`, leaving what others did since in place
+export const createUndoManager = (doc: Y.Doc, origin: unknown) =>
+  new Y.UndoManager(getBlockMap(doc), { trackedOrigins: new Set([origin]), captureTimeout: 500 });
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import '@/components/editor/blocks';
+import { Block } from './blocks';
+import { TextChange, diffBlocks, diffChars, diffText, restoreBlock } from './diff';
+
+// The text on either side of a diff
+const sides = (changes: TextChange[]) => ({
+  before: changes.filter(change => change.type !== 'insert').map(change => change.text).join(''),
+  after: changes.filter(change => change.type !== 'delete').map(change => change.text).join('')
+});
+
+const paragraph = (id: string, content: string, children?: Block[]): Block =>
+  ({ id, type: 'paragraph', content, ...(children && { children }) });
+
+describe('diffText', () => {
+  it('finds changed words', () => {
+    expect(diffText('the quick brown fox', 'the slow brown dog')).toEqual([
+      { type: 'equal', text: 'the ' },
+      { type: 'delete', text: 'quick' },
+      { type: 'insert', text: 'slow' },
+      { type: 'equal', text: ' brown ' },
+      { type: 'delete', text: 'fox' },
+      { type: 'insert', text: 'dog' }
+    ]);
+    expect(diffText('same', 'same')).toEqual([{ type: 'equal', text: 'same' }]);
+    expect(diffText('', 'new')).toEqual([{ type: 'insert', text: 'new' }]);
+  });
+
+  it('reconstructs both texts', () => {
+    const before = 'one two three four five six seven';
+    const after = 'zero one three four 4.5 six eight seven';
+    expect(sides(diffText(before, after))).toEqual({ before, after });
+  });
+
+  it('handles long texts with small and large edits quickly', () => {
+    const words = Array.from({ length: 50000 }, (_, i) => `w${i}`);
+    const before = words.join(' ');
+    const start = Date.now();
+
+    const inserted = diffText(before, `new ${before} end`);
+    expect(inserted.filter(change => change.type !== 'equal')).toEqual([
+      { type: 'insert', text: 'new ' },
+      { type: 'insert', text: ' end' }
+    ]);
+
+    // Every word differs: falls back to one replaced stretch
+    const after = words.map(word => word.toUpperCase()).join(' ');
+    expect(sides(diffText(before, after))).toEqual({ before, after });
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+});
+
+describe('diffChars', () => {
+  it('gives the replaced stretch between the unchanged ends', () => {
+    expect(diffChars('hello world', 'help world')).toEqual([
+      { type: 'equal', text: 'hel' },
+      { type: 'delete', text: 'lo' },
+      { type: 'insert', text: 'p' },
+      { type: 'equal', text: ' world' }
+    ]);
+  });
+});
+
+describe('diffBlocks', () => {
+  it('lists added, removed, changed and unchanged blocks in document order', () => {
+    const before = [paragraph('a', 'first'), paragraph('b', 'second', [paragraph('c', 'child')]), paragraph('d', 'gone')];
+    const after = [paragraph('a', 'first'), paragraph('b', 'second edited', [paragraph('c', 'child')]), paragraph('e', 'new')];
+    const changes = diffBlocks(before, after);
+    expect(changes.map(change => [change.kind, change.block.id, change.depth])).toEqual([
+      ['unchanged', 'a', 0],
+      ['changed', 'b', 0],
+      ['unchanged', 'c', 1],
+      ['removed', 'd', 0],
+      ['added', 'e', 0]
+    ]);
+    expect(changes[1].text).toEqual([{ type: 'equal', text: 'second' }, { type: 'insert', text: ' edited' }]);
+  });
+});
+
+describe('restoreBlock', () => {
+  const version = [paragraph('a', 'one'), paragraph('b', 'two', [paragraph('c', 'three')]), paragraph('d', 'four')];
+
+  it('brings back old fields and keeps current children', () => {
+    const current = [paragraph('a', 'one'), paragraph('b', 'changed', [paragraph('x', 'new child')]), paragraph('d', 'four')];
+    const restored = restoreBlock(current, version, 'b');
+    expect(restored[1]).toEqual(paragraph('b', 'two', [paragraph('x', 'new child')]));
+  });
+
+  it('puts a deleted block back after its earlier sibling', () => {
+    const current = [paragraph('a', 'one'), paragraph('d', 'four')];
+    expect(restoreBlock(current, version, 'b')).toEqual([paragraph('a', 'one'), version[1], paragraph('d', 'four')]);
+    expect(restoreBlock(current, version, 'missing')).toBe(current);
+  });
+});
@@ -0,0 +1,215 @@
+import { Block, findBlock, findBlockLocation, getBlockRichText, insertBlocksAfter, replaceBlockById, updateBlockById } from './blocks';
+import { stableStringify } from './document';
+import { serializeBlock } from './registry';
+import { richTextToPlainText } from './rich-text';
+
+// Differences between two versions of a document, block by block. Blocks are
+// matched by id, so a block keeps its identity when it is edited or moved.
+
+export interface TextChange {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface BlockChange {
+  kind: 'added' | 'removed' | 'changed' | 'unchanged';
+  block: Block;        // The block as it is in `after`, or as it was for removed blocks
+  previous?: Block;    // The block as it was in `before`, for changed blocks
+  depth: number;
+  text?: TextChange[];  // Word-level changes to the block's text, for changed blocks
+}
+
+// Edits the word diff looks for. Its trace grows with their square, so past
+// this the words between the common start and end count as replaced
+// outright, like diffChars does for characters.
+const MAX_EDITS = 1000;
+
+// Fewest deletions and insertions turning `a` into `b` (Myers' algorithm), as
+// one operation per word, or null when it takes more than MAX_EDITS
+const shortestEdit = (a: string[], b: string[]): TextChange[] | null => {
+  const max = Math.min(a.length + b.length, MAX_EDITS);
+  // v[k + max]: furthest x reached on diagonal k = x - y
+  const v = new Int32Array(2 * max + 2);
+  // trace[d][k + d]: the same after d edits
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + max] < v[k + 1 + max]) ? v[k + 1 + max] : v[k - 1 + max] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + max] = x;
+    }
+    trace.push(v.slice(max - d, max + d + 1));
+    if (v[a.length - b.length + max] >= a.length && Math.abs(a.length - b.length) <= d) {
+      return backtrack(a, b, trace);
+    }
+  }
+  return null;
+};
+
+// Walks the trace back from the end of both lists to the start
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): TextChange[] => {
+  const operations: TextChange[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = (k: number) => trace[d - 1][k + d - 1];
+    const k = x - y;
+    const inserted = k === -d || (k !== d && previous(k - 1) < previous(k + 1));
+    const previousX = previous(inserted ? k + 1 : k - 1);
+    const previousY = previousX - (inserted ? k + 1 : k - 1);
+    while (x > previousX + (inserted ? 0 : 1) && y > previousY + (inserted ? 1 : 0)) {
+      operations.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    operations.push(inserted ? { type: 'insert', text: b[previousY] } : { type: 'delete', text: a[previousX] });
+    x = previousX;
+    y = previousY;
+  }
+  while (x > 0) operations.push({ type: 'equal', text: a[--x] });
+  return operations.reverse();
+};
+
+// Word-level diff of two texts, words and spaces being the units. Within a
+// changed stretch the deleted words come before the inserted ones.
+export const diffText = (before: string, after: string): TextChange[] => {
+  const words = { before: before.match(/\s+|\S+/g) || [], after: after.match(/\s+|\S+/g) || [] };
+
+  // Only the middle that differs is searched
+  let start = 0;
+  while (start < words.before.length && start < words.after.length && words.before[start] === words.after[start]) start++;
+  let end = 0;
+  while (
+    end < words.before.length - start &&
+    end < words.after.length - start &&
+    words.before[words.before.length - 1 - end] === words.after[words.after.length - 1 - end]
+  ) end++;
+  const a = words.before.slice(start, words.before.length - end);
+  const b = words.after.slice(start, words.after.length - end);
+  const middle = shortestEdit(a, b) || [{ type: 'delete' as const, text: a.join('') }, { type: 'insert' as const, text: b.join('') }];
+
+  const changes: TextChange[] = [];
+  let deleted = '';
+  let inserted = '';
+  const push = (type: TextChange['type'], text: string) => {
+    const last = changes[changes.length - 1];
+    if (!text) return;
+    if (last?.type === type) last.text += text;
+    else changes.push({ type, text });
+  };
+  const flush = () => {
+    push('delete', deleted);
+    push('insert', inserted);
+    deleted = inserted = '';
+  };
+
+  push('equal', words.before.slice(0, start).join(''));
+  middle.forEach(({ type, text }) => {
+    if (type === 'delete') deleted += text;
+    else if (type === 'insert') inserted += text;
+    else {
+      flush();
+      push('equal', text);
+    }
+  });
+  flush();
+  push('equal', words.before.slice(words.before.length - end).join(''));
+  return changes;
+};
+
+// The edit from `before` to `after` as one replaced stretch between the
+// unchanged start and end, which is exact for typing, deleting and pasting
+export const diffChars = (before: string, after: string): TextChange[] => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (end < before.length - start && end < after.length - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+  return [
+    { type: 'equal' as const, text: before.slice(0, start) },
+    { type: 'delete' as const, text: before.slice(start, before.length - end) },
+    { type: 'insert' as const, text: after.slice(start, after.length - end) },
+    { type: 'equal' as const, text: before.slice(before.length - end) }
+  ].filter(change => change.text);
+};
+
+const flatten = (blocks: Block[], depth = 0): { block: Block; depth: number }[] =>
+  blocks.flatMap(block => [{ block, depth }, ...flatten(block.children || [], depth + 1)]);
+
+const blockText = (block: Block) => richTextToPlainText(getBlockRichText(block));
+
+// Compares everything but the id and children, which are diffed on their own
+const sameBlock = (a: Block, b: Block) => {
+  const fields = (block: Block) => {
+    const { id, children, ...rest } = serializeBlock({ ...block, children: undefined });
+    return stableStringify(rest);
+  };
+  return fields(a) === fields(b);
+};
+
+// Every block of both versions in document order, removed blocks where they used to be
+export const diffBlocks = (before: Block[], after: Block[]): BlockChange[] => {
+  const beforeList = flatten(before);
+  const afterList = flatten(after);
+  const beforeIndex = new Map(beforeList.map(({ block }, index) => [block.id, index]));
+  const afterIds = new Set(afterList.map(({ block }) => block.id));
+
+  const changes: BlockChange[] = [];
+  let next = 0;
+  const emitRemoved = () => {
+    const { block, depth } = beforeList[next++];
+    if (!afterIds.has(block.id)) changes.push({ kind: 'removed', block, depth });
+  };
+
+  afterList.forEach(({ block, depth }) => {
+    const index = beforeIndex.get(block.id);
+    if (index === undefined) {
+      changes.push({ kind: 'added', block, depth });
+      return;
+    }
+    // Removed blocks that came before this one go first, those right after it follow it
+    const inOrder = index >= next;
+    if (inOrder) while (next < index) emitRemoved();
+
+    const previous = beforeList[index].block;
+    if (sameBlock(previous, block)) {
+      changes.push({ kind: 'unchanged', block, depth });
+    } else {
+      const [previousText, text] = [blockText(previous), blockText(block)];
+      changes.push({ kind: 'changed', block, previous, depth, ...(previousText !== text && { text: diffText(previousText, text) }) });
+    }
+    if (inOrder) {
+      next = index + 1;
+      while (next < beforeList.length && !afterIds.has(beforeList[next].block.id)) emitRemoved();
+    }
+  });
+  while (next < beforeList.length) emitRemoved();
+  return changes;
+};
+
+// Brings block `id` back as it was in `version`. A block that still exists gets
+// its old fields but keeps its current children; a deleted one goes back after
+// its nearest earlier sibling that still exists, with the children that were not
+// moved elsewhere since.
+export const restoreBlock = (current: Block[], version: Block[], id: string): Block[] => {
+  const location = findBlockLocation(version, id);
+  if (!location) return current;
+  const { children, ...fields } = location.siblings[location.index];
+
+  const existing = findBlock(current, id);
+  if (existing) return replaceBlockById(current, id, [{ ...fields, children: existing.children }]);
+
+  const keep = (blocks: Block[] | undefined): Block[] | undefined => blocks
+    ?.filter(block => !findBlock(current, block.id))
+    .map(block => ({ ...block, children: keep(block.children) }));
+  const restored: Block = { ...fields, children: keep(children) };
+
+  const previous = location.siblings.slice(0, location.index).reverse().find(block => findBlock(current, block.id));
+  if (previous) return insertBlocksAfter(current, [restored], previous.id);
+  const parent = location.parent && findBlock(current, location.parent.id);
+  if (parent) return updateBlockById(current, parent.id, { children: [restored, ...(parent.children || [])] });
+  return [restored, ...current];
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import '@/components/editor/blocks';
+import { Block } from './blocks';
+import { deserializeDocument, getSchemaVersion, migrateDocument, readDocument, serializeDocument, stableStringify } from './document';
+
+const blocks: Block[] = [
+  { id: 'a', type: 'heading1', content: 'Title' },
+  {
+    id: 'b',
+    type: 'calendar',
+    content: '',
+    selectedDate: new Date('2024-05-01T00:00:00.000Z'),
+    calendarEvents: [{ id: 'e', title: 'Meeting', startTime: new Date('2024-05-01T09:00:00.000Z'), endTime: new Date('2024-05-01T10:00:00.000Z'), color: 'bg-blue-500' }]
+  },
+  { id: 'c', type: 'toggle', content: '', toggleTitle: 'More', children: [{ id: 'd', type: 'paragraph', content: 'inside' }] }
+];
+
+describe('stored documents', () => {
+  it('round-trips blocks and metadata through JSON', () => {
+    const stored = JSON.parse(JSON.stringify(serializeDocument(blocks, { title: 'Notes' })));
+    expect(stored.schemaVersion).toBe(getSchemaVersion());
+    expect(stored.blocks[1].selectedDate).toBe('2024-05-01T00:00:00.000Z');
+
+    const loaded = deserializeDocument(stored);
+    expect(loaded.blocks).toEqual(blocks);
+    expect(loaded.meta).toEqual({ title: 'Notes' });
+    expect(loaded.comments).toEqual([]);
+  });
+
+  it('migrates a bare block array with toggle HTML', () => {
+    const migrated = migrateDocument([{ id: 't', type: 'toggle', content: '', toggleTitle: 'Old', toggleContent: 'Body text' }]);
+    expect(migrated.schemaVersion).toBe(getSchemaVersion());
+    expect(migrated.meta).toEqual({});
+    expect(migrated.blocks[0].toggleContent).toBeUndefined();
+    expect(migrated.blocks[0].children).toEqual([expect.objectContaining({ id: 't-body', type: 'paragraph' })]);
+  });
+
+  it('rejects documents from a newer editor', () => {
+    const newer = { schemaVersion: getSchemaVersion() + 1, blocks: [], meta: {} };
+    expect(() => migrateDocument(newer)).toThrow(/newer than this editor supports/);
+    expect(readDocument(newer).error).toMatch(/newer than this editor supports/);
+  });
+
+  it('reports unreadable documents instead of throwing', () => {
+    expect(readDocument('nonsense')).toEqual({ error: 'Not an editor document' });
+    expect(readDocument({ blocks: {} }).error).toBe('Not an editor document');
+    expect(readDocument(serializeDocument(blocks)).document?.blocks).toEqual(blocks);
+  });
+});
+
+describe('stableStringify', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(stableStringify({ b: 1, a: [{ d: 2, c: undefined }] })).toBe(stableStringify({ a: [{ d: 2 }], b: 1 }));
+  });
+});
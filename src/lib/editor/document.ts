@@ -0,0 +1,135 @@
+import { Block, moveToggleContentToChildren } from './blocks';
+import { CommentThread, parseCommentThreads } from './comments';
+import { deserializeBlocks, serializeBlocks } from './registry';
+import { Suggestion, parseSuggestions } from './suggestions';
+
+// Stored document format. Blocks are saved in their JSON-safe form (dates as
+// ISO strings) inside an envelope that records the schema version they were
+// written with. Older documents are upgraded by the registered migrations
+// when they are read. Comment threads and suggestions sit next to the blocks,
+// so they stay out of the blocks themselves and of anything exported from them.
+
+export type StoredBlock = Record<string, unknown>;
+
+export interface DocumentMeta {
+  title?: string;
+  createdAt?: string;   // ISO date
+  updatedAt?: string;   // ISO date
+  [key: string]: unknown;
+}
+
+export interface StoredDocument {
+  schemaVersion: number;
+  blocks: StoredBlock[];
+  meta: DocumentMeta;
+  comments?: CommentThread[];
+  suggestions?: Suggestion[];
+}
+
+export interface LoadedDocument {
+  blocks: Block[];
+  meta: DocumentMeta;
+  comments: CommentThread[];
+  suggestions: Suggestion[];
+}
+
+export type DocumentReadResult =
+  | { document: LoadedDocument; error?: undefined }
+  | { document?: undefined; error: string };
+
+export interface DocumentMigration {
+  version: number;        // Schema version the migration upgrades documents to
+  description: string;
+  migrate: (blocks: StoredBlock[]) => StoredBlock[];
+}
+
+// JSON with object keys sorted at every level, so equal stored values compare equal
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const migrations: DocumentMigration[] = [];
+
+export const registerMigration = (migration: DocumentMigration) => {
+  if (migrations.some(m => m.version === migration.version)) {
+    throw new Error(`A migration to schema version ${migration.version} is already registered`);
+  }
+  migrations.push(migration);
+  migrations.sort((a, b) => a.version - b.version);
+};
+
+// Version of the newest registered migration; documents are written with it
+export const getSchemaVersion = () => migrations.reduce((version, migration) => Math.max(version, migration.version), 0);
+
+export const getMigrations = (): DocumentMigration[] => [...migrations];
+
+export const serializeDocument = (
+  blocks: Block[],
+  meta: DocumentMeta = {},
+  comments: CommentThread[] = [],
+  suggestions: Suggestion[] = []
+): StoredDocument => ({
+  schemaVersion: getSchemaVersion(),
+  blocks: serializeBlocks(blocks),
+  meta,
+  ...(comments.length > 0 && { comments }),
+  ...(suggestions.length > 0 && { suggestions })
+});
+
+const isStoredDocument = (value: unknown): value is StoredDocument =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as StoredDocument).schemaVersion === 'number' &&
+  Array.isArray((value as StoredDocument).blocks);
+
+// Brings a stored document up to the current schema version. Blocks saved
+// before the envelope existed are a bare array and count as version 0.
+// Throws for anything that isn't a document and for documents written by a
+// newer editor; readDocument reports those instead.
+export const migrateDocument = (stored: unknown): StoredDocument => {
+  const document = Array.isArray(stored) ? { schemaVersion: 0, blocks: stored as StoredBlock[], meta: {} } : stored;
+  if (!isStoredDocument(document)) throw new Error('Not an editor document');
+
+  const currentVersion = getSchemaVersion();
+  if (document.schemaVersion > currentVersion) {
+    throw new Error(`Document schema version ${document.schemaVersion} is newer than this editor supports (${currentVersion})`);
+  }
+
+  return migrations
+    .filter(migration => migration.version > document.schemaVersion)
+    .reduce<StoredDocument>(
+      (migrated, migration) => ({ ...migrated, schemaVersion: migration.version, blocks: migration.migrate(migrated.blocks) }),
+      { ...document, meta: document.meta || {} }
+    );
+};
+
+// Blocks, metadata, comments and suggestions of a stored document of any schema version
+export const deserializeDocument = (stored: unknown): LoadedDocument => {
+  const { blocks, meta, comments, suggestions } = migrateDocument(stored);
+  return {
+    blocks: deserializeBlocks(blocks),
+    meta,
+    comments: parseCommentThreads(comments),
+    suggestions: parseSuggestions(suggestions)
+  };
+};
+
+// deserializeDocument for documents from outside, such as a database: gives
+// the reason a document can't be read instead of throwing it
+export const readDocument = (stored: unknown): DocumentReadResult => {
+  try {
+    return { document: deserializeDocument(stored) };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Unreadable document' };
+  }
+};
+
+registerMigration({
+  version: 1,
+  description: 'Toggle bodies move from toggleContent HTML into child blocks',
+  migrate: (blocks) => moveToggleContentToChildren(blocks as unknown as Block[]) as unknown as StoredBlock[]
+});
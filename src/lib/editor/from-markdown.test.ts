@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import '@/components/editor/blocks';
+import { Block } from './blocks';
+import { looksLikeMarkdown, markdownToBlocks } from './from-markdown';
+import { blocksToMarkdown } from './to-markdown';
+
+// Type, text and children of each block, without ids
+const outline = (blocks: Block[]): unknown[] =>
+  blocks.map(block => [block.type, block.type === 'toggle' ? block.toggleTitle : block.content, ...(block.children ? [outline(block.children)] : [])]);
+
+const depthOf = (blocks: Block[]): number =>
+  blocks.reduce((depth, block) => Math.max(depth, 1 + depthOf(block.children || [])), 0);
+
+describe('markdownToBlocks', () => {
+  it('reads block syntax into a tree', () => {
+    const blocks = markdownToBlocks([
+      '# Title',
+      '',
+      'Text with **bold** and [a link](https://example.com).',
+      '',
+      '- one',
+      '  - nested',
+      '- [ ] task',
+      '',
+      '3. three',
+      '4. four',
+      '',
+      '> quoted',
+      '',
+      '```js',
+      'code()',
+      '```',
+      '',
+      '| A | B |',
+      '| - | - |',
+      '| 1 | 2 |'
+    ].join('\n'));
+
+    expect(outline(blocks)).toEqual([
+      ['heading1', 'Title'],
+      ['paragraph', 'Text with bold and a link.'],
+      ['list', 'one', [['list', 'nested']]],
+      ['todo', 'task'],
+      ['numbered-list', 'three'],
+      ['numbered-list', 'four'],
+      ['quote', 'quoted'],
+      ['code', 'code()'],
+      ['table', '']
+    ]);
+    expect(blocks[1].richText).toEqual([
+      { text: 'Text with ' },
+      { text: 'bold', marks: { bold: true } },
+      { text: ' and ' },
+      { text: 'a link', marks: { link: 'https://example.com' } },
+      { text: '.' }
+    ]);
+    expect(blocks[4].listStart).toBe(3);
+    expect(blocks[7].language).toBe('js');
+    expect(blocks[8].tableData).toEqual({ headers: ['A', 'B'], rows: [['1', '2']] });
+  });
+
+  it('round-trips what blocksToMarkdown writes', () => {
+    const markdown = [
+      '## Section',
+      '',
+      'Some _emphasis_, `code` and ~~strike~~.',
+      '',
+      '1. first',
+      '   - inner',
+      '2. second',
+      '',
+      '> 💡 A callout',
+      '',
+      '<details>',
+      '<summary>Toggle</summary>',
+      '',
+      'hidden',
+      '',
+      '</details>',
+      '',
+      '---',
+      ''
+    ].join('\n');
+    const blocks = markdownToBlocks(markdown);
+    expect(blocksToMarkdown(blocks)).toBe(markdown);
+    expect(outline(markdownToBlocks(blocksToMarkdown(blocks)))).toEqual(outline(blocks));
+  });
+
+  it('reads lettered and Roman numbered lists', () => {
+    const markdown = ['c. three', 'd. four', '', 'Text', '', 'i. one', 'ii. two', ''].join('\n');
+    const blocks = markdownToBlocks(markdown);
+    expect(blocks.map(block => [block.content, block.listStyle, block.listStart])).toEqual([
+      ['three', 'alpha', 3],
+      ['four', undefined, undefined],
+      ['Text', undefined, undefined],
+      ['one', 'roman', undefined],
+      ['two', undefined, undefined]
+    ]);
+    expect(blocksToMarkdown(blocks)).toBe(markdown);
+  });
+
+  it('resolves reference links', () => {
+    const [block] = markdownToBlocks('See [the docs][docs].\n\n[docs]: https://example.com/docs');
+    expect(block.richText).toContainEqual({ text: 'the docs', marks: { link: 'https://example.com/docs' } });
+  });
+
+  it('survives deeply nested quotes and lists', () => {
+    const quotes = markdownToBlocks(`${'> '.repeat(5000)}deep`);
+    expect(depthOf(quotes)).toBeLessThanOrEqual(101);
+    expect(JSON.stringify(quotes)).toContain('deep');
+
+    const list = Array.from({ length: 500 }, (_, i) => `${'  '.repeat(i)}- item ${i}`).join('\n');
+    expect(depthOf(markdownToBlocks(list))).toBeLessThanOrEqual(101);
+  });
+
+  it('parses unmatched brackets and delimiters in linear time', () => {
+    const start = Date.now();
+    expect(markdownToBlocks('['.repeat(20000))[0].content).toBe('['.repeat(20000));
+    markdownToBlocks('*'.repeat(10000) + 'x' + '*'.repeat(10000));
+    markdownToBlocks('[a]'.repeat(20000));
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
+
+  it('gives up on unclosed emphasis openers in linear time', () => {
+    const start = Date.now();
+    expect(markdownToBlocks('_a '.repeat(20000))[0].content).toBe('_a '.repeat(20000).trim());
+    expect(markdownToBlocks('**a *b '.repeat(10000))[0].richText).toHaveLength(1);
+    expect(Date.now() - start).toBeLessThan(2000);
+    // Closed emphasis after unclosed openers still parses
+    expect(markdownToBlocks('_a _b *c* d')[0].richText).toEqual([
+      { text: '_a _b ' },
+      { text: 'c', marks: { italic: true } },
+      { text: ' d' }
+    ]);
+  });
+});
+
+describe('looksLikeMarkdown', () => {
+  it('accepts single-line headings and inline syntax', () => {
+    expect(looksLikeMarkdown('# heading')).toBe(true);
+    expect(looksLikeMarkdown('**bold**')).toBe(true);
+    expect(looksLikeMarkdown('run `npm test` first')).toBe(true);
+    expect(looksLikeMarkdown('[docs](https://example.com)')).toBe(true);
+  });
+
+  it('accepts several lines with block syntax', () => {
+    expect(looksLikeMarkdown('- one\n- two')).toBe(true);
+    expect(looksLikeMarkdown('Intro\n> quote')).toBe(true);
+  });
+
+  it('leaves plain text alone', () => {
+    expect(looksLikeMarkdown('Just a sentence.')).toBe(false);
+    expect(looksLikeMarkdown('2020. A year')).toBe(false);
+    expect(looksLikeMarkdown('#1 priority')).toBe(false);
+    expect(looksLikeMarkdown('a ** b ** c')).toBe(false);
+    expect(looksLikeMarkdown('first line\nsecond line')).toBe(false);
+  });
+});
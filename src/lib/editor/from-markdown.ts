@@ -0,0 +1,700 @@
+import { Block, BlockType, ListStyle, createBlock, createBlockId, formatListNumber, getRichTextUpdates } from './blocks';
+import { decodeEntities } from './html';
+import {
+  Marks,
+  RichText,
+  normalizeRichText,
+  richTextFromPlainText,
+  richTextToPlainText
+} from './rich-text';
+
+// Markdown (CommonMark + GFM) import, the counterpart of to-markdown.ts.
+// Nested list items and anything else a block contains end up in `children`.
+
+interface ParseContext {
+  definitions: Map<string, string>;   // Link reference definitions by normalized label
+  nextId: () => string;
+  depth: number;                      // Quotes, list items and toggles the lines are inside
+}
+
+// Deeper nesting is kept as plain text, so hostile input can't overflow the
+// stack during paste or import
+const MAX_DEPTH = 100;
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^\s`]*)[^`]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+// Besides bullets and numbers, the letters and Roman numerals to-markdown.ts
+// writes for other numbering styles
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)]|(?:[a-z]|[ivxlc]{2,8})[.)])([ \t]+|$)/;
+const TASK_MARKER = /^\[([ xX])\](?:[ \t]+|$)/;
+const INDENTED_CODE = /^ {4}/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const DETAILS_OPEN = /^ {0,3}<details\b[^>]*>/i;
+const DEFINITION = /^ {0,3}\[((?:\\.|[^\]\\])+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"[^"]*"|'[^']*'|\([^)]*\)))?[ \t]*$/;
+
+// Sticky patterns for the inline parser, matched at a given position
+const BACKTICKS = /`+/y;
+const DELIMITER_RUN = /\*+|_+|~+/y;
+const LINK_DESTINATION = /\([ \t\n]*(?:<([^<>\n]*)>|((?:\\.|[^\s()\\]|\((?:\\.|[^\s()\\])*\))*))(?:[ \t\n]+(?:"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\((?:\\.|[^()\\])*\)))?[ \t\n]*\)/y;
+const AUTOLINK = /<([a-z][a-z0-9+.-]{1,31}:[^\s<>]*)>/iy;
+const EMAIL_AUTOLINK = /<([^\s<>@]+@[^\s<>]+\.[^\s<>]+)>/y;
+const URL_LITERAL = /(?:https?:\/\/|www\.)[^\s<]+/y;
+const HTML_MARK_TAG = /<(u|mark)>/iy;
+const HTML_BREAK = /<br\s*\/?>/iy;
+const ENTITY = /&(?:#x[0-9a-f]+|#\d+|[a-z]+);/iy;
+
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+// Yellow from colorPalette; Markdown's <mark> has no color of its own
+const DEFAULT_HIGHLIGHT = '#FEF3C7';
+
+const matchAt = (pattern: RegExp, text: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+
+const unescapeMarkdown = (text: string) => decodeEntities(text.replace(/\\([!-/:-@[-`{-~])/g, '$1'));
+
+const normalizeLabel = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isWhitespace = (char?: string) => !char || /\s/.test(char);
+const isPunctuation = (char?: string) => !!char && /[\p{P}\p{S}]/u.test(char);
+
+// Whether the delimiter run text[start, end) can open or close emphasis,
+// following CommonMark's flanking rules
+const delimiterRole = (text: string, start: number, end: number) => {
+  const before = text[start - 1];
+  const after = text[end];
+  const leftFlanking = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+  const rightFlanking = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+
+  // Underscores do not work inside words
+  if (text[start] === '_') {
+    return {
+      opens: leftFlanking && (!rightFlanking || isPunctuation(before)),
+      closes: rightFlanking && (!leftFlanking || isPunctuation(after))
+    };
+  }
+  return { opens: leftFlanking, closes: rightFlanking };
+};
+
+// End of the code span opened by `backticks` at `from`, or -1
+const findCodeSpanEnd = (text: string, from: number, backticks: string) => {
+  for (let index = text.indexOf('`', from); index !== -1; index = text.indexOf('`', index)) {
+    const run = matchAt(BACKTICKS, text, index)![0];
+    if (run.length === backticks.length) return index;
+    index += run.length;
+  }
+  return -1;
+};
+
+// Closing delimiter run for emphasis of `size` characters opened before
+// `from`. A run of exactly that size wins; otherwise a longer one is split.
+const findEmphasisCloser = (text: string, from: number, char: string, size: number) => {
+  let longer: { start: number; end: number } | null = null;
+
+  for (let index = from; index < text.length;) {
+    if (text[index] === '\\') {
+      index += 2;
+    } else if (text[index] === '`') {
+      const backticks = matchAt(BACKTICKS, text, index)![0];
+      const end = findCodeSpanEnd(text, index + backticks.length, backticks);
+      index = end === -1 ? index + backticks.length : end + backticks.length;
+    } else if (text[index] === char) {
+      const run = matchAt(DELIMITER_RUN, text, index)![0];
+      const end = index + run.length;
+      if (index > from && delimiterRole(text, index, end).closes) {
+        if (run.length === size) return { start: index, end };
+        if (run.length > size && !longer) longer = { start: end - size, end };
+      }
+      index = end;
+    } else {
+      index++;
+    }
+  }
+  return longer;
+};
+
+// Emphasis closer searches that found nothing in one run of text: the
+// earliest position searched from, by delimiter character and size. Later
+// openers of the same kind would scan part of the same text, so they are
+// skipped; otherwise "_a _a _a ..." rescans the rest of the line from every `_`.
+type FailedCloserSearches = Map<string, number>;
+
+// Index of the `]` matching each `[` that has one, found in a single pass so
+// a long run of unmatched brackets isn't rescanned from every `[`
+const findLabelEnds = (text: string) => {
+  const ends = new Map<number, number>();
+  const open: number[] = [];
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '`') {
+      const backticks = matchAt(BACKTICKS, text, index)![0];
+      const end = findCodeSpanEnd(text, index + backticks.length, backticks);
+      index = (end === -1 ? index : end) + backticks.length - 1;
+    } else if (char === '[') {
+      open.push(index);
+    } else if (char === ']' && open.length) {
+      ends.set(open.pop()!, index);
+    }
+  }
+  return ends;
+};
+
+// Inline or reference link whose label starts with the `[` at `start`
+const parseLink = (text: string, start: number, context: ParseContext, labelEnds = findLabelEnds(text)) => {
+  const labelEnd = labelEnds.get(start);
+  if (labelEnd === undefined) return null;
+  const label = text.slice(start + 1, labelEnd);
+
+  const destination = matchAt(LINK_DESTINATION, text, labelEnd + 1);
+  if (destination) {
+    return { label, url: unescapeMarkdown(destination[1] ?? destination[2]), end: labelEnd + 1 + destination[0].length };
+  }
+
+  // [label][ref], [label][] and [label]
+  const reference = text[labelEnd + 1] === '[' ? /^\[((?:\\.|[^\]\\])*)\]/.exec(text.slice(labelEnd + 1)) : null;
+  const url = context.definitions.get(normalizeLabel(reference?.[1] || label));
+  if (url === undefined) return null;
+  return { label, url, end: labelEnd + 1 + (reference ? reference[0].length : 0) };
+};
+
+// Rich text for inline Markdown, with `marks` applied to all of it. `depth`
+// counts the links, emphasis and tags around `text`.
+const parseInline = (text: string, context: ParseContext, marks: Marks = {}, depth = 0): RichText => {
+  if (depth >= MAX_DEPTH) return text ? [{ text, marks }] : [];
+  const labelEnds = findLabelEnds(text);
+  const failedCloserSearches: FailedCloserSearches = new Map();
+  const spans: RichText = [];
+  let buffer = '';
+  const append = (inner: RichText) => {
+    if (buffer) spans.push({ text: buffer, marks });
+    buffer = '';
+    spans.push(...inner);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    let match: RegExpExecArray | null;
+    let link: ReturnType<typeof parseLink> = null;
+
+    if (char === '\\' && text[index + 1] === '\n') {
+      buffer = `${buffer.trimEnd()}\n`;
+      index += 2;
+    } else if (char === '\\' && ESCAPABLE.test(text[index + 1] || '')) {
+      buffer += text[index + 1];
+      index += 2;
+    } else if (char === '`') {
+      const backticks = matchAt(BACKTICKS, text, index)![0];
+      const end = findCodeSpanEnd(text, index + backticks.length, backticks);
+      if (end === -1) {
+        buffer += backticks;
+        index += backticks.length;
+        continue;
+      }
+      let code = text.slice(index + backticks.length, end).replace(/\n/g, ' ');
+      if (/^ [\s\S]*[^ ][\s\S]* $/.test(code)) code = code.slice(1, -1);
+      append([{ text: code, marks: { ...marks, code: true } }]);
+      index = end + backticks.length;
+    } else if (char === '!' && text[index + 1] === '[' && (link = parseLink(text, index + 1, context, labelEnds))) {
+      // Rich text has no inline images; the alt text links to the image
+      const alt = richTextToPlainText(parseInline(link.label, context, {}, depth + 1)) || link.url;
+      append([{ text: alt, marks: { ...marks, link: marks.link || link.url } }]);
+      index = link.end;
+    } else if (char === '[' && !marks.link && (link = parseLink(text, index, context, labelEnds))) {
+      append(parseInline(link.label, context, { ...marks, link: link.url }, depth + 1));
+      index = link.end;
+    } else if (char === '<' && (match = matchAt(AUTOLINK, text, index) || matchAt(EMAIL_AUTOLINK, text, index))) {
+      const url = match[1].includes(':') ? match[1] : `mailto:${match[1]}`;
+      append([{ text: match[1], marks: { ...marks, link: marks.link || url } }]);
+      index += match[0].length;
+    } else if (char === '<' && (match = matchAt(HTML_BREAK, text, index))) {
+      buffer += '\n';
+      index += match[0].length;
+    } else if (char === '<' && (match = matchAt(HTML_MARK_TAG, text, index))) {
+      const tag = match[1].toLowerCase();
+      const close = text.toLowerCase().indexOf(`</${tag}>`, index + match[0].length);
+      if (close === -1) {
+        buffer += match[0];
+        index += match[0].length;
+        continue;
+      }
+      const added: Marks = tag === 'u' ? { underline: true } : { highlight: DEFAULT_HIGHLIGHT };
+      append(parseInline(text.slice(index + match[0].length, close), context, { ...marks, ...added }, depth + 1));
+      index = close + tag.length + 3;
+    } else if ((char === 'h' || char === 'w') && !marks.link && (isWhitespace(text[index - 1]) || text[index - 1] === '(') && (match = matchAt(URL_LITERAL, text, index))) {
+      // GFM bare URLs; trailing punctuation belongs to the sentence
+      let url = match[0].replace(/[?!.,:*_~'"]+$/, '');
+      while (url.endsWith(')') && url.split(')').length > url.split('(').length) url = url.slice(0, -1);
+      append([{ text: url, marks: { ...marks, link: url.startsWith('www.') ? `http://${url}` : url } }]);
+      index += url.length;
+    } else if (char === '*' || char === '_' || char === '~') {
+      const run = matchAt(DELIMITER_RUN, text, index)![0];
+      const emphasis = delimiterRole(text, index, index + run.length).opens && parseEmphasis(text, index, run, context, marks, depth, failedCloserSearches);
+      if (emphasis) {
+        append(emphasis.richText);
+        index = emphasis.end;
+      } else {
+        buffer += run;
+        index += run.length;
+      }
+    } else if (char === '&' && (match = matchAt(ENTITY, text, index))) {
+      buffer += decodeEntities(match[0]);
+      index += match[0].length;
+    } else if (char === '\n') {
+      // Two trailing spaces make a hard break; otherwise lines join with a space
+      buffer = / {2,}$/.test(buffer) ? `${buffer.trimEnd()}\n` : `${buffer.trimEnd()} `;
+      index++;
+      while (text[index] === ' ') index++;
+    } else {
+      buffer += char;
+      index++;
+    }
+  }
+
+  append([]);
+  return spans;
+};
+
+const parseEmphasis = (
+  text: string,
+  start: number,
+  run: string,
+  context: ParseContext,
+  marks: Marks,
+  depth: number,
+  failed: FailedCloserSearches
+) => {
+  const char = run[0];
+  const sizes = char === '~' ? (run.length === 2 ? [2] : []) : run.length >= 3 ? [3, 2, 1] : run.length === 2 ? [2, 1] : [1];
+
+  for (const size of sizes) {
+    const key = `${char}${size}`;
+    if ((failed.get(key) ?? Infinity) <= start + size) continue;
+    const closer = findEmphasisCloser(text, start + size, char, size);
+    if (!closer) {
+      failed.set(key, start + size);
+      continue;
+    }
+
+    const added: Marks = char === '~' ? { strike: true } : {};
+    if (char !== '~' && size >= 2) added.bold = true;
+    if (char !== '~' && size !== 2) added.italic = true;
+    return {
+      richText: parseInline(text.slice(start + size, closer.start), context, { ...marks, ...added }, depth + 1),
+      end: closer.end
+    };
+  }
+  return null;
+};
+
+const parseText = (text: string, context: ParseContext) => normalizeRichText(parseInline(text.trim(), context));
+
+// Joins rich text with line breaks, e.g. the paragraphs of a quote
+const joinRichText = (parts: RichText[]) =>
+  normalizeRichText(parts.flatMap((part, index) => (index ? [{ text: '\n' }, ...part] : part)));
+
+const newBlock = (context: ParseContext, type: BlockType, fields: Partial<Block> = {}): Block => ({
+  ...createBlock(type),
+  id: context.nextId(),
+  ...fields
+});
+
+const newTextBlock = (context: ParseContext, type: BlockType, richText: RichText, fields: Partial<Block> = {}): Block => {
+  const block = newBlock(context, type, fields);
+  return { ...block, ...getRichTextUpdates(block, richText) };
+};
+
+const indentOf = (line: string) => /^ */.exec(line)![0].length;
+
+const ROMAN_DIGITS: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+// Value of a lowercase Roman numeral, or NaN unless it is written the usual way
+const parseRoman = (text: string) => {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) {
+    const digit = ROMAN_DIGITS[text[i]];
+    value += digit < (ROMAN_DIGITS[text[i + 1]] || 0) ? -digit : digit;
+  }
+  return formatListNumber(value, 'roman') === text ? value : NaN;
+};
+
+// Style and number of an ordered list marker such as "3.", "c)" or "iv.";
+// null for bullets and for letters that are not a numeral. A single letter
+// is alphabetic unless it is "i" or `style` (the list's) is Roman.
+const parseOrderedMarker = (marker: string, style?: ListStyle): { style: ListStyle; value: number } | null => {
+  const text = marker.slice(0, -1);
+  if (/^\d+$/.test(text)) return { style: 'decimal', value: parseInt(text, 10) };
+  if (!/^[a-z]+$/.test(text)) return null;
+  if (text.length === 1 && style !== 'roman' && (text !== 'i' || style === 'alpha')) {
+    return { style: 'alpha', value: text.charCodeAt(0) - 96 };
+  }
+  const value = parseRoman(text);
+  return Number.isNaN(value) ? null : { style: 'roman', value };
+};
+
+const isBullet = (marker: string) => /^[-*+]$/.test(marker);
+
+const isListItem = (line: string) => {
+  const item = LIST_ITEM.exec(line);
+  return !!item && !THEMATIC_BREAK.test(line) && (isBullet(item[2]) || !!parseOrderedMarker(item[2]));
+};
+
+// Lines that end a paragraph. Only lists starting at 1 and items with text
+// interrupt one, so wrapped prose starting with "2020." stays prose.
+const interruptsParagraph = (line: string) => {
+  const item = LIST_ITEM.exec(line);
+  return !line.trim() ||
+    ATX_HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    FENCE.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    DETAILS_OPEN.test(line) ||
+    (!!item && isListItem(line) && !!line.slice(item[0].length).trim() &&
+      (isBullet(item[2]) || parseOrderedMarker(item[2])?.value === 1));
+};
+
+const splitTableRow = (line: string) => {
+  const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], index: number) =>
+  index + 1 < lines.length &&
+  lines[index].includes('|') &&
+  lines[index + 1].includes('|') &&
+  TABLE_DELIMITER.test(lines[index + 1]) &&
+  splitTableRow(lines[index]).length === splitTableRow(lines[index + 1]).length;
+
+type BlockParser = (lines: string[], start: number, context: ParseContext) => { blocks: Block[]; end: number } | null;
+
+const parseFencedCode: BlockParser = (lines, start, context) => {
+  const match = FENCE.exec(lines[start]);
+  if (!match) return null;
+  const [, indent, fence, language] = match;
+  const closing = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`);
+  const leadingIndent = new RegExp(`^ {0,${indent.length}}`);
+
+  const code: string[] = [];
+  let index = start + 1;
+  while (index < lines.length && !closing.test(lines[index])) {
+    code.push(lines[index].replace(leadingIndent, ''));
+    index++;
+  }
+
+  const text = code.join('\n');
+  return {
+    blocks: [newTextBlock(context, 'code', richTextFromPlainText(text), { language: unescapeMarkdown(language) })],
+    end: index + 1
+  };
+};
+
+const parseIndentedCode: BlockParser = (lines, start, context) => {
+  if (!INDENTED_CODE.test(lines[start])) return null;
+
+  let end = start;
+  let index = start;
+  while (index < lines.length && (INDENTED_CODE.test(lines[index]) || !lines[index].trim())) {
+    if (lines[index].trim()) end = index + 1;
+    index++;
+  }
+
+  const text = lines.slice(start, end).map(line => line.slice(4)).join('\n');
+  return { blocks: [newTextBlock(context, 'code', richTextFromPlainText(text))], end };
+};
+
+const parseAtxHeading: BlockParser = (lines, start, context) => {
+  const match = ATX_HEADING.exec(lines[start]);
+  if (!match) return null;
+  // The editor has three heading levels
+  const level = Math.min(match[1].length, 3);
+  return { blocks: [newTextBlock(context, `heading${level}`, parseText(match[2] || '', context))], end: start + 1 };
+};
+
+const parseThematicBreak: BlockParser = (lines, start, context) =>
+  THEMATIC_BREAK.test(lines[start]) ? { blocks: [newBlock(context, 'divider')], end: start + 1 } : null;
+
+// Text of the leading paragraphs, and everything after them as children
+const splitLeadingText = (blocks: Block[]) => {
+  const count = blocks.findIndex(block => block.type !== 'paragraph');
+  const paragraphs = count === -1 ? blocks : blocks.slice(0, count);
+  return {
+    richText: joinRichText(paragraphs.map(block => block.richText || [])),
+    children: blocks.slice(paragraphs.length)
+  };
+};
+
+const parseBlockquote: BlockParser = (lines, start, context) => {
+  if (!BLOCKQUOTE.test(lines[start])) return null;
+
+  const inner: string[] = [];
+  let index = start;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (BLOCKQUOTE.test(line)) {
+      inner.push(line.replace(BLOCKQUOTE, ''));
+    } else if (inner[inner.length - 1]?.trim() && !interruptsParagraph(line)) {
+      // Lazy continuation of a quoted paragraph
+      inner.push(line);
+    } else {
+      break;
+    }
+    index++;
+  }
+
+  const { richText, children } = splitLeadingText(parseNested(inner, context));
+  // Callouts are exported as quotes starting with their icon
+  const block = richTextToPlainText(richText).startsWith('💡')
+    ? newTextBlock(context, 'callout', trimCalloutIcon(richText))
+    : newTextBlock(context, 'quote', richText);
+  return { blocks: [children.length ? { ...block, children } : block], end: index };
+};
+
+// Drops the leading "💡 " of a callout exported by to-markdown.ts
+const trimCalloutIcon = (richText: RichText): RichText => {
+  const [first, ...rest] = richText;
+  const text = first.text.replace(/^💡\s*/u, '');
+  return text ? [{ ...first, text }, ...rest] : rest;
+};
+
+const parseList: BlockParser = (lines, start, context) => {
+  const first = isListItem(lines[start]) ? LIST_ITEM.exec(lines[start]) : null;
+  if (!first) return null;
+  const numbering = parseOrderedMarker(first[2]);
+  const ordered = !!numbering;
+  const delimiter = first[2].slice(-1);
+
+  const items: Block[] = [];
+  let index = start;
+  while (index < lines.length) {
+    const match = isListItem(lines[index]) ? LIST_ITEM.exec(lines[index]) : null;
+    // A different bullet, delimiter or numbering style starts a new list
+    if (!match || match[2].slice(-1) !== delimiter) break;
+    if (numbering && parseOrderedMarker(match[2], numbering.style)?.style !== numbering.style) break;
+
+    const markerEnd = match[1].length + match[2].length;
+    const spacing = match[3].length;
+    // Content more than four spaces after the marker is indented code
+    const contentIndent = markerEnd + (spacing === 0 || spacing > 4 ? 1 : spacing);
+    const itemLines = [lines[index].slice(Math.min(contentIndent, lines[index].length))];
+    index++;
+
+    while (index < lines.length) {
+      const line = lines[index];
+      if (!line.trim()) {
+        // Blank lines stay in the item only if it continues after them
+        let next = index;
+        while (next < lines.length && !lines[next].trim()) next++;
+        if (next === lines.length || indentOf(lines[next]) < contentIndent) break;
+        while (index < next) {
+          itemLines.push('');
+          index++;
+        }
+      } else if (indentOf(line) >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+        index++;
+      } else if (itemLines[itemLines.length - 1].trim() && !interruptsParagraph(line) && !isListItem(line)) {
+        itemLines.push(line.trim());
+        index++;
+      } else {
+        break;
+      }
+    }
+
+    // Numbering options go on the first item, where the editor reads them
+    const fields: Partial<Block> = {};
+    if (numbering && !items.length && numbering.value !== 1) fields.listStart = numbering.value;
+    if (numbering && !items.length && numbering.style !== 'decimal') fields.listStyle = numbering.style;
+    items.push(parseListItem(itemLines, ordered, context, fields));
+
+    let next = index;
+    while (next < lines.length && !lines[next].trim()) next++;
+    if (next < lines.length && isListItem(lines[next])) index = next;
+  }
+
+  return { blocks: items, end: index };
+};
+
+const parseListItem = (lines: string[], ordered: boolean, context: ParseContext, fields: Partial<Block>): Block => {
+  const task = ordered ? null : TASK_MARKER.exec(lines[0]);
+  const inner = parseNested(task ? [lines[0].slice(task[0].length), ...lines.slice(1)] : lines, context);
+  const [first, ...rest] = inner;
+  const hasText = first?.type === 'paragraph';
+  const type = task ? 'todo' : ordered ? 'numbered-list' : 'list';
+  const block = newTextBlock(context, type, hasText ? first.richText || [] : [], task ? { checked: task[1] !== ' ' } : fields);
+
+  const children = hasText ? rest : inner;
+  return children.length ? { ...block, children } : block;
+};
+
+const parseTable: BlockParser = (lines, start, context) => {
+  if (!isTableStart(lines, start)) return null;
+
+  const cellText = (cell: string) => richTextToPlainText(parseText(cell, context));
+  const headers = splitTableRow(lines[start]).map(cellText);
+  const rows: string[][] = [];
+
+  let index = start + 2;
+  while (index < lines.length && lines[index].trim() && !interruptsParagraph(lines[index])) {
+    const cells = splitTableRow(lines[index]).map(cellText);
+    rows.push(headers.map((_, column) => cells[column] || ''));
+    index++;
+  }
+
+  return { blocks: [newBlock(context, 'table', { tableData: { headers, rows } })], end: index };
+};
+
+// <details> blocks, which to-markdown.ts writes for toggles
+const parseDetails: BlockParser = (lines, start, context) => {
+  if (!DETAILS_OPEN.test(lines[start])) return null;
+
+  let end = start;
+  while (end < lines.length && !/<\/details>/i.test(lines[end])) end++;
+  if (end === lines.length) return null;
+
+  const source = lines.slice(start, end + 1).join('\n')
+    .replace(DETAILS_OPEN, '')
+    .replace(/<\/details>[\s\S]*$/i, '');
+  const summary = /<summary\b[^>]*>([\s\S]*?)<\/summary>/i.exec(source);
+  const body = summary ? source.slice(summary.index + summary[0].length) : source;
+
+  const block = newTextBlock(context, 'toggle', parseText(summary?.[1] || '', context));
+  const children = parseNested(body.split('\n'), context);
+  return { blocks: [children.length ? { ...block, children } : block], end: end + 1 };
+};
+
+const parseParagraph: BlockParser = (lines, start, context) => {
+  const paragraph = [lines[start]];
+  let index = start + 1;
+  let headingLevel = 0;
+
+  while (index < lines.length) {
+    const underline = SETEXT_UNDERLINE.exec(lines[index]);
+    if (underline) {
+      headingLevel = underline[1][0] === '=' ? 1 : 2;
+      index++;
+      break;
+    }
+    if (interruptsParagraph(lines[index]) || isTableStart(lines, index)) break;
+    paragraph.push(lines[index]);
+    index++;
+  }
+
+  const text = paragraph.map(line => line.trimStart()).join('\n').trim();
+  if (headingLevel) {
+    return { blocks: [newTextBlock(context, `heading${headingLevel}`, parseText(text, context))], end: index };
+  }
+
+  // A paragraph that is just an image becomes an image block
+  const image = text.startsWith('![') ? parseLink(text, 1, context) : null;
+  if (image && image.end === text.length) {
+    const alt = richTextToPlainText(parseText(image.label, context));
+    return { blocks: [newBlock(context, 'image', { content: image.url, fileName: alt || undefined })], end: index };
+  }
+
+  return { blocks: [newTextBlock(context, 'paragraph', parseText(text, context))], end: index };
+};
+
+// Tried in order; the paragraph parser accepts any line
+const blockParsers: BlockParser[] = [
+  parseIndentedCode,
+  parseFencedCode,
+  parseAtxHeading,
+  parseThematicBreak,
+  parseBlockquote,
+  parseList,
+  parseDetails,
+  parseTable,
+  parseParagraph
+];
+
+const parseLines = (lines: string[], context: ParseContext): Block[] => {
+  const blocks: Block[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (!lines[index].trim()) {
+      index++;
+      continue;
+    }
+    for (const parser of blockParsers) {
+      const result = parser(lines, index, context);
+      if (result) {
+        // Lists next to each other are one run in the editor, so a separate
+        // list (e.g. after a switch from '.' to ')') restarts explicitly
+        const [first] = result.blocks;
+        if (first?.type === 'numbered-list' && first.listStart === undefined && blocks[blocks.length - 1]?.type === 'numbered-list') {
+          result.blocks[0] = { ...first, listStart: 1 };
+        }
+        blocks.push(...result.blocks);
+        index = result.end;
+        break;
+      }
+    }
+  }
+  return blocks;
+};
+
+// Lines inside a quote, list item or toggle; past MAX_DEPTH they become one
+// plain paragraph
+const parseNested = (lines: string[], context: ParseContext): Block[] => {
+  if (context.depth < MAX_DEPTH) return parseLines(lines, { ...context, depth: context.depth + 1 });
+  const text = lines.join('\n').trim();
+  return text ? [newTextBlock(context, 'paragraph', richTextFromPlainText(text))] : [];
+};
+
+// Removes link reference definitions outside code, collecting their URLs
+const extractDefinitions = (lines: string[]) => {
+  const definitions = new Map<string, string>();
+  let fence: string | null = null;
+
+  const remaining = lines.filter(line => {
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch && (!fence || fenceMatch[2].startsWith(fence))) {
+      fence = fence ? null : fenceMatch[2];
+      return true;
+    }
+    const definition = !fence && DEFINITION.exec(line);
+    if (!definition) return true;
+
+    const label = normalizeLabel(definition[1]);
+    if (!definitions.has(label)) definitions.set(label, unescapeMarkdown(definition[2]));
+    return false;
+  });
+
+  return { lines: remaining, definitions };
+};
+
+export const markdownToBlocks = (markdown: string): Block[] => {
+  // Leading tabs count as four spaces
+  const source = markdown.replace(/\r\n?/g, '\n').split('\n')
+    .map(line => line.replace(/^[ \t]+/, indent => indent.replace(/\t/g, '    ')));
+  const { lines, definitions } = extractDefinitions(source);
+
+  return parseLines(lines, { definitions, nextId: createBlockId, depth: 0 });
+};
+
+// Bold, strikethrough, code and links. The bounded repeats keep the check
+// linear on long pastes.
+const INLINE_SYNTAX = /(\*\*|__|~~)(?=\S)[^\n]{0,200}?\S\1|`[^`\n]{1,200}`|\[[^\]\n]{1,200}\]\([^)\s]{1,500}\)/;
+
+// Whether pasted text is worth offering as blocks: inline Markdown, a
+// heading, or several lines with at least one of them Markdown block syntax.
+// A single line such as "2020. A year" or "- 5" is more likely plain text.
+export const looksLikeMarkdown = (text: string) => {
+  const lines = text.split(/\r?\n/);
+  const filled = lines.filter(line => line.trim());
+  if (INLINE_SYNTAX.test(text)) return true;
+  if (filled.length === 1) return !!ATX_HEADING.exec(filled[0])?.[2];
+  return lines.some((line, index) =>
+    ATX_HEADING.test(line) ||
+    FENCE.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    isListItem(line) ||
+    isTableStart(lines, index));
+};
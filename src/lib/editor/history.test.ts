@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryEntry, createHistory, pushHistory, redoHistory, undoHistory } from './history';
+
+const entry = (before: number, after: number, fields: Partial<HistoryEntry<number>> = {}): HistoryEntry<number> => ({
+  before,
+  after,
+  selectionBefore: null,
+  selectionAfter: null,
+  timestamp: 0,
+  ...fields
+});
+
+describe('history', () => {
+  it('undoes and redoes entries in order', () => {
+    let history = pushHistory(pushHistory(createHistory<number>(), entry(0, 1)), entry(1, 2));
+
+    const first = undoHistory(history)!;
+    expect(first.entry.before).toBe(1);
+    const second = undoHistory(first.history)!;
+    expect(second.entry.before).toBe(0);
+    expect(undoHistory(second.history)).toBeNull();
+
+    history = second.history;
+    const redone = redoHistory(history)!;
+    expect(redone.entry.after).toBe(1);
+    expect(redone.history.undoStack).toHaveLength(1);
+    expect(redone.history.redoStack).toHaveLength(1);
+  });
+
+  it('clears the redo stack on a new edit', () => {
+    const undone = undoHistory(pushHistory(createHistory<number>(), entry(0, 1)))!;
+    const history = pushHistory(undone.history, entry(0, 5));
+    expect(history.redoStack).toEqual([]);
+    expect(redoHistory(history)).toBeNull();
+  });
+
+  it('merges entries of one group within the delay', () => {
+    const selection = { blockId: 'a', start: 0, end: 0 };
+    let history = pushHistory(createHistory<number>(), entry(0, 1, { group: 'typing', timestamp: 0, selectionBefore: selection }));
+    history = pushHistory(history, entry(1, 2, { group: 'typing', timestamp: 500 }));
+    expect(history.undoStack).toHaveLength(1);
+    expect(history.undoStack[0]).toMatchObject({ before: 0, after: 2, selectionBefore: selection });
+
+    history = pushHistory(history, entry(2, 3, { group: 'typing', timestamp: 2000 }));
+    expect(history.undoStack).toHaveLength(2);
+    history = pushHistory(history, entry(3, 4, { group: 'other', timestamp: 2100 }));
+    expect(history.undoStack).toHaveLength(3);
+  });
+
+  it('keeps at most `limit` entries, dropping the oldest', () => {
+    let history = createHistory<number>();
+    for (let i = 0; i < 5; i++) history = pushHistory(history, entry(i, i + 1), { limit: 3 });
+    expect(history.undoStack.map(saved => saved.before)).toEqual([2, 3, 4]);
+  });
+});
@@ -0,0 +1,78 @@
+// Transaction history for undo/redo. Each entry stores the document before and
+// after a change, plus where the caret was, so both directions can be replayed.
+
+export interface HistorySelection {
+  blockId: string;
+  field?: string;     // Which editable region of the block, when it has several
+  start: number;
+  end: number;
+}
+
+export interface HistoryEntry<T> {
+  before: T;
+  after: T;
+  selectionBefore: HistorySelection | null;
+  selectionAfter: HistorySelection | null;
+  group?: string;     // Consecutive entries with the same group merge, e.g. typing in one block
+  timestamp: number;
+}
+
+export interface History<T> {
+  undoStack: HistoryEntry<T>[];
+  redoStack: HistoryEntry<T>[];
+}
+
+export interface PushOptions {
+  groupDelay?: number;  // Max pause (ms) between edits that still merge into one entry
+  limit?: number;       // Max undo steps kept
+}
+
+export const createHistory = <T>(): History<T> => ({ undoStack: [], redoStack: [] });
+
+export const pushHistory = <T>(
+  history: History<T>,
+  entry: HistoryEntry<T>,
+  { groupDelay = 1000, limit = 100 }: PushOptions = {}
+): History<T> => {
+  const last = history.undoStack[history.undoStack.length - 1];
+  const merges = !!last && !!entry.group && last.group === entry.group &&
+    entry.timestamp - last.timestamp <= groupDelay;
+
+  const undoStack = merges
+    ? [
+        ...history.undoStack.slice(0, -1),
+        { ...entry, before: last.before, selectionBefore: last.selectionBefore }
+      ]
+    : [...history.undoStack, entry];
+
+  return {
+    undoStack: undoStack.slice(-limit),
+    redoStack: []
+  };
+};
+
+export const undoHistory = <T>(history: History<T>): { history: History<T>; entry: HistoryEntry<T> } | null => {
+  const entry = history.undoStack[history.undoStack.length - 1];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: {
+      undoStack: history.undoStack.slice(0, -1),
+      redoStack: [...history.redoStack, entry]
+    }
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): { history: History<T>; entry: HistoryEntry<T> } | null => {
+  const entry = history.redoStack[history.redoStack.length - 1];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: {
+      undoStack: [...history.undoStack, entry],
+      redoStack: history.redoStack.slice(0, -1)
+    }
+  };
+};
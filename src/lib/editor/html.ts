@@ -0,0 +1,56 @@
+// Small HTML tokenizer shared by the rich-text reader and the sanitizer. It
+// works on strings, so neither needs a DOM.
+
+export type HtmlToken =
+  | { type: 'text'; text: string }
+  | { type: 'open'; tag: string; attributes: [string, string][]; selfClosing: boolean }
+  | { type: 'close'; tag: string };
+
+export const VOID_TAGS = new Set(['br', 'img', 'hr', 'input', 'wbr', 'meta', 'link', 'col', 'source', 'area', 'base', 'embed', 'param', 'track']);
+
+const TOKEN = /<!--[\s\S]*?-->|<\/?([a-zA-Z][\w:-]*)((?:\s+[^\s/>"'=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|[^<]+|</g;
+const ATTRIBUTE = /([^\s/>"'=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const ENTITIES = new Map(Object.entries({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' }));
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES.get(entity.toLowerCase()) ?? match;
+  });
+
+// Escaped the way browsers serialize innerHTML, so output can be compared with it
+export const escapeText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\u00a0/g, '&nbsp;');
+
+export const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/\u00a0/g, '&nbsp;');
+
+const parseAttributes = (source: string): [string, string][] =>
+  Array.from(source.matchAll(ATTRIBUTE), ([, name, double, single, bare]) =>
+    [name.toLowerCase(), decodeEntities(double ?? single ?? bare ?? '')] as [string, string]);
+
+export const parseStyle = (style = ''): [string, string][] =>
+  style.split(';').flatMap(declaration => {
+    const [property, ...value] = declaration.split(':');
+    return property.trim() && value.length
+      ? [[property.trim().toLowerCase(), value.join(':').trim()] as [string, string]]
+      : [];
+  });
+
+// Comments are dropped; text comes back with entities decoded
+export function* tokenizeHtml(html: string): Generator<HtmlToken> {
+  for (const [token, tag, attributes = '', slash] of html.matchAll(TOKEN)) {
+    if (token.startsWith('<!--')) continue;
+
+    if (!tag) {
+      yield { type: 'text', text: decodeEntities(token) };
+    } else if (token.startsWith('</')) {
+      yield { type: 'close', tag: tag.toLowerCase() };
+    } else {
+      yield { type: 'open', tag: tag.toLowerCase(), attributes: parseAttributes(attributes), selfClosing: !!slash };
+    }
+  }
+}
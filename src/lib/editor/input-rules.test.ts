@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { applyInlineInputRule, blockInputRules, matchBlockInputRule } from './input-rules';
+import { RichText } from './rich-text';
+
+// Rich text and caret after typing `text`, with the caret at its end
+const typed = (text: string, marks?: RichText[number]['marks']) =>
+  applyInlineInputRule([{ text, ...(marks && { marks }) }], text.length);
+
+describe('block input rules', () => {
+  it.each(blockInputRules.map(rule => [rule.trigger, rule.type]))('turns "%s" into %s', (trigger, type) => {
+    expect(matchBlockInputRule(`${trigger}text`, trigger.length)?.type).toBe(type);
+  });
+
+  it('only matches the text before the caret at the start of a block', () => {
+    expect(matchBlockInputRule('# ', 2)?.type).toBe('heading1');
+    expect(matchBlockInputRule('## ', 2)).toBeUndefined();
+    expect(matchBlockInputRule('a # ', 4)).toBeUndefined();
+    expect(matchBlockInputRule('#text', 1)).toBeUndefined();
+    expect(matchBlockInputRule('', 0)).toBeUndefined();
+  });
+
+  it('takes the rules to match against', () => {
+    expect(matchBlockInputRule('!! ', 3, [{ trigger: '!! ', type: 'callout' }])?.type).toBe('callout');
+    expect(matchBlockInputRule('# ', 2, [])).toBeUndefined();
+  });
+});
+
+describe('inline input rules', () => {
+  it('formats text between a pair of delimiters', () => {
+    expect(typed('say **hi**')).toEqual({ richText: [{ text: 'say ' }, { text: 'hi', marks: { bold: true } }], caret: 6 });
+    expect(typed('say _hi_')).toEqual({ richText: [{ text: 'say ' }, { text: 'hi', marks: { italic: true } }], caret: 6 });
+    expect(typed('run `npm test`')).toEqual({ richText: [{ text: 'run ' }, { text: 'npm test', marks: { code: true } }], caret: 12 });
+  });
+
+  it('keeps the text after the caret', () => {
+    expect(applyInlineInputRule([{ text: '_a_ rest' }], 3)).toEqual({
+      richText: [{ text: 'a', marks: { italic: true } }, { text: ' rest' }],
+      caret: 1
+    });
+  });
+
+  it('adds to marks the text already has', () => {
+    expect(typed('**x**', { italic: true })?.richText).toEqual([{ text: 'x', marks: { italic: true, bold: true } }]);
+  });
+
+  it('leaves text alone that should not be formatted', () => {
+    // No opening delimiter, or nothing between the pair
+    expect(typed('hi**')).toBeNull();
+    expect(typed('****')).toBeNull();
+    // Whitespace just inside the delimiters
+    expect(typed('** hi**')).toBeNull();
+    expect(typed('_hi _')).toBeNull();
+    // Part of a longer run, e.g. '***'
+    expect(typed('**a*b**')).toBeNull();
+    // Underscores inside words, e.g. snake_case_names
+    expect(typed('snake_case_')).toBeNull();
+    // Delimiters inside code
+    expect(typed('**a**', { code: true })).toBeNull();
+    // The closing delimiter must end at the caret
+    expect(applyInlineInputRule([{ text: '**a** b' }], 7)).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import type { BlockType } from './blocks';
+import { RichText, ToggleMarkType, addMarks, getActiveMarks, insertText, richTextToPlainText } from './rich-text';
+
+// Markdown-style shortcuts applied while typing
+
+export interface BlockInputRule {
+  trigger: string;   // Typed at the start of a block, e.g. '# '
+  type: BlockType;   // Type the block changes to
+}
+
+export interface InlineInputRule {
+  delimiter: string; // Typed around text, e.g. '**'
+  mark: ToggleMarkType;
+}
+
+export const blockInputRules: BlockInputRule[] = [
+  { trigger: '# ', type: 'heading1' },
+  { trigger: '## ', type: 'heading2' },
+  { trigger: '### ', type: 'heading3' },
+  { trigger: '- ', type: 'list' },
+  { trigger: '* ', type: 'list' },
+  { trigger: '1. ', type: 'numbered-list' },
+  { trigger: '[] ', type: 'todo' },
+  { trigger: '> ', type: 'quote' },
+  { trigger: '>> ', type: 'toggle' },
+  { trigger: '```', type: 'code' },
+  { trigger: '---', type: 'divider' }
+];
+
+export const inlineInputRules: InlineInputRule[] = [
+  { delimiter: '**', mark: 'bold' },
+  { delimiter: '_', mark: 'italic' },
+  { delimiter: '`', mark: 'code' }
+];
+
+// Block rule whose trigger is exactly the text before the caret
+export const matchBlockInputRule = (text: string, caret: number, rules = blockInputRules) => {
+  const before = text.slice(0, caret);
+  return rules.find(rule => rule.trigger === before);
+};
+
+// Applies the inline rule whose closing delimiter ends at the caret. Returns
+// the new rich text and caret, or null when no rule matches.
+export const applyInlineInputRule = (richText: RichText, caret: number, rules = inlineInputRules) => {
+  const text = richTextToPlainText(richText).slice(0, caret);
+
+  for (const { delimiter, mark } of rules) {
+    if (!text.endsWith(delimiter)) continue;
+    const closeStart = caret - delimiter.length;
+    const openStart = text.lastIndexOf(delimiter, closeStart - delimiter.length);
+    if (openStart === -1) continue;
+
+    const inner = text.slice(openStart + delimiter.length, closeStart);
+    // `**` typed as part of `***`, or delimiters around whitespace, are left alone
+    if (!inner.trim() || inner !== inner.trim() || inner.includes(delimiter[0])) continue;
+    // Underscores inside words are not emphasis
+    if (delimiter === '_' && /\w/.test(text[openStart - 1] || '')) continue;
+    // Nothing inside code is formatting
+    if (getActiveMarks(richText, openStart, caret).code) continue;
+
+    let result = insertText(richText, closeStart, caret, '');
+    result = insertText(result, openStart, openStart + delimiter.length, '');
+    result = addMarks(result, openStart, openStart + inner.length, { [mark]: true });
+    return { richText: result, caret: openStart + inner.length };
+  }
+  return null;
+};
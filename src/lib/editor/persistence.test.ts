@@ -0,0 +1,78 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import '@/components/editor/blocks';
+import { serializeDocument } from './document';
+import {
+  PersistenceAdapter,
+  createIndexedDBAdapter,
+  createLocalStorageAdapter,
+  isStoredMediaUrl,
+  loadMedia,
+  storeMedia
+} from './persistence';
+
+const document = serializeDocument([{ id: 'a', type: 'paragraph', content: 'saved' }], { updatedAt: '2024-05-01T00:00:00.000Z' });
+
+// Saves, loads and removes a draft through `adapter`
+const roundTrip = async (adapter: PersistenceAdapter) => {
+  expect(await adapter.load('doc')).toBeNull();
+  await adapter.save('doc', document);
+  expect(await adapter.load('doc')).toEqual(document);
+  expect(await adapter.load('other')).toBeNull();
+  await adapter.remove('doc');
+  expect(await adapter.load('doc')).toBeNull();
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('localStorage adapter', () => {
+  it('keeps drafts under its prefix', async () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+    const adapter = createLocalStorageAdapter('test:');
+    expect(adapter.local).toBe(true);
+    await adapter.save('doc', document);
+    expect(Array.from(storage.keys())).toEqual(['test:doc']);
+    await adapter.remove('doc');
+    await roundTrip(adapter);
+  });
+});
+
+describe('IndexedDB adapter', () => {
+  it('saves, loads and removes drafts', async () => {
+    await roundTrip(createIndexedDBAdapter());
+  });
+
+  it('keeps drafts apart by key', async () => {
+    const adapter = createIndexedDBAdapter();
+    const other = serializeDocument([]);
+    await adapter.save('first', document);
+    await adapter.save('second', other);
+    expect(await adapter.load('first')).toEqual(document);
+    expect(await adapter.load('second')).toEqual(other);
+  });
+});
+
+describe('media store', () => {
+  it('keeps files in IndexedDB behind media: URLs', async () => {
+    const url = await storeMedia(new Blob(['image bytes'], { type: 'image/png' }));
+    expect(isStoredMediaUrl(url)).toBe(true);
+    expect(url).not.toBe(await storeMedia(new Blob(['other'])));
+
+    const blob = await loadMedia(url);
+    expect(blob?.type).toBe('image/png');
+    expect(await blob?.text()).toBe('image bytes');
+  });
+
+  it('finds nothing for other or unknown URLs', async () => {
+    expect(isStoredMediaUrl('https://example.com/a.png')).toBe(false);
+    expect(await loadMedia('https://example.com/a.png')).toBeNull();
+    expect(await loadMedia('media:missing')).toBeNull();
+  });
+});
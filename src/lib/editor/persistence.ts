@@ -0,0 +1,152 @@
+import { randomBlockId } from './blocks';
+import type { StoredDocument } from './document';
+
+// Storage for editor drafts and saved versions. Adapters keep stored documents
+// under a key; uploaded media go into IndexedDB and blocks refer to them by a
+// `media:` URL, so drafts stay small.
+
+export interface PersistenceAdapter {
+  load: (key: string) => Promise<StoredDocument | null>;
+  save: (key: string, document: StoredDocument) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  // Saves without a network connection; remote adapters leave this out and
+  // autosave waits until the browser is back online
+  local?: boolean;
+}
+
+export const createLocalStorageAdapter = (prefix = 'block-editor:draft:'): PersistenceAdapter => ({
+  local: true,
+  load: async (key) => {
+    const stored = localStorage.getItem(prefix + key);
+    return stored ? JSON.parse(stored) as StoredDocument : null;
+  },
+  save: async (key, document) => {
+    localStorage.setItem(prefix + key, JSON.stringify(document));
+  },
+  remove: async (key) => {
+    localStorage.removeItem(prefix + key);
+  }
+});
+
+// A saved version of a document
+export interface Snapshot {
+  id: string;
+  name?: string;        // Given to versions saved by hand; periodic ones have none
+  createdAt: string;    // ISO date
+  authorId?: string;
+  document: StoredDocument;
+}
+
+// Keeps every version of the document under `key`; list returns the oldest first
+export interface SnapshotAdapter {
+  list: (key: string) => Promise<Snapshot[]>;
+  save: (key: string, snapshot: Snapshot) => Promise<void>;
+  remove: (key: string, id: string) => Promise<void>;
+}
+
+export const createLocalStorageSnapshotAdapter = (prefix = 'block-editor:snapshots:'): SnapshotAdapter => {
+  const read = (key: string): Snapshot[] => JSON.parse(localStorage.getItem(prefix + key) || '[]');
+  const write = (key: string, snapshots: Snapshot[]) => localStorage.setItem(prefix + key, JSON.stringify(snapshots));
+  return {
+    list: async (key) => read(key),
+    save: async (key, snapshot) => {
+      write(key, [...read(key).filter(saved => saved.id !== snapshot.id), snapshot]);
+    },
+    remove: async (key, id) => {
+      write(key, read(key).filter(saved => saved.id !== id));
+    }
+  };
+};
+
+const DATABASE_NAME = 'block-editor';
+const DOCUMENT_STORE = 'documents';
+const MEDIA_STORE = 'media';
+const SNAPSHOT_STORE = 'snapshots';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DATABASE_NAME, 2);
+    // Databases from an older version already have some of the stores
+    request.onupgradeneeded = () => {
+      [DOCUMENT_STORE, MEDIA_STORE, SNAPSHOT_STORE].forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open is retried next time
+  database.catch(() => { database = null; });
+  return database;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Holds larger documents than localStorage, and saves off the main thread
+export const createIndexedDBAdapter = (): PersistenceAdapter => ({
+  local: true,
+  load: async (key) => (await runRequest<StoredDocument | undefined>(DOCUMENT_STORE, 'readonly', store => store.get(key))) || null,
+  save: async (key, document) => {
+    await runRequest(DOCUMENT_STORE, 'readwrite', store => store.put(document, key));
+  },
+  remove: async (key) => {
+    await runRequest(DOCUMENT_STORE, 'readwrite', store => store.delete(key));
+  }
+});
+
+// Snapshots are stored as `<document key>/<snapshot id>`, so one key range holds a document's versions
+const snapshotRange = (key: string) => IDBKeyRange.bound(`${key}/`, `${key}/\uffff`);
+
+export const createIndexedDBSnapshotAdapter = (): SnapshotAdapter => ({
+  list: async (key) => {
+    const snapshots = await runRequest<Snapshot[]>(SNAPSHOT_STORE, 'readonly', store => store.getAll(snapshotRange(key)));
+    return snapshots.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+  save: async (key, snapshot) => {
+    await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.put(snapshot, `${key}/${snapshot.id}`));
+  },
+  remove: async (key, id) => {
+    await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.delete(`${key}/${id}`));
+  }
+});
+
+export const MEDIA_URL_PREFIX = 'media:';
+
+export const isStoredMediaUrl = (url: string) => url.startsWith(MEDIA_URL_PREFIX);
+
+// Files that could not go into IndexedDB last until the page is closed
+const memoryMedia = new Map<string, Blob>();
+
+// Keeps an uploaded file in IndexedDB and returns the `media:` URL blocks store
+export const storeMedia = async (file: Blob): Promise<string> => {
+  const id = randomBlockId();
+  try {
+    await runRequest(MEDIA_STORE, 'readwrite', store => store.put(file, id));
+  } catch {
+    memoryMedia.set(id, file);
+  }
+  return MEDIA_URL_PREFIX + id;
+};
+
+export const loadMedia = async (url: string): Promise<Blob | null> => {
+  if (!isStoredMediaUrl(url)) return null;
+  const id = url.slice(MEDIA_URL_PREFIX.length);
+  return memoryMedia.get(id) || (await runRequest<Blob | undefined>(MEDIA_STORE, 'readonly', store => store.get(id))) || null;
+};
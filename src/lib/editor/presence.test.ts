@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { getCollaboratorColor, getCollaboratorInitials, parsePresenceState } from './presence';
+
+const user = { id: 'u1', name: 'Ada Lovelace' };
+
+describe('parsePresenceState', () => {
+  it('keeps a well-formed state', () => {
+    const state = {
+      user: { ...user, color: '#2563eb', avatarUrl: 'https://example.com/ada.png' },
+      cursor: { blockId: 'a', field: 'caption', start: 1, end: 4, relativeStart: { item: null }, relativeEnd: { item: null } }
+    };
+    expect(parsePresenceState(state)).toEqual(state);
+    expect(parsePresenceState({ user, cursor: null })).toEqual({ user, cursor: null });
+  });
+
+  it.each([
+    ['nothing', undefined],
+    ['null', null],
+    ['a string', 'state'],
+    ['an array', []],
+    ['no user', { cursor: null }],
+    ['a user without an id', { user: { name: 'Ada' } }],
+    ['a numeric id', { user: { id: 1, name: 'Ada' } }],
+    ['a name that is not a string', { user: { id: 'u1', name: { first: 'Ada' } } }]
+  ])('drops %s', (_, value) => {
+    expect(parsePresenceState(value)).toBeNull();
+  });
+
+  it.each([
+    ['a missing block id', { start: 0, end: 0 }],
+    ['fractional offsets', { blockId: 'a', start: 0.5, end: 1 }],
+    ['negative offsets', { blockId: 'a', start: -1, end: 0 }],
+    ['offsets given as strings', { blockId: 'a', start: '0', end: '1' }],
+    ['a field that is not a string', { blockId: 'a', field: 3, start: 0, end: 0 }],
+    ['a cursor that is not an object', 'a:0']
+  ])('keeps the user but drops a cursor with %s', (_, cursor) => {
+    expect(parsePresenceState({ user, cursor })).toEqual({ user, cursor: null });
+  });
+
+  it('drops unsafe colors and avatar URLs', () => {
+    const state = parsePresenceState({
+      user: { ...user, color: 'red;background:url(https://evil.example)', avatarUrl: 'javascript:alert(1)' },
+      cursor: null
+    });
+    expect(state?.user).toEqual(user);
+    expect(parsePresenceState({ user: { ...user, avatarUrl: ' java\tscript:alert(1)' }, cursor: null })?.user).toEqual(user);
+    expect(parsePresenceState({ user: { ...user, color: 7, avatarUrl: {} }, cursor: null })?.user).toEqual(user);
+  });
+
+  it('keeps only known fields', () => {
+    const hostile = JSON.parse(
+      '{"user":{"id":"u1","name":"Ada","__proto__":{"admin":true},"isAdmin":true},' +
+      '"cursor":{"blockId":"a","start":0,"end":2,"__proto__":{"polluted":true},"html":"<img>"},"extra":1}'
+    );
+    const state = parsePresenceState(hostile)!;
+    expect(state).toEqual({ user: { id: 'u1', name: 'Ada' }, cursor: { blockId: 'a', start: 0, end: 2 } });
+    expect(Object.keys(state)).toEqual(['user', 'cursor']);
+    expect(Object.getPrototypeOf(state.user)).toBe(Object.prototype);
+    expect(Object.getPrototypeOf(state.cursor)).toBe(Object.prototype);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('copes with very long names and ids', () => {
+    const long = 'x'.repeat(100000);
+    expect(parsePresenceState({ user: { id: long, name: long }, cursor: null })?.user.name).toHaveLength(100000);
+  });
+});
+
+describe('collaborator display', () => {
+  it('uses a safe color of their own or one picked from the id', () => {
+    expect(getCollaboratorColor({ ...user, color: '#16a34a' })).toBe('#16a34a');
+    const picked = getCollaboratorColor({ ...user, color: 'url(x)' });
+    expect(picked).toMatch(/^#[0-9a-f]{6}$/);
+    expect(getCollaboratorColor(user)).toBe(picked);
+  });
+
+  it('shows up to two initials', () => {
+    expect(getCollaboratorInitials(user)).toBe('AL');
+    expect(getCollaboratorInitials({ id: 'u2', name: ' grace  brewster murray ' })).toBe('GB');
+    expect(getCollaboratorInitials({ id: 'u3', name: '   ' })).toBe('?');
+  });
+});
@@ -0,0 +1,86 @@
+import { isSafeColor } from './rich-text';
+import { sanitizeUrl } from './sanitize';
+
+// Presence: who else has a shared document open and where their caret is.
+// It travels through an awareness channel, separate from the document itself:
+// each client publishes its own state and hears everyone else's, and nothing
+// is stored once a client leaves.
+
+export interface CollaboratorUser {
+  id: string;
+  name: string;
+  color?: string;       // Caret and outline color; picked from the user id when left out
+  avatarUrl?: string;
+}
+
+export interface PresenceCursor {
+  blockId: string;
+  field?: string;                // As in HistorySelection
+  start: number;
+  end: number;
+  // The same offsets as CRDT positions, which stay with the text around them
+  // while others edit; only set for the main text of text blocks
+  relativeStart?: unknown;
+  relativeEnd?: unknown;
+}
+
+export interface PresenceState {
+  user: CollaboratorUser;
+  cursor: PresenceCursor | null;   // Null while the caret is outside the document
+}
+
+export interface Collaborator extends PresenceState {
+  clientId: string;   // One per open copy, so a user with two tabs shows twice
+}
+
+export interface AwarenessChannel {
+  // Publishes this client's state; null says it has left
+  setLocalState: (state: PresenceState | null) => void;
+  // Calls `listener` with the other clients now and whenever one changes.
+  // Returns a function that stops listening.
+  subscribe: (listener: (collaborators: Collaborator[]) => void) => () => void;
+}
+
+const COLLABORATOR_COLORS = ['#e11d48', '#ea580c', '#ca8a04', '#16a34a', '#0891b2', '#2563eb', '#7c3aed', '#c026d3'];
+
+// The user's own color if it is a safe one, otherwise one derived from their id
+export const getCollaboratorColor = (user: CollaboratorUser) => {
+  if (user.color && isSafeColor(user.color)) return user.color;
+  let hash = 0;
+  for (const char of user.id) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+};
+
+export const getCollaboratorInitials = (user: CollaboratorUser) =>
+  user.name.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('') || '?';
+
+// States come from other clients, so anything malformed is dropped, only
+// known fields are kept and avatars only load from allowed media URLs
+export const parsePresenceState = (value: unknown): PresenceState | null => {
+  const state = value as Partial<PresenceState> | null;
+  const user = state?.user;
+  if (!user || typeof user.id !== 'string' || typeof user.name !== 'string') return null;
+
+  const cursor = state.cursor;
+  const validCursor = !!cursor && typeof cursor.blockId === 'string' &&
+    Number.isInteger(cursor.start) && Number.isInteger(cursor.end) && cursor.start >= 0 && cursor.end >= 0 &&
+    (cursor.field === undefined || typeof cursor.field === 'string');
+  const avatarUrl = typeof user.avatarUrl === 'string' ? sanitizeUrl(user.avatarUrl, 'media') : null;
+
+  return {
+    user: {
+      id: user.id,
+      name: user.name,
+      ...(typeof user.color === 'string' && isSafeColor(user.color) && { color: user.color }),
+      ...(avatarUrl && { avatarUrl })
+    },
+    cursor: cursor && validCursor ? {
+      blockId: cursor.blockId,
+      ...(cursor.field !== undefined && { field: cursor.field }),
+      start: cursor.start,
+      end: cursor.end,
+      ...(cursor.relativeStart !== undefined && { relativeStart: cursor.relativeStart }),
+      ...(cursor.relativeEnd !== undefined && { relativeEnd: cursor.relativeEnd })
+    } : null
+  };
+};
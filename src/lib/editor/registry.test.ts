@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import '@/components/editor/blocks';
+import { Block } from './blocks';
+import { getBlockType, getBlockTypeGroups, getBlockTypes, registerBlockType, unregisterBlockType } from './registry';
+
+describe('slash menu groups', () => {
+  it('lists every built-in type once, in a named group', () => {
+    const groups = getBlockTypeGroups();
+    expect(groups.map(([group]) => group)).toEqual(['Basic blocks', 'Media', 'Advanced']);
+    expect(groups.flatMap(([, definitions]) => definitions)).toHaveLength(getBlockTypes().length);
+  });
+
+  it('keeps registration order within a group', () => {
+    const [, basic] = getBlockTypeGroups()[0];
+    const order = getBlockTypes().filter(definition => definition.group === 'Basic blocks');
+    expect(basic).toEqual(order);
+    expect(basic[0].type).toBe('paragraph');
+  });
+
+  it('puts types without a group under Other', () => {
+    const type = 'poll' as Block['type'];
+    registerBlockType({ type, label: 'Poll', icon: () => null, description: 'Ask a question' });
+    try {
+      const groups = getBlockTypeGroups();
+      expect(groups[groups.length - 1]).toEqual(['Other', [getBlockType(type)]]);
+    } finally {
+      unregisterBlockType(type);
+    }
+    expect(getBlockTypeGroups().map(([group]) => group)).not.toContain('Other');
+  });
+
+  it('gives common types the aliases people search for', () => {
+    expect(getBlockType('heading1')?.aliases).toContain('h1');
+    expect(getBlockType('divider')?.aliases).toContain('hr');
+    expect(getBlockType('image')?.aliases).toContain('img');
+  });
+});
@@ -0,0 +1,108 @@
+import type { ComponentType, ReactNode } from 'react';
+import type { Block, BlockType } from './blocks';
+import type { MarkdownContext } from './to-markdown';
+
+export interface BlockRenderProps {
+  block: Block;
+  index: number;                                    // Position of the block among its siblings
+  blocks: Block[];                                  // The block's siblings, e.g. for numbering
+  depth: number;                                    // Nesting level; 0 at the top of the document
+  childBlocks: ReactNode;                           // Rendered children, for types with `wrapsChildren`
+  readOnly: boolean;
+  // Pass a group (e.g. 'cell-0-1') so a run of edits to the same thing undoes as one step
+  updateBlock: (updates: Partial<Block>, options?: { group?: string }) => void;
+  updateSibling: (id: string, updates: Partial<Block>) => void;  // E.g. the first item of a list
+  addChildBlock: (type: BlockType) => void;         // Appends a new child and focuses it
+  openMediaPicker: (kind: 'image' | 'file') => void;
+  onTextSelect: (e: React.MouseEvent) => void;      // Wire to onMouseUp of extra editable regions
+}
+
+export interface BlockTypeDefinition {
+  type: BlockType;
+  label: string;
+  icon: ComponentType<{ className?: string }>;
+  description: string;
+  // Slash menu section; types without one are listed under 'Other'
+  group?: string;
+  // Extra words the slash menu matches, e.g. 'h1'
+  aliases?: string[];
+  // Type-specific fields a new block starts with
+  defaults?: () => Partial<Block>;
+  // Renders the whole block body. Leave out for text blocks, which the editor
+  // renders as an editable region styled with `className`.
+  render?: (props: BlockRenderProps) => ReactNode;
+  // Adds chrome around a text block's editable region (bullets, checkboxes...)
+  decorate?: (props: BlockRenderProps, text: ReactNode) => ReactNode;
+  // Places `childBlocks` itself (toggle and callout bodies). Children of
+  // other types are shown indented below the block.
+  wrapsChildren?: boolean;
+  // Block field edited by the text region; defaults to `content`
+  textField?: 'content' | 'toggleTitle';
+  // `content` holds a URL of this kind, checked against the sanitizer policy
+  contentUrl?: 'media' | 'link';
+  className?: string;
+  placeholder?: string;
+  alignable?: boolean;
+  // Converts a block to its JSON-safe stored form
+  serialize?: (block: Block) => Record<string, unknown>;
+  // Rebuilds a block from the form `serialize` produced
+  deserialize?: (data: Record<string, unknown>) => Block;
+  // Brings data the type can still read into shape on load, e.g. dates that
+  // older documents kept as strings. Returns the block itself when it is fine.
+  repair?: (block: Block) => Block;
+  // Markdown for the block; without it the block's text is exported
+  toMarkdown?: (block: Block, context: MarkdownContext) => string;
+  // Returns an error message when the block's type-specific data is invalid
+  validate?: (block: Block) => string | undefined;
+}
+
+const registry = new Map<string, BlockTypeDefinition>();
+
+export const registerBlockType = (definition: BlockTypeDefinition) => {
+  registry.set(definition.type, definition);
+};
+
+export const unregisterBlockType = (type: BlockType) => {
+  registry.delete(type);
+};
+
+export const getBlockType = (type: BlockType): BlockTypeDefinition | undefined => registry.get(type);
+
+// Registered types in registration order
+export const getBlockTypes = (): BlockTypeDefinition[] => Array.from(registry.values());
+
+const OTHER_GROUP = 'Other';
+
+// Registered types by their slash menu `group`, in registration order
+export const getBlockTypeGroups = (): [string, BlockTypeDefinition[]][] => {
+  const groups = new Map<string, BlockTypeDefinition[]>();
+  getBlockTypes().forEach(definition => {
+    const group = definition.group || OTHER_GROUP;
+    groups.set(group, [...(groups.get(group) || []), definition]);
+  });
+  return Array.from(groups);
+};
+
+export const serializeBlock = (block: Block): Record<string, unknown> => {
+  const definition = getBlockType(block.type);
+  const serialized = definition?.serialize ? definition.serialize(block) : { ...block };
+  if (block.children?.length) serialized.children = serializeBlocks(block.children);
+  return serialized;
+};
+
+export const serializeBlocks = (blocks: Block[]): Record<string, unknown>[] => blocks.map(serializeBlock);
+
+export const deserializeBlock = (data: Record<string, unknown>): Block => {
+  const definition = getBlockType(data.type as BlockType);
+  const block = definition?.deserialize ? definition.deserialize(data) : { ...data } as unknown as Block;
+  if (Array.isArray(data.children)) block.children = deserializeBlocks(data.children);
+  return block;
+};
+
+export const deserializeBlocks = (data: Record<string, unknown>[]): Block[] => data.map(deserializeBlock);
+
+export const validateBlock = (block: Block): string | undefined => {
+  const definition = getBlockType(block.type);
+  if (!definition) return `Unknown block type "${block.type}"`;
+  return definition.validate?.(block);
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  RichText,
+  addMarks,
+  getActiveMarks,
+  htmlToRichText,
+  insertText,
+  normalizeRichText,
+  richTextToHtml,
+  sliceRichText,
+  toggleMark
+} from './rich-text';
+
+const sample: RichText = [
+  { text: 'Hello ' },
+  { text: 'bold', marks: { bold: true } },
+  { text: ' and ' },
+  { text: 'link', marks: { link: 'https://example.com', italic: true } },
+  { text: ' done\n' }
+];
+
+describe('rich text', () => {
+  it('round-trips through HTML', () => {
+    expect(htmlToRichText(richTextToHtml(sample))).toEqual(sample);
+  });
+
+  it('round-trips colors, highlights and code', () => {
+    const styled: RichText = [
+      { text: 'red', marks: { color: '#ff0000' } },
+      { text: ' code', marks: { code: true, highlight: '#FEF3C7' } },
+      { text: ' <escaped> & "quoted"', marks: { underline: true, strike: true } }
+    ];
+    expect(htmlToRichText(richTextToHtml(styled))).toEqual(styled);
+  });
+
+  it('merges neighbours with the same marks and drops empty and unsafe ones', () => {
+    expect(normalizeRichText([
+      { text: 'a', marks: { bold: true } },
+      { text: '' },
+      { text: 'b', marks: { bold: true, italic: false } },
+      { text: 'c', marks: { link: 'javascript:alert(1)' } },
+      { text: 'd', marks: { color: 'red; background: url(x)' } }
+    ])).toEqual([{ text: 'ab', marks: { bold: true } }, { text: 'cd' }]);
+  });
+
+  it('toggles a mark over a range', () => {
+    const bolded = toggleMark([{ text: 'Hello world' }], 0, 5, 'bold');
+    expect(bolded).toEqual([{ text: 'Hello', marks: { bold: true } }, { text: ' world' }]);
+    expect(getActiveMarks(bolded, 0, 5)).toEqual({ bold: true });
+    expect(toggleMark(bolded, 0, 5, 'bold')).toEqual([{ text: 'Hello world' }]);
+    // Partly bold ranges become bold
+    expect(toggleMark(bolded, 3, 8, 'bold')).toEqual([{ text: 'Hello wo', marks: { bold: true } }, { text: 'rld' }]);
+  });
+
+  it('inserts text with the marks of the character before it', () => {
+    const text = addMarks([{ text: 'ab' }], 0, 1, { italic: true });
+    expect(insertText(text, 1, 1, 'x')).toEqual([{ text: 'ax', marks: { italic: true } }, { text: 'b' }]);
+    expect(insertText(text, 0, 2, 'new')).toEqual([{ text: 'new' }]);
+  });
+
+  it('slices across spans', () => {
+    expect(sliceRichText(sample, 3, 8)).toEqual([{ text: 'lo ' }, { text: 'bo', marks: { bold: true } }]);
+  });
+
+  it('reads pasted HTML', () => {
+    expect(htmlToRichText('<p>One <b style="font-weight:normal">two</b></p><p>three<br></p><script>alert(1)</script>'))
+      .toEqual([{ text: 'One two\nthree' }]);
+    expect(htmlToRichText('<span style="font-weight:700">bold</span>&nbsp;<i>it</i>'))
+      .toEqual([{ text: 'bold', marks: { bold: true } }, { text: ' ' }, { text: 'it', marks: { italic: true } }]);
+    expect(htmlToRichText('<span style="font-weight:700">bold</span>&nbsp;<del>gone</del>', { ignore: ['del'] }))
+      .toEqual([{ text: 'bold', marks: { bold: true } }, { text: ' ' }]);
+  });
+});
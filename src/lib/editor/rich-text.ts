@@ -0,0 +1,243 @@
+import { VOID_TAGS, escapeAttribute, escapeText, parseStyle, tokenizeHtml } from './html';
+
+// Rich text is stored as a flat list of spans, each a run of text with the
+// same marks. Everything here is pure so formatting behaves the same in every
+// browser and can run outside one.
+
+export interface Marks {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: string;        // href
+  color?: string;       // CSS color of the text
+  highlight?: string;   // CSS background color
+}
+
+export type MarkType = keyof Marks;
+export type ToggleMarkType = 'bold' | 'italic' | 'underline' | 'strike' | 'code';
+
+export interface TextSpan {
+  text: string;
+  marks?: Marks;
+}
+
+export type RichText = TextSpan[];
+
+// Canonical mark order, outermost first when rendered
+export const markTypes: MarkType[] = ['link', 'code', 'bold', 'italic', 'underline', 'strike', 'color', 'highlight'];
+
+const SAFE_URL = /^(https?:|mailto:|tel:|[/#?.]|[^:]*$)/i;
+const SAFE_COLOR = /^(#[0-9a-f]{3,8}|[a-z]+|rgba?\([\d\s.,%]+\)|hsla?\([\d\s.,%deg]+\))$/i;
+
+export const isSafeUrl = (url: string) => SAFE_URL.test(url.trim());
+export const isSafeColor = (color: string) => SAFE_COLOR.test(color.trim());
+
+// Drops unset and unsafe marks and orders the rest canonically
+const cleanMarks = (marks: Marks = {}): Marks | undefined => {
+  const cleaned: Marks = {};
+  markTypes.forEach(type => {
+    const value = marks[type];
+    if (!value) return;
+    if (type === 'link' && !isSafeUrl(value as string)) return;
+    if ((type === 'color' || type === 'highlight') && !isSafeColor(value as string)) return;
+    (cleaned as Record<string, unknown>)[type] = value;
+  });
+  return Object.keys(cleaned).length ? cleaned : undefined;
+};
+
+export const sameMarks = (a: Marks = {}, b: Marks = {}) =>
+  markTypes.every(type => (a[type] || undefined) === (b[type] || undefined));
+
+// Removes empty spans and merges neighbours with identical marks
+export const normalizeRichText = (spans: RichText): RichText =>
+  spans.reduce<RichText>((result, span) => {
+    if (!span.text) return result;
+    const marks = cleanMarks(span.marks);
+    const last = result[result.length - 1];
+    if (last && sameMarks(last.marks, marks)) {
+      result[result.length - 1] = { ...last, text: last.text + span.text };
+    } else {
+      result.push(marks ? { text: span.text, marks } : { text: span.text });
+    }
+    return result;
+  }, []);
+
+export const richTextFromPlainText = (text: string): RichText => (text ? [{ text }] : []);
+
+export const richTextToPlainText = (spans: RichText) => spans.map(span => span.text).join('');
+
+export const richTextLength = (spans: RichText) =>
+  spans.reduce((length, span) => length + span.text.length, 0);
+
+// Spans covering the characters from `start` to `end`
+export const sliceRichText = (spans: RichText, start: number, end = Infinity): RichText => {
+  const result: RichText = [];
+  let offset = 0;
+  spans.forEach(span => {
+    const spanStart = offset;
+    offset += span.text.length;
+    const from = Math.max(start, spanStart);
+    const to = Math.min(end, offset);
+    if (from < to) {
+      result.push({ ...span, text: span.text.slice(from - spanStart, to - spanStart) });
+    }
+  });
+  return result;
+};
+
+// Rewrites the marks of every character between `start` and `end`
+const mapMarks = (spans: RichText, start: number, end: number, map: (marks: Marks) => Marks): RichText =>
+  normalizeRichText([
+    ...sliceRichText(spans, 0, start),
+    ...sliceRichText(spans, start, end).map(span => ({ ...span, marks: map(span.marks || {}) })),
+    ...sliceRichText(spans, end)
+  ]);
+
+export const addMarks = (spans: RichText, start: number, end: number, marks: Marks): RichText =>
+  mapMarks(spans, start, end, current => ({ ...current, ...marks }));
+
+export const removeMark = (spans: RichText, start: number, end: number, type: MarkType): RichText =>
+  mapMarks(spans, start, end, current => ({ ...current, [type]: undefined }));
+
+// Marks shared by every character in the range, with equal values
+export const getActiveMarks = (spans: RichText, start: number, end: number): Marks => {
+  const covered = start === end
+    ? sliceRichText(spans, Math.max(0, start - 1), start)
+    : sliceRichText(spans, start, end);
+  if (!covered.length) return {};
+
+  const active: Marks = { ...covered[0].marks };
+  covered.slice(1).forEach(span => {
+    markTypes.forEach(type => {
+      if (active[type] !== span.marks?.[type]) delete active[type];
+    });
+  });
+  return active;
+};
+
+export const toggleMark = (spans: RichText, start: number, end: number, type: ToggleMarkType): RichText =>
+  getActiveMarks(spans, start, end)[type]
+    ? removeMark(spans, start, end, type)
+    : addMarks(spans, start, end, { [type]: true });
+
+// Replaces the range with `text`, which takes the marks of the character before it
+export const insertText = (spans: RichText, start: number, end: number, text: string): RichText => {
+  const marks = getActiveMarks(spans, start, start);
+  return normalizeRichText([
+    ...sliceRichText(spans, 0, start),
+    { text, marks },
+    ...sliceRichText(spans, end)
+  ]);
+};
+
+export const CODE_CLASS_NAME = 'rounded bg-gray-100 dark:bg-gray-800 px-1 font-mono text-[0.9em]';
+
+const spanToHtml = ({ text, marks = {} }: TextSpan) => {
+  let html = escapeText(text);
+  const style = [
+    marks.color && `color: ${marks.color};`,
+    marks.highlight && `background-color: ${marks.highlight};`
+  ].filter(Boolean).join(' ');
+
+  if (style) html = `<span style="${escapeAttribute(style)}">${html}</span>`;
+  if (marks.strike) html = `<s>${html}</s>`;
+  if (marks.underline) html = `<u>${html}</u>`;
+  if (marks.italic) html = `<em>${html}</em>`;
+  if (marks.bold) html = `<strong>${html}</strong>`;
+  if (marks.code) html = `<code class="${CODE_CLASS_NAME}">${html}</code>`;
+  if (marks.link) html = `<a href="${escapeAttribute(marks.link)}" target="_blank" rel="noopener noreferrer">${html}</a>`;
+  return html;
+};
+
+// Markup of the spans alone, for building larger HTML from pieces of text
+export const richTextToInlineHtml = (spans: RichText) => normalizeRichText(spans).map(spanToHtml).join('');
+
+// Canonical HTML for an editable region styled with `white-space: pre-wrap`.
+// A trailing line break needs a <br> to be visible; htmlToRichText drops it.
+export const richTextToHtml = (spans: RichText) => {
+  const html = richTextToInlineHtml(spans);
+  return richTextToPlainText(spans).endsWith('\n') ? `${html}<br>` : html;
+};
+
+const BLOCK_TAGS = new Set(['div', 'p', 'li', 'ul', 'ol', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'tr']);
+const SKIPPED_TAGS = new Set(['script', 'style', 'template', 'noscript', 'head', 'title']);
+
+// Marks an element adds to the text inside it
+const marksForElement = (tag: string, attributeList: [string, string][]): Marks => {
+  const marks: Marks = {};
+  const attributes = Object.fromEntries(attributeList);
+  const style = Object.fromEntries(parseStyle(attributes.style));
+
+  // Google Docs wraps pasted content in <b style="font-weight:normal">
+  const bold = style['font-weight'] === undefined ? tag === 'b' || tag === 'strong' : style['font-weight'] === 'bold' || Number(style['font-weight']) >= 600;
+  if (bold) marks.bold = true;
+  if (tag === 'i' || tag === 'em' || style['font-style'] === 'italic') marks.italic = true;
+  if (tag === 'u' || /underline/.test(style['text-decoration'] || '')) marks.underline = true;
+  if (tag === 's' || tag === 'strike' || tag === 'del' || /line-through/.test(style['text-decoration'] || '')) marks.strike = true;
+  if (tag === 'code' || tag === 'kbd') marks.code = true;
+  if (tag === 'a' && attributes.href) marks.link = attributes.href;
+  if (tag === 'font' && attributes.color) marks.color = attributes.color;
+  if (tag === 'mark') marks.highlight = style['background-color'] || '#FEF3C7';
+  if (style.color) marks.color = style.color;
+  if (style['background-color'] && style['background-color'] !== 'transparent') {
+    marks.highlight = style['background-color'];
+  }
+  return marks;
+};
+
+// Reads HTML, such as a contenteditable's innerHTML or content stored before
+// rich text existed, into spans. Unknown tags keep their text and lose their
+// formatting; block-level tags become line breaks. Text inside `ignore` tags
+// is left out, e.g. the deletions shown in suggested text.
+export const htmlToRichText = (html: string, { ignore = [] }: { ignore?: string[] } = {}): RichText => {
+  const spans: RichText = [];
+  const stack: { tag: string; marks: Marks }[] = [];
+  let skipping: string | null = null;
+  let pendingBreak = false;   // A <br> only counts if something follows it in the same block
+
+  const currentMarks = () => stack.reduce<Marks>((marks, entry) => ({ ...marks, ...entry.marks }), {});
+  const flushBreak = () => {
+    if (pendingBreak) spans.push({ text: '\n' });
+    pendingBreak = false;
+  };
+  const emit = (value: string) => {
+    if (!value) return;
+    flushBreak();
+    // Editing never needs non-breaking spaces
+    spans.push({ text: value.replace(/\u00a0/g, ' '), marks: currentMarks() });
+  };
+  const startLine = () => {
+    flushBreak();
+    const current = richTextToPlainText(spans);
+    if (current && !current.endsWith('\n')) spans.push({ text: '\n' });
+  };
+
+  for (const token of tokenizeHtml(html)) {
+    if (skipping) {
+      if (token.type === 'close' && token.tag === skipping) skipping = null;
+      continue;
+    }
+
+    if (token.type === 'text') {
+      emit(token.text);
+    } else if (token.type === 'close') {
+      const index = stack.map(entry => entry.tag).lastIndexOf(token.tag);
+      if (index !== -1) stack.splice(index);
+      if (BLOCK_TAGS.has(token.tag)) pendingBreak = false;
+    } else if (SKIPPED_TAGS.has(token.tag) || ignore.includes(token.tag)) {
+      if (!token.selfClosing) skipping = token.tag;
+    } else if (token.tag === 'br') {
+      flushBreak();
+      pendingBreak = true;
+    } else {
+      if (BLOCK_TAGS.has(token.tag)) startLine();
+      if (!VOID_TAGS.has(token.tag) && !token.selfClosing) {
+        stack.push({ tag: token.tag, marks: marksForElement(token.tag, token.attributes) });
+      }
+    }
+  }
+
+  return normalizeRichText(spans);
+};
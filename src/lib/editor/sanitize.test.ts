@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import '@/components/editor/blocks';
+import { Block } from './blocks';
+import { defaultSanitizePolicy, sanitizeBlocks, sanitizeHtml, sanitizeRichText, sanitizeUrl } from './sanitize';
+
+describe('sanitizeHtml', () => {
+  it('keeps allowed markup as it is', () => {
+    const html = '<strong>bold</strong> <a href="https://example.com">link</a>';
+    expect(sanitizeHtml(html)).toEqual({ html, removed: [] });
+  });
+
+  it('removes scripts, event handlers and unsafe URLs', () => {
+    const { html, removed } = sanitizeHtml(
+      '<a href="#top" onclick="alert(1)">top</a><script>alert(2)</script><a href="javascript:alert(3)">x</a>' +
+      '<a href=" jav&#x09;ascript:alert(4)">y</a><iframe src="https://evil.example"><b>z</b></iframe>'
+    );
+    expect(html).toBe('<a href="#top">top</a><a>x</a><a>y</a>');
+    expect(removed).toEqual([
+      { kind: 'attribute', name: 'onclick' },
+      { kind: 'tag', name: 'script' },
+      { kind: 'url', name: 'javascript:alert(3)' },
+      { kind: 'url', name: ' jav\tascript:alert(4)' },
+      { kind: 'tag', name: 'iframe' }
+    ]);
+  });
+
+  it('drops unsafe style declarations', () => {
+    const { html, removed } = sanitizeHtml('<span style="color: red; background-image: url(x); font-weight: expression(alert(1))">a</span>');
+    expect(html).toBe('<span style="color: red;">a</span>');
+    expect(removed.map(issue => issue.name)).toEqual(['background-image', 'font-weight']);
+  });
+
+  it('unwraps tags named like Object.prototype members', () => {
+    const { html, removed } = sanitizeHtml('<constructor x="1">a</constructor><tostring>b</tostring><hasownproperty>c</hasownproperty>');
+    expect(html).toBe('abc');
+    expect(removed.map(issue => issue.name)).toEqual(['constructor', 'tostring', 'hasownproperty']);
+  });
+
+  it('escapes text and closes what it opened', () => {
+    expect(sanitizeHtml('<em>1 < 2 &amp; "3"').html).toBe('<em>1 &lt; 2 &amp; "3"</em>');
+    expect(sanitizeHtml('a</strong>b').html).toBe('ab');
+  });
+});
+
+describe('sanitizeUrl', () => {
+  it('allows relative URLs and the policy schemes only', () => {
+    expect(sanitizeUrl('/page', 'link')).toBe('/page');
+    expect(sanitizeUrl('mailto:a@example.com', 'link')).toBe('mailto:a@example.com');
+    expect(sanitizeUrl('java\nscript:alert(1)', 'link')).toBeNull();
+    expect(sanitizeUrl('data:image/png;base64,AAAA', 'link')).toBeNull();
+    expect(sanitizeUrl('data:image/png;base64,AAAA', 'media')).toBe('data:image/png;base64,AAAA');
+  });
+});
+
+describe('sanitizeRichText', () => {
+  it('removes links and colors the policy does not allow', () => {
+    const policy = { ...defaultSanitizePolicy, allowedStyles: [] };
+    const { richText, removed } = sanitizeRichText([
+      { text: 'a', marks: { link: 'vbscript:x', bold: true } },
+      { text: 'b', marks: { color: 'red' } }
+    ], policy);
+    expect(richText).toEqual([{ text: 'a', marks: { bold: true } }, { text: 'b', marks: {} }]);
+    expect(removed).toHaveLength(2);
+  });
+});
+
+describe('sanitizeBlocks', () => {
+  it('sanitizes nested blocks and returns clean ones unchanged', () => {
+    const clean: Block[] = [{ id: 'a', type: 'paragraph', content: 'fine' }];
+    expect(sanitizeBlocks(clean).blocks).toBe(clean);
+
+    const { blocks, removed } = sanitizeBlocks([{
+      id: 'a',
+      type: 'paragraph',
+      content: 'parent',
+      children: [
+        { id: 'b', type: 'paragraph', content: 'x<b onmouseover=alert(1)>y</b>' },
+        { id: 'c', type: 'image', content: 'javascript:alert(1)' }
+      ]
+    }]);
+    expect(blocks[0].children![0].content).toBe('x<b>y</b>');
+    expect(blocks[0].children![1].content).toBe('');
+    expect(removed.map(issue => issue.blockId)).toEqual(['b', 'c']);
+  });
+});
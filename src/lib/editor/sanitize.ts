@@ -0,0 +1,231 @@
+import type { Block } from './blocks';
+import { getBlockType } from './registry';
+import { VOID_TAGS, escapeAttribute, escapeText, parseStyle, tokenizeHtml } from './html';
+import { MarkType, RichText, richTextToPlainText } from './rich-text';
+
+// Allow-list sanitizer for everything the editor stores or renders as HTML or
+// as a URL. Anything not explicitly allowed is removed and reported.
+
+export interface SanitizePolicy {
+  allowedTags: Record<string, string[]>;  // Tag name -> attributes it may keep
+  allowedStyles: string[];                // CSS properties kept in style attributes
+  linkSchemes: string[];                  // URL schemes allowed in links (href)
+  mediaSchemes: string[];                 // URL schemes allowed for images, video, audio and files
+}
+
+export interface SanitizeIssue {
+  kind: 'tag' | 'attribute' | 'style' | 'url';
+  name: string;         // Tag, attribute or CSS property name, or the rejected URL
+  blockId?: string;
+  field?: string;
+}
+
+export interface SanitizeReport {
+  source: 'load' | 'input' | 'paste';
+  removed: SanitizeIssue[];
+}
+
+export const defaultSanitizePolicy: SanitizePolicy = {
+  allowedTags: {
+    a: ['href', 'title', 'target', 'rel'],
+    b: [],
+    strong: [],
+    i: [],
+    em: [],
+    u: [],
+    s: [],
+    strike: [],
+    del: [],
+    ins: [],
+    code: ['class'],
+    kbd: [],
+    mark: ['style'],
+    span: ['style'],
+    font: ['color'],
+    sub: [],
+    sup: [],
+    br: [],
+    p: [],
+    div: []
+  },
+  allowedStyles: ['color', 'background-color', 'font-weight', 'font-style', 'text-decoration'],
+  linkSchemes: ['http', 'https', 'mailto', 'tel'],
+  mediaSchemes: ['http', 'https', 'data', 'blob', 'media']
+};
+
+// Removed together with everything inside them
+const DROPPED_WITH_CONTENT = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'head', 'title', 'svg', 'math', 'textarea', 'select']);
+// Document wrappers around clipboard HTML, unwrapped without being reported
+const DOCUMENT_TAGS = new Set(['html', 'body', 'meta']);
+const UNSAFE_STYLE_VALUE = /url\s*\(|expression\s*\(|javascript:|[<>\\]/i;
+
+// Attributes the policy lets `tag` keep, or undefined when the tag isn't
+// allowed. Only the policy's own keys count, so tags such as <constructor>
+// don't find Object.prototype members.
+const getAllowedAttributes = (tag: string, policy: SanitizePolicy): string[] | undefined =>
+  Object.prototype.hasOwnProperty.call(policy.allowedTags, tag) ? policy.allowedTags[tag] : undefined;
+
+const isAllowedStyle = (property: string, value: string, policy: SanitizePolicy) =>
+  policy.allowedStyles.includes(property) && !UNSAFE_STYLE_VALUE.test(value);
+
+// Returns the URL if its scheme is allowed; relative URLs have no scheme
+export const sanitizeUrl = (url: string, kind: 'link' | 'media', policy = defaultSanitizePolicy): string | null => {
+  // Browsers ignore whitespace and control characters inside a scheme
+  // eslint-disable-next-line no-control-regex
+  const compact = url.replace(/[\u0000- \u007f]/g, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(compact)?.[1].toLowerCase();
+  const allowed = kind === 'link' ? policy.linkSchemes : policy.mediaSchemes;
+  return !scheme || allowed.includes(scheme) ? url.trim() : null;
+};
+
+export const sanitizeHtml = (html: string, policy = defaultSanitizePolicy): { html: string; removed: SanitizeIssue[] } => {
+  const output: string[] = [];
+  const open: string[] = [];
+  const removed: SanitizeIssue[] = [];
+  let dropping: { tag: string; depth: number } | null = null;
+
+  const sanitizeAttribute = (tag: string, name: string, value: string): string | null => {
+    if (name.startsWith('on') || !getAllowedAttributes(tag, policy)?.includes(name)) {
+      removed.push({ kind: 'attribute', name });
+      return null;
+    }
+    if (name === 'href' || name === 'src') {
+      const url = sanitizeUrl(value, name === 'href' ? 'link' : 'media', policy);
+      if (url === null) removed.push({ kind: 'url', name: value });
+      return url;
+    }
+    if (name === 'style') {
+      const declarations = parseStyle(value).filter(([property, propertyValue]) => {
+        const allowed = isAllowedStyle(property, propertyValue, policy);
+        if (!allowed) removed.push({ kind: 'style', name: property });
+        return allowed;
+      });
+      return declarations.length ? declarations.map(([property, propertyValue]) => `${property}: ${propertyValue};`).join(' ') : null;
+    }
+    return value;
+  };
+
+  for (const token of tokenizeHtml(html)) {
+    if (dropping) {
+      if (token.type === 'open' && token.tag === dropping.tag && !token.selfClosing) dropping.depth++;
+      if (token.type === 'close' && token.tag === dropping.tag && --dropping.depth === 0) dropping = null;
+      continue;
+    }
+
+    if (token.type === 'text') {
+      output.push(escapeText(token.text));
+    } else if (token.type === 'close') {
+      // Only close tags we opened; anything still open inside is closed first
+      const index = open.lastIndexOf(token.tag);
+      if (index !== -1) {
+        open.splice(index).reverse().forEach(tag => output.push(`</${tag}>`));
+      }
+    } else if (DROPPED_WITH_CONTENT.has(token.tag)) {
+      removed.push({ kind: 'tag', name: token.tag });
+      if (!token.selfClosing && !VOID_TAGS.has(token.tag)) dropping = { tag: token.tag, depth: 1 };
+    } else if (DOCUMENT_TAGS.has(token.tag)) {
+      continue;
+    } else if (!getAllowedAttributes(token.tag, policy)) {
+      // Unknown tags are unwrapped: their text stays
+      removed.push({ kind: 'tag', name: token.tag });
+    } else {
+      const attributes = token.attributes
+        .map(([name, value]) => [name, sanitizeAttribute(token.tag, name, value)])
+        .filter((attribute): attribute is [string, string] => attribute[1] !== null)
+        .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+        .join('');
+      output.push(`<${token.tag}${attributes}>`);
+      if (!VOID_TAGS.has(token.tag) && !token.selfClosing) open.push(token.tag);
+    }
+  }
+
+  open.reverse().forEach(tag => output.push(`</${tag}>`));
+  return { html: output.join(''), removed };
+};
+
+// Drops links and colors the policy does not allow from rich text
+export const sanitizeRichText = (richText: RichText, policy = defaultSanitizePolicy): { richText: RichText; removed: SanitizeIssue[] } => {
+  const removed: SanitizeIssue[] = [];
+  const sanitized = richText.map(span => {
+    const { link, color, highlight } = span.marks || {};
+    const unsafe: MarkType[] = [];
+
+    if (link && sanitizeUrl(link, 'link', policy) === null) {
+      unsafe.push('link');
+      removed.push({ kind: 'url', name: link });
+    }
+    if (color && !isAllowedStyle('color', color, policy)) {
+      unsafe.push('color');
+      removed.push({ kind: 'style', name: 'color' });
+    }
+    if (highlight && !isAllowedStyle('background-color', highlight, policy)) {
+      unsafe.push('highlight');
+      removed.push({ kind: 'style', name: 'background-color' });
+    }
+
+    if (!unsafe.length) return span;
+    const marks = { ...span.marks };
+    unsafe.forEach(type => delete marks[type]);
+    return { ...span, marks };
+  });
+
+  return { richText: removed.length ? sanitized : richText, removed };
+};
+
+// Sanitizes every HTML, rich-text and URL field of a block. Returns the same
+// block object when nothing had to change.
+export const sanitizeBlock = (block: Block, policy = defaultSanitizePolicy): { block: Block; removed: SanitizeIssue[] } => {
+  const definition = getBlockType(block.type);
+  const updates: Partial<Block> = {};
+  const removed: SanitizeIssue[] = [];
+  const report = (field: string, issues: SanitizeIssue[]) =>
+    removed.push(...issues.map(issue => ({ ...issue, blockId: block.id, field })));
+
+  const sanitizeHtmlField = (field: 'content' | 'toggleTitle' | 'toggleContent') => {
+    const value = block[field];
+    if (!value) return;
+    const result = sanitizeHtml(value, policy);
+    report(field, result.removed);
+    if (result.html !== value) updates[field] = result.html;
+  };
+
+  if (definition && !definition.render) {
+    const field = definition.textField || 'content';
+    if (block.richText && richTextToPlainText(block.richText) === (block[field] || '')) {
+      // The text field is plain text; only the marks can carry anything unsafe
+      const result = sanitizeRichText(block.richText, policy);
+      report('richText', result.removed);
+      if (result.richText !== block.richText) updates.richText = result.richText;
+    } else {
+      // Stored before rich text existed, so the field may hold HTML
+      sanitizeHtmlField(field);
+    }
+  }
+
+  sanitizeHtmlField('toggleContent');
+
+  if (definition?.contentUrl && block.content) {
+    const url = sanitizeUrl(block.content, definition.contentUrl, policy);
+    if (url === null) {
+      report('content', [{ kind: 'url', name: block.content }]);
+      updates.content = '';
+    }
+  }
+
+  if (block.children?.length) {
+    const result = sanitizeBlocks(block.children, policy);
+    removed.push(...result.removed);
+    if (result.blocks !== block.children) updates.children = result.blocks;
+  }
+
+  return { block: Object.keys(updates).length ? { ...block, ...updates } : block, removed };
+};
+
+// Returns the same array when no block changed
+export const sanitizeBlocks = (blocks: Block[], policy = defaultSanitizePolicy): { blocks: Block[]; removed: SanitizeIssue[] } => {
+  const results = blocks.map(block => sanitizeBlock(block, policy));
+  return {
+    blocks: results.some((result, index) => result.block !== blocks[index]) ? results.map(result => result.block) : blocks,
+    removed: results.flatMap(result => result.removed)
+  };
+};
@@ -0,0 +1,115 @@
+// DOM helpers that express the selection inside an editable element as plain
+// character offsets, which survive re-rendering the element's HTML.
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+// Text in <del> is not counted: it marks text a suggestion deletes, which is
+// shown but is not part of the text being edited
+const textWalker = (root: HTMLElement) =>
+  document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => (node.parentElement?.closest('del') ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT)
+  });
+
+const offsetOf = (root: HTMLElement, node: Node, offset: number) => {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(node, offset);
+
+  const walker = textWalker(root);
+  let length = 0;
+  for (let text = walker.nextNode(); text; text = walker.nextNode()) {
+    if (text === node) return length + offset;
+    // Stop at the first text past the point
+    if (range.comparePoint(text, text.textContent?.length || 0) !== 0) break;
+    length += text.textContent?.length || 0;
+  }
+  return length;
+};
+
+export const getSelectionOffsets = (root: HTMLElement): TextSelection | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+
+  return {
+    start: offsetOf(root, range.startContainer, range.startOffset),
+    end: offsetOf(root, range.endContainer, range.endOffset)
+  };
+};
+
+const pointAt = (root: HTMLElement, target: number): { node: Node; offset: number } => {
+  const walker = textWalker(root);
+  let remaining = target;
+  let node = walker.nextNode();
+  let last: Node | null = null;
+
+  while (node) {
+    const length = node.textContent?.length || 0;
+    if (remaining <= length) return { node, offset: remaining };
+    remaining -= length;
+    last = node;
+    node = walker.nextNode();
+  }
+
+  // Past the end: collapse after the last text, or inside an empty root
+  return last
+    ? { node: last, offset: last.textContent?.length || 0 }
+    : { node: root, offset: root.childNodes.length };
+};
+
+// A DOM range over the given offsets, e.g. to measure where they are on screen
+export const getRangeAtOffsets = (root: HTMLElement, { start, end }: TextSelection): Range => {
+  const startPoint = pointAt(root, start);
+  const endPoint = pointAt(root, end);
+  const range = document.createRange();
+  range.setStart(startPoint.node, startPoint.offset);
+  range.setEnd(endPoint.node, endPoint.offset);
+  return range;
+};
+
+export const setSelectionOffsets = (root: HTMLElement, offsets: TextSelection) => {
+  const selection = window.getSelection();
+  if (!selection) return;
+
+  const range = getRangeAtOffsets(root, offsets);
+  root.focus();
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
+
+// Replaces the selection inside `root` with `html` and puts the caret after it.
+// The HTML must already be sanitized.
+export const insertHtmlAtSelection = (root: HTMLElement, html: string) => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return;
+
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.commonAncestorContainer)) return;
+
+  // A template parses the HTML without running or loading anything
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const last = template.content.lastChild;
+
+  range.deleteContents();
+  range.insertNode(template.content);
+  if (last) {
+    range.setStartAfter(last);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+};
+
+// Focuses the first editable region of block `id` once it is on screen
+export const focusBlock = (id: string) => {
+  setTimeout(() => {
+    const element = document.querySelector<HTMLElement>(`[data-block-id="${id}"] [contenteditable="true"]`);
+    element?.focus();
+  }, 0);
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Block } from './blocks';
+import {
+  applySuggestions,
+  getSuggestionKinds,
+  isSuggestionOutdated,
+  parseSuggestions,
+  recordSuggestions,
+  sameOutline,
+  suggestedTextToHtml
+} from './suggestions';
+
+const ann = { id: 'u1', name: 'Ann' };
+const bob = { id: 'u2', name: 'Bob' };
+
+const base: Block[] = [
+  { id: 'a', type: 'paragraph', content: 'first' },
+  { id: 'b', type: 'paragraph', content: 'second', children: [{ id: 'c', type: 'paragraph', content: 'child' }] }
+];
+
+describe('recordSuggestions', () => {
+  it('records the changed fields of each edited block', () => {
+    const proposed = [base[0], { ...base[1], content: 'second edited', type: 'heading2' as const }];
+    const suggestions = recordSuggestions([], base, proposed, ann);
+    expect(suggestions).toEqual([expect.objectContaining({
+      blockId: 'b',
+      author: ann,
+      before: { content: 'second', type: 'paragraph' },
+      after: { content: 'second edited', type: 'heading2' }
+    })]);
+    expect(applySuggestions(base, suggestions)).toEqual(proposed);
+    expect(getSuggestionKinds(suggestions[0])).toEqual(['type']);
+  });
+
+  it('updates a suggestion and drops it once changed back', () => {
+    const first = recordSuggestions([], base, [{ ...base[0], content: 'one' }, base[1]], ann);
+    const second = recordSuggestions(first, base, [{ ...base[0], content: 'uno' }, base[1]], bob);
+    expect(second).toEqual([{ ...first[0], after: { content: 'uno' }, author: bob }]);
+    expect(recordSuggestions(second, base, applySuggestions(base, second), bob)).toBe(second);
+    expect(recordSuggestions(second, base, base, bob)).toEqual([]);
+  });
+});
+
+describe('suggestion state', () => {
+  const [suggestion] = recordSuggestions([], base, [{ ...base[0], content: 'one' }, base[1]], ann);
+
+  it('is outdated once its block is edited or deleted', () => {
+    expect(isSuggestionOutdated(suggestion, base)).toBe(false);
+    expect(isSuggestionOutdated(suggestion, [{ ...base[0], content: 'changed' }, base[1]])).toBe(true);
+    expect(isSuggestionOutdated(suggestion, [base[1]])).toBe(true);
+  });
+
+  it('labels text, formatting and other changes', () => {
+    expect(getSuggestionKinds(suggestion)).toEqual(['text']);
+    expect(getSuggestionKinds({
+      ...suggestion,
+      before: { richText: [{ text: 'one' }] },
+      after: { richText: [{ text: 'one', marks: { bold: true } }], checked: true }
+    })).toEqual(['formatting', 'other']);
+  });
+
+  it('compares outlines by ids and nesting only', () => {
+    expect(sameOutline(base, [{ ...base[0], content: 'x' }, base[1]])).toBe(true);
+    expect(sameOutline(base, [base[1], base[0]])).toBe(false);
+  });
+
+  it('keeps only well-formed suggestions from storage', () => {
+    expect(parseSuggestions(JSON.parse(JSON.stringify([suggestion, { id: 'x' }, null])))).toEqual([suggestion]);
+  });
+});
+
+describe('suggestedTextToHtml', () => {
+  it('marks inserted words and changed characters', () => {
+    expect(suggestedTextToHtml([{ text: 'Hello world' }], [{ text: 'Hello there world' }])).toBe('Hello <ins>there </ins>world');
+    expect(suggestedTextToHtml([{ text: 'the colour' }], [{ text: 'the color' }])).toBe('the colo<del>u</del>r');
+  });
+});
@@ -0,0 +1,154 @@
+import { Block, findBlock, randomBlockId, updateBlockById } from './blocks';
+import type { CommentUser } from './comments';
+import { TextChange, diffChars, diffText } from './diff';
+import { stableStringify } from './document';
+import { RichText, richTextToInlineHtml, richTextToPlainText, sliceRichText } from './rich-text';
+
+// Suggestions are edits proposed for review instead of applied. Like comment
+// threads they are kept next to the blocks, so the stored blocks, exports and
+// copies stay as they were until a suggestion is accepted. There is at most
+// one per block, holding the fields it changes before and after.
+
+export interface Suggestion {
+  id: string;
+  blockId: string;
+  author: CommentUser;
+  createdAt: string;        // ISO date
+  before: Partial<Block>;   // The fields the suggestion changes, as they were
+  after: Partial<Block>;    // The same fields as suggested
+}
+
+export type SuggestionKind = 'text' | 'formatting' | 'type' | 'other';
+
+export interface RichTextChange {
+  type: TextChange['type'];
+  text: RichText;
+}
+
+// Colors for suggested text, in both the editable and the read-only rendering
+export const SUGGESTED_TEXT_CLASS_NAME = '[&_ins]:bg-green-50 [&_ins]:text-green-700 [&_ins]:decoration-green-500 dark:[&_ins]:bg-green-900/30 dark:[&_ins]:text-green-300 ' +
+  '[&_del]:bg-red-50 [&_del]:text-red-600 [&_del]:decoration-red-500 dark:[&_del]:bg-red-900/30 dark:[&_del]:text-red-300';
+
+const flatten = (blocks: Block[]): Block[] => blocks.flatMap(block => [block, ...flatten(block.children || [])]);
+
+// Ids and nesting of the blocks, which suggestions never change
+const getOutline = (blocks: Block[]): string =>
+  blocks.map(block => `${block.id}(${getOutline(block.children || [])})`).join(',');
+
+// Whether the two versions hold the same blocks in the same places, i.e. only
+// the blocks' own fields differ
+export const sameOutline = (a: Block[], b: Block[]) => a === b || getOutline(a) === getOutline(b);
+
+// The fields of `after` that differ from `before`, apart from the id and children
+export const getBlockChanges = (before: Block, after: Block): { before: Partial<Block>; after: Partial<Block> } | null => {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(key => key !== 'id' && key !== 'children' && stableStringify(before[key]) !== stableStringify(after[key]));
+  if (!keys.length) return null;
+  const pick = (block: Block) => Object.fromEntries(keys.map(key => [key, block[key]])) as Partial<Block>;
+  return { before: pick(before), after: pick(after) };
+};
+
+// `blocks` as they would be with every suggestion accepted
+export const applySuggestions = (blocks: Block[], suggestions: Suggestion[]): Block[] =>
+  suggestions.reduce((result, { blockId, after }) => updateBlockById(result, blockId, after), blocks);
+
+// Records how `proposed` differs from `base` as suggestions by `author`. A
+// block already suggested on keeps its suggestion with the new changes; one
+// changed back to how it is in `base` loses it. Returns `suggestions` itself
+// when nothing changed.
+export const recordSuggestions = (suggestions: Suggestion[], base: Block[], proposed: Block[], author: CommentUser): Suggestion[] => {
+  const baseById = new Map(flatten(base).map(block => [block.id, block]));
+  const proposedById = new Map(flatten(proposed).map(block => [block.id, block]));
+  let changed = false;
+
+  const next = suggestions.flatMap(suggestion => {
+    const block = proposedById.get(suggestion.blockId);
+    const baseBlock = baseById.get(suggestion.blockId);
+    if (!block || !baseBlock) return [suggestion];
+    const changes = getBlockChanges(baseBlock, block);
+    if (changes && stableStringify(changes) === stableStringify({ before: suggestion.before, after: suggestion.after })) return [suggestion];
+    changed = true;
+    return changes ? [{ ...suggestion, ...changes, author }] : [];
+  });
+
+  const suggested = new Set(suggestions.map(suggestion => suggestion.blockId));
+  proposedById.forEach((block, id) => {
+    const baseBlock = baseById.get(id);
+    const changes = !suggested.has(id) && baseBlock && baseBlock !== block && getBlockChanges(baseBlock, block);
+    if (!changes) return;
+    changed = true;
+    next.push({ id: randomBlockId(), blockId: id, author, createdAt: new Date().toISOString(), ...changes });
+  });
+  return changed ? next : suggestions;
+};
+
+export const removeSuggestions = (suggestions: Suggestion[], ids: string[]) =>
+  suggestions.filter(suggestion => !ids.includes(suggestion.id));
+
+// Whether the block was edited since the suggestion was made, or deleted.
+// Accepting it then overwrites those edits.
+export const isSuggestionOutdated = ({ blockId, before }: Suggestion, blocks: Block[]) => {
+  const block = findBlock(blocks, blockId);
+  return !block || Object.keys(before).some(key => stableStringify(block[key]) !== stableStringify(before[key]));
+};
+
+// What a suggestion changes, for labelling it
+export const getSuggestionKinds = ({ before, after }: Suggestion): SuggestionKind[] => {
+  const text = (fields: Partial<Block>) => fields.richText ? richTextToPlainText(fields.richText) : fields.content ?? fields.toggleTitle;
+  const keys = Object.keys(after);
+  const kinds: SuggestionKind[] = [];
+  if (keys.includes('type')) kinds.push('type');
+  else if (text(before) !== text(after)) kinds.push('text');
+  else if (keys.includes('richText')) kinds.push('formatting');
+  if (keys.some(key => !['type', 'richText', 'content', 'toggleTitle'].includes(key))) kinds.push('other');
+  return kinds;
+};
+
+// Text changes as the suggested text would be marked up: whole words from
+// the word diff, narrowed to the characters that differ when a word was only
+// partly changed
+const diffSuggestedText = (before: string, after: string): TextChange[] => {
+  const changes = diffText(before, after);
+  return changes.flatMap((change, i) => {
+    const next = changes[i + 1];
+    if (change.type === 'delete' && next?.type === 'insert') return diffChars(change.text, next.text);
+    if (change.type === 'insert' && changes[i - 1]?.type === 'delete') return [];
+    return [change];
+  });
+};
+
+// The text from `before` to `after`, with the formatting of each side
+export const diffRichText = (before: RichText, after: RichText): RichTextChange[] => {
+  let beforeOffset = 0;
+  let afterOffset = 0;
+  return diffSuggestedText(richTextToPlainText(before), richTextToPlainText(after)).map(({ type, text }) => {
+    if (type === 'delete') return { type, text: sliceRichText(before, beforeOffset, beforeOffset += text.length) };
+    if (type === 'equal') beforeOffset += text.length;
+    return { type, text: sliceRichText(after, afterOffset, afterOffset += text.length) };
+  });
+};
+
+// Editable HTML for a block's suggested text: insertions in <ins> and
+// deletions in <del>. Selection offsets and htmlToRichText with
+// `ignore: ['del']` leave the deletions out, so editing it edits `after`.
+export const suggestedTextToHtml = (before: RichText, after: RichText) => {
+  const changes = diffRichText(before, after);
+  const html = changes.map(({ type, text }) => {
+    const inner = richTextToInlineHtml(text);
+    return type === 'insert' ? `<ins>${inner}</ins>` : type === 'delete' ? `<del>${inner}</del>` : inner;
+  }).join('');
+  const last = changes[changes.length - 1];
+  return last && richTextToPlainText(last.text).endsWith('\n') ? `${html}<br>` : html;
+};
+
+// Suggestions from storage; malformed ones are dropped
+export const parseSuggestions = (value: unknown): Suggestion[] => {
+  if (!Array.isArray(value)) return [];
+  const isFields = (fields: unknown) => !!fields && typeof fields === 'object' && !Array.isArray(fields);
+  return value.filter((suggestion): suggestion is Suggestion => {
+    const { id, blockId, author, createdAt, before, after } = (suggestion || {}) as Suggestion;
+    return typeof id === 'string' && typeof blockId === 'string' &&
+      typeof author?.id === 'string' && typeof author.name === 'string' &&
+      typeof createdAt === 'string' && isFields(before) && isFields(after);
+  });
+};
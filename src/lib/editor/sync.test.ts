@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as Y from 'yjs';
+import { MESSAGE_AWARENESS, MESSAGE_SYNC_REPLY, MESSAGE_SYNC_REQUEST, MESSAGE_UPDATE, SyncStatus, createWebSocketProvider } from './sync';
+
+// Stands in for the browser's WebSocket; the test plays the relay
+class FakeSocket {
+  static readonly OPEN = 1;
+  static opened: FakeSocket[] = [];
+  readyState = 0;
+  binaryType = 'blob';
+  sent: Uint8Array[] = [];
+  onopen?: () => void;
+  onmessage?: (e: { data: ArrayBuffer }) => void;
+  onclose?: () => void;
+
+  constructor(public url: string) {
+    FakeSocket.opened.push(this);
+  }
+
+  send(message: Uint8Array) {
+    this.sent.push(message);
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(type: number, payload: Uint8Array) {
+    const message = new Uint8Array(payload.length + 1);
+    message[0] = type;
+    message.set(payload, 1);
+    this.onmessage?.({ data: message.buffer });
+  }
+}
+
+// A document holding `text` under 'text', as another client's copy
+const remoteDoc = (text: string) => {
+  const doc = new Y.Doc();
+  doc.getText('text').insert(0, text);
+  return doc;
+};
+
+beforeEach(() => {
+  FakeSocket.opened = [];
+  vi.stubGlobal('WebSocket', FakeSocket);
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('WebSocket provider', () => {
+  const connect = () => {
+    const doc = new Y.Doc();
+    const statuses: SyncStatus[] = [];
+    const provider = createWebSocketProvider('ws://relay/', 'notes/1');
+    const disconnect = provider.connect(doc, status => statuses.push(status));
+    const [socket] = FakeSocket.opened;
+    socket.open();
+    return { provider, doc, statuses, socket, disconnect };
+  };
+
+  it('asks for what it is missing and applies the reply', () => {
+    const { doc, statuses, socket } = connect();
+    expect(socket.url).toBe('ws://relay/notes%2F1');
+    expect(socket.sent.map(message => message[0])).toEqual([MESSAGE_SYNC_REQUEST, MESSAGE_UPDATE]);
+
+    socket.receive(MESSAGE_SYNC_REPLY, Y.encodeStateAsUpdate(remoteDoc('shared')));
+    expect(doc.getText('text').toString()).toBe('shared');
+    expect(statuses).toEqual(['connecting', 'synced']);
+  });
+
+  it('sends local edits but not the ones it received', () => {
+    const { doc, socket } = connect();
+    socket.sent = [];
+    socket.receive(MESSAGE_UPDATE, Y.encodeStateAsUpdate(remoteDoc('remote')));
+    expect(socket.sent).toEqual([]);
+
+    doc.getText('text').insert(0, 'local ');
+    expect(socket.sent.map(message => message[0])).toEqual([MESSAGE_UPDATE]);
+  });
+
+  it('drops a malformed frame and reconnects', () => {
+    const { doc, statuses, socket } = connect();
+    expect(() => socket.receive(MESSAGE_SYNC_REPLY, new Uint8Array([255, 1, 2, 3]))).not.toThrow();
+    expect(doc.getText('text').toString()).toBe('');
+    expect(statuses).toEqual(['connecting', 'offline']);
+
+    vi.advanceTimersByTime(1000);
+    const [, retry] = FakeSocket.opened;
+    retry.open();
+    retry.receive(MESSAGE_SYNC_REPLY, Y.encodeStateAsUpdate(remoteDoc('shared')));
+    expect(doc.getText('text').toString()).toBe('shared');
+    expect(statuses).toEqual(['connecting', 'offline', 'connecting', 'synced']);
+  });
+
+  it('ignores messages of unknown types', () => {
+    const { statuses, socket } = connect();
+    socket.receive(9, new Uint8Array([1, 2, 3]));
+    expect(socket.readyState).toBe(FakeSocket.OPEN);
+    expect(statuses).toEqual(['connecting']);
+  });
+
+  it('shares valid presence and ignores malformed presence frames', () => {
+    const { provider, socket } = connect();
+    const seen: string[][] = [];
+    provider.awareness!.subscribe(collaborators => seen.push(collaborators.map(collaborator => collaborator.user.name)));
+    const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+    socket.receive(MESSAGE_AWARENESS, new TextEncoder().encode('{not json'));
+    socket.receive(MESSAGE_AWARENESS, encode(null));
+    socket.receive(MESSAGE_AWARENESS, encode({ clientId: 7, state: { user: { id: 'u1', name: 'Eve' }, cursor: null } }));
+    expect(seen).toEqual([[]]);
+
+    socket.receive(MESSAGE_AWARENESS, encode({ clientId: 'b', state: { user: { id: 'u2', name: 'Bob' }, cursor: null } }));
+    socket.receive(MESSAGE_AWARENESS, encode({ clientId: 'b', state: { user: { name: 'Bob' } } }));
+    expect(seen).toEqual([[], ['Bob'], []]);
+    expect(socket.readyState).toBe(FakeSocket.OPEN);
+  });
+
+  it('stops reconnecting once disconnected', () => {
+    const { doc, socket, disconnect } = connect();
+    disconnect();
+    expect(socket.readyState).toBe(3);
+    vi.advanceTimersByTime(60000);
+    expect(FakeSocket.opened).toHaveLength(1);
+    doc.getText('text').insert(0, 'after');
+    expect(socket.sent.map(message => message[0])).toEqual([MESSAGE_SYNC_REQUEST, MESSAGE_UPDATE]);
+  });
+});
@@ -0,0 +1,149 @@
+import * as Y from 'yjs';
+import { randomBlockId } from './blocks';
+import { AwarenessChannel, Collaborator, PresenceState, parsePresenceState } from './presence';
+
+// Sync providers carry CRDT updates between copies of a document. The editor
+// hands a provider its Y.Doc; the provider sends local updates out, applies
+// remote ones, and reports whether the copy is in sync.
+
+export type SyncStatus = 'connecting' | 'synced' | 'offline';
+
+export interface SyncProvider {
+  // Starts syncing `doc` and returns a function that stops. Report 'synced'
+  // once the document holds what the other side had, so the editor knows
+  // whether to load it or to seed an empty document with its own blocks.
+  connect: (doc: Y.Doc, onStatus: (status: SyncStatus) => void) => () => void;
+  // Presence of the other people in the document, if the provider carries it
+  awareness?: AwarenessChannel;
+}
+
+// Messages are one type byte followed by a Yjs state vector or update, or by
+// JSON for presence. The relay server in `server/collab-relay.js` speaks the
+// same protocol.
+export const MESSAGE_SYNC_REQUEST = 0;   // Client → server: the client's state vector
+export const MESSAGE_UPDATE = 1;         // Either way: an update to apply and pass on
+export const MESSAGE_SYNC_REPLY = 2;     // Server → client: what the client was missing
+export const MESSAGE_AWARENESS = 3;      // Either way: { clientId, state } of one client, null once it left
+
+const encodeMessage = (type: number, payload: Uint8Array) => {
+  const message = new Uint8Array(payload.length + 1);
+  message[0] = type;
+  message.set(payload, 1);
+  return message;
+};
+
+// Syncs through a WebSocket relay, one room per document. Reconnects with a
+// growing delay when the connection drops, and sends edits made while offline
+// once it is back. Presence goes over the same connection.
+export const createWebSocketProvider = (url: string, room: string): SyncProvider => {
+  const clientId = randomBlockId();
+  let socket: WebSocket | null = null;
+  let localState: PresenceState | null = null;
+  const states = new Map<string, Collaborator>();
+  const listeners = new Set<(collaborators: Collaborator[]) => void>();
+
+  const send = (type: number, payload: Uint8Array) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(encodeMessage(type, payload));
+  };
+  const sendLocalState = () =>
+    send(MESSAGE_AWARENESS, new TextEncoder().encode(JSON.stringify({ clientId, state: localState })));
+  const notify = () => {
+    const collaborators = Array.from(states.values());
+    listeners.forEach(listener => listener(collaborators));
+  };
+
+  const clearStates = () => {
+    if (!states.size) return;
+    states.clear();
+    notify();
+  };
+
+  const receiveState = (payload: Uint8Array) => {
+    let message: { clientId?: unknown; state?: unknown };
+    try {
+      message = JSON.parse(new TextDecoder().decode(payload));
+    } catch {
+      return;
+    }
+    if (typeof message?.clientId !== 'string' || message.clientId === clientId) return;
+    const state = parsePresenceState(message.state);
+    if (state) states.set(message.clientId, { ...state, clientId: message.clientId });
+    else states.delete(message.clientId);
+    notify();
+  };
+
+  const awareness: AwarenessChannel = {
+    setLocalState: (state) => {
+      localState = state;
+      sendLocalState();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(Array.from(states.values()));
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+
+  const connect = (doc: Y.Doc, onStatus: (status: SyncStatus) => void) => {
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = 1000;
+    let stopped = false;
+
+    const handleUpdate = (update: Uint8Array, origin: unknown) => {
+      if (origin !== socket) send(MESSAGE_UPDATE, update);
+    };
+
+    const open = () => {
+      onStatus('connecting');
+      const current = new WebSocket(`${url.replace(/\/$/, '')}/${encodeURIComponent(room)}`);
+      current.binaryType = 'arraybuffer';
+      socket = current;
+
+      current.onopen = () => {
+        retryDelay = 1000;
+        send(MESSAGE_SYNC_REQUEST, Y.encodeStateVector(doc));
+        send(MESSAGE_UPDATE, Y.encodeStateAsUpdate(doc));
+        if (localState) sendLocalState();
+      };
+      current.onmessage = (e) => {
+        const message = new Uint8Array(e.data as ArrayBuffer);
+        const payload = message.subarray(1);
+        if (message[0] === MESSAGE_AWARENESS) receiveState(payload);
+        if (message[0] !== MESSAGE_UPDATE && message[0] !== MESSAGE_SYNC_REPLY) return;
+        try {
+          Y.applyUpdate(doc, payload, current);
+        } catch {
+          // Not a Yjs update. Reconnecting syncs afresh rather than going on
+          // with a copy that may hold part of it.
+          current.close();
+          return;
+        }
+        if (message[0] === MESSAGE_SYNC_REPLY) onStatus('synced');
+      };
+      current.onclose = () => {
+        if (stopped || socket !== current) return;
+        // Whoever was here may be gone by the time this copy is back; the
+        // relay sends the current states again on reconnect
+        clearStates();
+        onStatus('offline');
+        retryTimer = setTimeout(open, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, 30000);
+      };
+    };
+
+    doc.on('update', handleUpdate);
+    open();
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      doc.off('update', handleUpdate);
+      socket?.close();
+      socket = null;
+      clearStates();
+    };
+  };
+
+  return { connect, awareness };
+};
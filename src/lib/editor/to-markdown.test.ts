@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import '@/components/editor/blocks';
+import { Block, BlockType } from './blocks';
+import { blocksToMarkdown, escapeMarkdown, fenceCode, richTextToMarkdown } from './to-markdown';
+
+let nextId = 0;
+const block = (type: BlockType, content: string, fields: Partial<Block> = {}): Block =>
+  ({ id: `block-${nextId++}`, type, content, ...fields });
+
+describe('blocksToMarkdown', () => {
+  it('exports every built-in text block type', () => {
+    const markdown = blocksToMarkdown([
+      block('heading1', 'Title'),
+      block('paragraph', 'Some bold text', { richText: [{ text: 'Some ' }, { text: 'bold', marks: { bold: true } }, { text: ' text' }] }),
+      block('list', 'one', { children: [block('list', 'nested')] }),
+      block('list', 'two'),
+      block('numbered-list', 'first', { listStart: 3 }),
+      block('numbered-list', 'second'),
+      block('todo', 'done', { checked: true }),
+      block('quote', 'quoted'),
+      block('divider', ''),
+      block('toggle', '', { toggleTitle: 'More', children: [block('paragraph', 'inside')] }),
+      block('callout', 'Note')
+    ]);
+
+    expect(markdown).toBe([
+      '# Title',
+      '',
+      'Some **bold** text',
+      '',
+      '- one',
+      '  - nested',
+      '- two',
+      '3. first',
+      '4. second',
+      '- [x] done',
+      '',
+      '> quoted',
+      '',
+      '---',
+      '',
+      '<details>',
+      '<summary>More</summary>',
+      '',
+      'inside',
+      '',
+      '</details>',
+      '',
+      '> 💡 Note',
+      ''
+    ].join('\n'));
+  });
+
+  it('fences code, escapes table cells and encodes image URLs', () => {
+    expect(blocksToMarkdown([
+      block('code', 'const a = 1;\n```', { language: 'ts' }),
+      block('table', '', { tableData: { headers: ['A', 'B|C'], rows: [['1', '2']] } }),
+      block('image', 'https://example.com/a b.png', { fileName: 'pic' })
+    ])).toBe([
+      '````ts',
+      'const a = 1;',
+      '```',
+      '````',
+      '',
+      '| A | B\\|C |',
+      '| --- | --- |',
+      '| 1 | 2 |',
+      '',
+      '![pic](https://example.com/a%20b.png)',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('inline Markdown', () => {
+  it('escapes characters that would become syntax', () => {
+    expect(escapeMarkdown('*not* _em_ [x]')).toBe('\\*not\\* \\_em\\_ \\[x\\]');
+  });
+
+  it('writes marks and links', () => {
+    expect(richTextToMarkdown([
+      { text: 'a', marks: { italic: true } },
+      { text: ' ' },
+      { text: 'site', marks: { link: 'https://example.com' } },
+      { text: ' ' },
+      { text: 'x', marks: { code: true } }
+    ])).toBe('_a_ [site](https://example.com) `x`');
+  });
+
+  it('uses a fence longer than any inside the code', () => {
+    expect(fenceCode('a\n```\nb', 'js')).toBe('````js\na\n```\nb\n````');
+  });
+});
@@ -0,0 +1,139 @@
+import { Block, getBlockRichText } from './blocks';
+import { getBlockType } from './registry';
+import { MarkType, RichText, normalizeRichText } from './rich-text';
+
+// Markdown (CommonMark + GFM) export. Each block type renders itself through
+// `toMarkdown` in the registry; types without it export their text.
+
+export interface MarkdownContext {
+  blocks: Block[];   // Siblings of the block being exported
+  index: number;     // Position of the block among them
+  children: string;  // Markdown of the block's children, for types with `wrapsChildren`
+}
+
+// Blocks of these types are written on consecutive lines so they form one list
+const LIST_TYPES = new Set(['list', 'numbered-list', 'todo']);
+
+// Opening and closing syntax per mark, outermost first. Code must stay
+// innermost because nothing inside a code span is parsed.
+const MARK_SYNTAX: [MarkType, (value: string, text: string) => [string, string]][] = [
+  ['link', (href) => ['[', `](${href.replace(/[()\s]/g, encodeURIComponent)})`]],
+  ['bold', () => ['**', '**']],
+  ['italic', () => ['_', '_']],
+  ['strike', () => ['~~', '~~']],
+  ['underline', () => ['<u>', '</u>']],
+  ['highlight', () => ['<mark>', '</mark>']],
+  ['code', (_, text) => {
+    // A fence longer than any backtick run inside the code
+    const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    const padding = longestRun ? ' ' : '';
+    return [fence + padding, padding + fence];
+  }]
+];
+
+export const escapeMarkdown = (text: string) =>
+  text
+    .replace(/([\\`*_[\]<>~|])/g, '\\$1')
+    // Characters that would start a heading, quote or list at the start of a line
+    .replace(/^(\s*)([#+-]|\d+\.)(?=\s|$)/gm, '$1\\$2');
+
+// Inline Markdown for rich text. Marks shared by neighbouring spans stay open
+// across them, and whitespace is kept outside the markers so they still parse.
+export const richTextToMarkdown = (richText: RichText) => {
+  let output = '';
+  let open: { type: MarkType; value: string; close: string }[] = [];
+
+  const closeTo = (depth: number) => {
+    const trailing = /\s*$/.exec(output)?.[0] || '';
+    output = output.slice(0, output.length - trailing.length);
+    open.slice(depth).reverse().forEach(marker => { output += marker.close; });
+    output += trailing;
+    open = open.slice(0, depth);
+  };
+
+  normalizeRichText(richText).forEach(({ text, marks = {} }) => {
+    const wanted = MARK_SYNTAX
+      .filter(([type]) => marks[type])
+      .map(([type, syntax]) => ({ type, value: String(marks[type]), syntax }));
+
+    let shared = 0;
+    while (shared < open.length && shared < wanted.length &&
+      open[shared].type === wanted[shared].type && open[shared].value === wanted[shared].value) {
+      shared++;
+    }
+    closeTo(shared);
+
+    const leading = wanted.length > shared ? /^\s*/.exec(text)?.[0] || '' : '';
+    output += leading;
+    const body = text.slice(leading.length);
+    wanted.slice(shared).forEach(({ type, value, syntax }) => {
+      const [before, close] = syntax(value, body);
+      output += before;
+      open.push({ type, value, close });
+    });
+
+    output += marks.code ? body : escapeMarkdown(body);
+  });
+  closeTo(0);
+
+  // Hard line breaks inside a block; a trailing one has nothing to break
+  return output.replace(/\n+$/, '').replace(/\n/g, '\\\n');
+};
+
+// Text of a block as inline Markdown
+export const blockTextToMarkdown = (block: Block) => richTextToMarkdown(getBlockRichText(block));
+
+// Prefixes every line, e.g. for quotes
+export const prefixLines = (text: string, prefix: string, firstPrefix = prefix) =>
+  text.split('\n').map((line, index) => `${index === 0 ? firstPrefix : prefix}${line}`.trimEnd()).join('\n');
+
+export const fenceCode = (code: string, language = '') => {
+  const longestRun = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${language}\n${code}\n${fence}`;
+};
+
+const tableCell = (text: string) => escapeMarkdown(text).replace(/\n/g, '<br>') || ' ';
+
+export const markdownTable = (headers: string[], rows: string[][]) => {
+  const width = Math.max(headers.length, ...rows.map(row => row.length), 1);
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => tableCell(cells[index] || '')).join(' | ')} |`;
+
+  return [
+    line(headers),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...rows.map(line)
+  ].join('\n');
+};
+
+export const markdownLink = (text: string, url: string) =>
+  `[${escapeMarkdown(text)}](${url.replace(/[()\s]/g, encodeURIComponent)})`;
+
+export const blockToMarkdown = (block: Block, context: MarkdownContext) => {
+  const definition = getBlockType(block.type);
+  return definition?.toMarkdown ? definition.toMarkdown(block, context) : blockTextToMarkdown(block);
+};
+
+export const blocksToMarkdown = (blocks: Block[]) => {
+  let markdown = '';
+  blocks.forEach((block, index) => {
+    const children = block.children?.length ? blocksToMarkdown(block.children).trimEnd() : '';
+    let text = blockToMarkdown(block, { blocks, index, children });
+    if (children && !getBlockType(block.type)?.wrapsChildren) {
+      // List items nest their children under the item's text; other blocks
+      // are followed by them
+      const indent = LIST_TYPES.has(block.type) ? ' '.repeat(/^\S+ /.exec(text)?.[0].length || 2) : '';
+      const tight = indent && LIST_TYPES.has(block.children[0].type);
+      text = [text, prefixLines(children, indent)].filter(Boolean).join(tight ? '\n' : '\n\n');
+    }
+    if (!text) return;
+
+    const previous = blocks[index - 1];
+    const tight = previous && LIST_TYPES.has(previous.type) && LIST_TYPES.has(block.type);
+    markdown += markdown ? (tight ? '\n' : '\n\n') : '';
+    markdown += text;
+  });
+  return markdown ? `${markdown}\n` : '';
+};
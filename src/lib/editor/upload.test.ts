@@ -0,0 +1,193 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadMedia } from './persistence';
+import {
+  UploadOptions,
+  checkUpload,
+  createHttpUploadAdapter,
+  createMediaStoreUploadAdapter,
+  createMockHttpUploadAdapter,
+  defaultUploadLimits,
+  formatFileSize,
+  isAbortError,
+  matchesAccept
+} from './upload';
+
+const MB = 1024 * 1024;
+
+const file = (name: string, type: string, size = 10) => new File([new Uint8Array(size)], name, { type });
+
+const options = (signal = new AbortController().signal): UploadOptions => ({ signal, onProgress: vi.fn() });
+
+// Stands in for XMLHttpRequest; the test plays the server through `respond`
+class FakeRequest {
+  static last: FakeRequest;
+  status = 0;
+  responseText = '';
+  headers: Record<string, string> = {};
+  body: FormData | null = null;
+  upload: { onprogress?: (e: Partial<ProgressEvent>) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+  onabort?: () => void;
+
+  constructor() {
+    FakeRequest.last = this;
+  }
+
+  open(method: string, url: string) {
+    Object.assign(this, { method, url });
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  send(body: FormData) {
+    this.body = body;
+  }
+
+  abort() {
+    this.onabort?.();
+  }
+
+  respond(status: number, responseText: string) {
+    Object.assign(this, { status, responseText });
+    this.onload?.();
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('upload limits', () => {
+  it('matches MIME types, wildcards and extensions', () => {
+    const pdf = file('Report.PDF', 'application/pdf');
+    expect(matchesAccept(pdf, 'application/pdf')).toBe(true);
+    expect(matchesAccept(pdf, 'application/*')).toBe(true);
+    expect(matchesAccept(pdf, '.pdf')).toBe(true);
+    expect(matchesAccept(pdf, 'image/*')).toBe(false);
+    expect(matchesAccept(pdf, '.doc')).toBe(false);
+    expect(matchesAccept(file('a.png', 'image/png'), 'image/jpeg')).toBe(false);
+    // A wildcard covers its own type only, not ones that start the same way
+    expect(matchesAccept(file('a', 'imagery/x'), 'image/*')).toBe(false);
+  });
+
+  it('refuses files of the wrong type or over the size limit', () => {
+    expect(checkUpload(file('a.png', 'image/png'), defaultUploadLimits.image)).toBeUndefined();
+    expect(checkUpload(file('a.txt', 'text/plain'), defaultUploadLimits.image)).toBe('a.txt is not a supported file type');
+    expect(checkUpload(file('big.png', 'image/png', 5 * MB + 1), defaultUploadLimits.image)).toBe('big.png is larger than 5 MB');
+    expect(checkUpload(file('notes.txt', ''), defaultUploadLimits.document)).toBeUndefined();
+  });
+
+  it('formats sizes in KB and MB', () => {
+    expect(formatFileSize(500)).toBe('1 KB');
+    expect(formatFileSize(5 * MB)).toBe('5 MB');
+    expect(formatFileSize(1.5 * MB)).toBe('1.5 MB');
+  });
+});
+
+describe('HTTP upload adapter', () => {
+  const startUpload = (signal?: AbortSignal) => {
+    vi.stubGlobal('XMLHttpRequest', FakeRequest);
+    const uploadOptions = options(signal);
+    const adapter = createHttpUploadAdapter('/api/uploads', { fieldName: 'media', headers: { Authorization: 'Bearer t' } });
+    const result = adapter.upload(file('a.png', 'image/png'), uploadOptions);
+    return { result, request: FakeRequest.last, onProgress: uploadOptions.onProgress };
+  };
+
+  it('posts the file and resolves with the URL the server returns', async () => {
+    const { result, request, onProgress } = startUpload();
+    expect(request).toMatchObject({ method: 'POST', url: '/api/uploads', headers: { Authorization: 'Bearer t' } });
+    expect((request.body!.get('media') as File).name).toBe('a.png');
+
+    request.upload.onprogress!({ lengthComputable: true, loaded: 5, total: 10 });
+    expect(onProgress).toHaveBeenCalledWith(0.5);
+    request.respond(201, JSON.stringify({ url: 'https://cdn.example.com/a.png', meta: { key: 'a' } }));
+    await expect(result).resolves.toEqual({ url: 'https://cdn.example.com/a.png', meta: { key: 'a' } });
+  });
+
+  it('fails on error statuses and network errors', async () => {
+    const failed = startUpload();
+    failed.request.respond(413, 'Too large');
+    await expect(failed.result).rejects.toThrow('Upload failed (413)');
+
+    const offline = startUpload();
+    offline.request.onerror!();
+    await expect(offline.result).rejects.toThrow('Network error');
+  });
+
+  it.each([
+    ['not JSON', '<html>'],
+    ['no url', JSON.stringify({ meta: {} })],
+    ['a url that is not a string', JSON.stringify({ url: { href: 'https://example.com' } })],
+    ['an empty url', JSON.stringify({ url: '' })],
+    ['meta that is not an object', JSON.stringify({ url: 'https://example.com/a.png', meta: 'key' })],
+    ['null', 'null']
+  ])('rejects a response with %s', async (_, responseText) => {
+    const { result, request } = startUpload();
+    request.respond(200, responseText);
+    await expect(result).rejects.toThrow('The server sent an invalid response');
+  });
+
+  it('aborts the request when cancelled', async () => {
+    const controller = new AbortController();
+    const { result } = startUpload(controller.signal);
+    controller.abort();
+    const error = await result.catch(err => err);
+    expect(isAbortError(error)).toBe(true);
+  });
+});
+
+describe('media store upload adapter', () => {
+  it('keeps the file in IndexedDB behind a media: URL', async () => {
+    const uploadOptions = options();
+    const { url } = await createMediaStoreUploadAdapter().upload(file('a.png', 'image/png'), uploadOptions);
+    expect(url).toMatch(/^media:/);
+    expect((await loadMedia(url))?.size).toBe(10);
+    expect(uploadOptions.onProgress).toHaveBeenCalledWith(1);
+  });
+
+  it('does not start once cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const error = await createMediaStoreUploadAdapter().upload(file('a.png', 'image/png'), options(controller.signal)).catch(err => err);
+    expect(isAbortError(error)).toBe(true);
+  });
+});
+
+describe('mock upload adapter', () => {
+  it('serves files from object URLs that dispose revokes', async () => {
+    vi.useFakeTimers();
+    const createObjectURL = vi.spyOn(URL, 'createObjectURL').mockReturnValueOnce('blob:first').mockReturnValueOnce('blob:second');
+    const revokeObjectURL = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => undefined);
+    const adapter = createMockHttpUploadAdapter();
+
+    for (const name of ['a.png', 'b.png']) {
+      const result = adapter.upload(file(name, 'image/png'), options());
+      await vi.advanceTimersByTimeAsync(600);
+      await expect(result).resolves.toEqual({ url: createObjectURL.mock.results.at(-1)!.value, meta: { mock: true } });
+    }
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+
+    adapter.dispose!();
+    expect(revokeObjectURL.mock.calls).toEqual([['blob:first'], ['blob:second']]);
+    adapter.dispose!();
+    expect(revokeObjectURL).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops and creates no URL when cancelled', async () => {
+    vi.useFakeTimers();
+    const createObjectURL = vi.spyOn(URL, 'createObjectURL');
+    const controller = new AbortController();
+    const result = createMockHttpUploadAdapter().upload(file('a.png', 'image/png'), options(controller.signal));
+    await vi.advanceTimersByTimeAsync(200);
+    controller.abort();
+    expect(isAbortError(await result.catch(err => err))).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(createObjectURL).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+import { storeMedia } from './persistence';
+
+// Uploads for media blocks. The editor hands each file to an adapter and
+// stores only the URL it returns, never the file itself.
+
+export type UploadKind = 'image' | 'video' | 'audio' | 'document';
+
+export interface UploadResult {
+  url: string;
+  meta?: Record<string, unknown>;   // Kept on the block as `fileMeta`, e.g. a storage key
+}
+
+export interface UploadOptions {
+  signal: AbortSignal;                       // Aborted when the user cancels
+  onProgress: (fraction: number) => void;    // 0 to 1
+}
+
+export interface UploadAdapter {
+  upload: (file: File, options: UploadOptions) => Promise<UploadResult>;
+  // Frees what the adapter holds, such as object URLs, once no editor uses
+  // it. The URLs it returned may stop working.
+  dispose?: () => void;
+}
+
+export interface UploadLimit {
+  maxSize: number;    // Bytes
+  accept: string[];   // MIME types (`image/*` style wildcards allowed) or file extensions
+}
+
+export type UploadLimits = Record<UploadKind, UploadLimit>;
+
+const MB = 1024 * 1024;
+
+export const defaultUploadLimits: UploadLimits = {
+  image: { maxSize: 5 * MB, accept: ['image/*'] },
+  video: { maxSize: 100 * MB, accept: ['video/*'] },
+  audio: { maxSize: 20 * MB, accept: ['audio/*'] },
+  document: { maxSize: 10 * MB, accept: ['.pdf', '.doc', '.docx', '.txt', '.rtf', '.odt'] }
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= MB ? `${(bytes / MB).toFixed(bytes % MB ? 1 : 0)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export const matchesAccept = (file: File, accept: string) => {
+  if (accept.startsWith('.')) return file.name.toLowerCase().endsWith(accept.toLowerCase());
+  if (accept.endsWith('/*')) return file.type.startsWith(accept.slice(0, -1));
+  return file.type === accept;
+};
+
+// Why `file` can't be uploaded, or undefined when it can
+export const checkUpload = (file: File, limit: UploadLimit): string | undefined => {
+  if (!limit.accept.some(accept => matchesAccept(file, accept))) return `${file.name} is not a supported file type`;
+  if (file.size > limit.maxSize) return `${file.name} is larger than ${formatFileSize(limit.maxSize)}`;
+  return undefined;
+};
+
+const abortError = () => new DOMException('Upload cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// The default: files stay in this browser, in IndexedDB (or in memory when
+// IndexedDB is unavailable), and blocks refer to them by a `media:` URL
+export const createMediaStoreUploadAdapter = (): UploadAdapter => ({
+  upload: async (file, { signal, onProgress }) => {
+    if (signal.aborted) throw abortError();
+    const url = await storeMedia(file);
+    onProgress(1);
+    return { url };
+  }
+});
+
+// The `{ url, meta? }` a server sent back, or null for anything else
+const parseUploadResult = (text: string): UploadResult | null => {
+  try {
+    const result: unknown = JSON.parse(text);
+    if (typeof result !== 'object' || result === null) return null;
+    const { url, meta } = result as Record<string, unknown>;
+    if (typeof url !== 'string' || !url) return null;
+    if (meta === undefined) return { url };
+    return typeof meta === 'object' && meta !== null && !Array.isArray(meta) ? { url, meta: meta as Record<string, unknown> } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Posts the file as multipart form data and expects `{ url, meta? }` JSON back
+export const createHttpUploadAdapter = (
+  endpoint: string,
+  { fieldName = 'file', headers = {} }: { fieldName?: string; headers?: Record<string, string> } = {}
+): UploadAdapter => ({
+  upload: (file, { signal, onProgress }) => new Promise<UploadResult>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('POST', endpoint);
+    Object.entries(headers).forEach(([name, value]) => request.setRequestHeader(name, value));
+    request.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    request.onload = () => {
+      if (request.status < 200 || request.status >= 300) {
+        reject(new Error(`Upload failed (${request.status})`));
+        return;
+      }
+      const result = parseUploadResult(request.responseText);
+      if (result) resolve(result);
+      else reject(new Error('The server sent an invalid response'));
+    };
+    request.onerror = () => reject(new Error('Network error'));
+    request.onabort = () => reject(abortError());
+    signal.addEventListener('abort', () => request.abort());
+
+    const body = new FormData();
+    body.append(fieldName, file);
+    request.send(body);
+  })
+});
+
+// Pretends to upload over a slow connection, for trying out progress, cancel
+// and retry without a server. The file is served from an object URL, which
+// `dispose` revokes.
+export const createMockHttpUploadAdapter = (
+  { bytesPerSecond = 2 * MB, failureRate = 0 }: { bytesPerSecond?: number; failureRate?: number } = {}
+): UploadAdapter => {
+  const objectUrls = new Set<string>();
+  return {
+    upload: (file, { signal, onProgress }) => new Promise<UploadResult>((resolve, reject) => {
+      const duration = Math.max(500, (file.size / bytesPerSecond) * 1000);
+      const started = Date.now();
+      const timer = setInterval(() => {
+        const fraction = Math.min(1, (Date.now() - started) / duration);
+        onProgress(fraction);
+        if (fraction < 1) return;
+        clearInterval(timer);
+        if (Math.random() < failureRate) {
+          reject(new Error('Upload failed (500)'));
+          return;
+        }
+        const url = URL.createObjectURL(file);
+        objectUrls.add(url);
+        resolve({ url, meta: { mock: true } });
+      }, 100);
+      signal.addEventListener('abort', () => {
+        clearInterval(timer);
+        reject(abortError());
+      });
+    }),
+    dispose: () => {
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+      objectUrls.clear();
+    }
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import '@/components/editor/blocks';
+import { Block } from './blocks';
+import { validateDocument } from './validate-document';
+
+describe('validateDocument', () => {
+  it('returns valid documents unchanged', () => {
+    const blocks: Block[] = [
+      { id: 'a', type: 'paragraph', content: 'one', children: [{ id: 'b', type: 'todo', content: 'two', checked: true }] }
+    ];
+    expect(validateDocument(blocks)).toEqual({ blocks, issues: [] });
+    expect(validateDocument(blocks).blocks).toBe(blocks);
+  });
+
+  it('gives missing and duplicate ids fresh ones', () => {
+    const { blocks, issues } = validateDocument([
+      { id: 'a', type: 'paragraph', content: 'one' },
+      { id: 'a', type: 'paragraph', content: 'two', children: [{ id: '', type: 'paragraph', content: 'three' }] }
+    ]);
+    const ids = [blocks[0].id, blocks[1].id, blocks[1].children![0].id];
+    expect(new Set(ids).size).toBe(3);
+    expect(ids[0]).toBe('a');
+    expect(issues).toEqual([
+      { kind: 'duplicate-id', blockId: ids[1], detail: 'a' },
+      { kind: 'missing-id', blockId: ids[2] }
+    ]);
+  });
+
+  it('keeps blocks of unknown types and reports them', () => {
+    const plugin = { id: 'p', type: 'kanban', content: 'board', columns: ['todo'] } as unknown as Block;
+    const { blocks, issues } = validateDocument([plugin]);
+    expect(blocks[0]).toBe(plugin);
+    expect(issues).toEqual([{ kind: 'unknown-type', blockId: 'p', detail: 'kanban' }]);
+  });
+
+  it('turns blocks without a type into paragraphs', () => {
+    const { blocks, issues } = validateDocument([{ id: 'x', content: 'text' } as unknown as Block]);
+    expect(blocks[0]).toMatchObject({ id: 'x', type: 'paragraph', content: 'text' });
+    expect(issues[0]).toMatchObject({ kind: 'unknown-type', blockId: 'x' });
+  });
+
+  it('fills in missing data from the type defaults', () => {
+    const { blocks, issues } = validateDocument([
+      { id: 't', type: 'toggle', content: '' },
+      { id: 'g', type: 'table', content: '', tableData: { headers: ['A', 'B'], rows: [['1']] } }
+    ]);
+    expect(blocks[0].toggleTitle).toBe('');
+    expect(blocks[1].tableData).toEqual({ headers: ['Column 1', 'Column 2'], rows: [['', ''], ['', '']] });
+    expect(issues.map(issue => [issue.kind, issue.blockId])).toEqual([['invalid-data', 't'], ['invalid-data', 'g']]);
+  });
+
+  it('turns calendar date strings back into dates', () => {
+    const { blocks } = validateDocument([{
+      id: 'c',
+      type: 'calendar',
+      content: '',
+      selectedDate: '2024-05-01T00:00:00.000Z',
+      calendarEvents: [
+        { id: 'e1', title: 'Kept', startTime: '2024-05-01T09:00:00.000Z', endTime: '2024-05-01T10:00:00.000Z' },
+        { id: 'e2', title: 'Dropped', startTime: 'not a date', endTime: '2024-05-01T10:00:00.000Z' }
+      ]
+    } as unknown as Block]);
+    expect(blocks[0].selectedDate).toEqual(new Date('2024-05-01T00:00:00.000Z'));
+    expect(blocks[0].calendarEvents!.map(event => event.title)).toEqual(['Kept']);
+    expect(blocks[0].calendarEvents![0].startTime).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,96 @@
+import { Block, createBlockId } from './blocks';
+import { BlockTypeDefinition, getBlockType } from './registry';
+
+// Integrity pass over a loaded document. Blocks from storage, older versions
+// or other tools can have duplicate ids, types this editor does not know or
+// type-specific data that is missing; each problem is repaired, or for
+// unknown types kept, and reported.
+
+export interface DocumentIssue {
+  kind: 'missing-id' | 'duplicate-id' | 'unknown-type' | 'invalid-data';
+  blockId: string;   // Id of the block after repair
+  detail?: string;   // The duplicate id, the unknown type or the validation message
+}
+
+export interface DocumentValidation {
+  blocks: Block[];   // `blocks` itself when nothing needed repair
+  issues: DocumentIssue[];
+}
+
+// Validators expect well-formed data and may throw on anything else
+const checkBlock = (definition: BlockTypeDefinition, block: Block): string | undefined => {
+  try {
+    return definition.validate?.(block);
+  } catch {
+    return `Invalid ${definition.label.toLowerCase()} data`;
+  }
+};
+
+export const validateDocument = (blocks: Block[]): DocumentValidation => {
+  const seenIds = new Set<string>();
+  const issues: DocumentIssue[] = [];
+
+  const repairBlock = (block: Block): Block => {
+    let repaired = block;
+
+    if (typeof block.id !== 'string' || !block.id) {
+      repaired = { ...repaired, id: createBlockId() };
+      issues.push({ kind: 'missing-id', blockId: repaired.id });
+    } else if (seenIds.has(block.id)) {
+      repaired = { ...repaired, id: createBlockId() };
+      issues.push({ kind: 'duplicate-id', blockId: repaired.id, detail: block.id });
+    }
+    seenIds.add(repaired.id);
+
+    if (typeof block.content !== 'string') {
+      repaired = { ...repaired, content: '' };
+      issues.push({ kind: 'invalid-data', blockId: repaired.id, detail: 'Block content is not text' });
+    }
+
+    const definition = typeof block.type === 'string' ? getBlockType(block.type) : undefined;
+    if (typeof block.type !== 'string' || !block.type) {
+      // Nothing to go on; its text is kept as a paragraph
+      repaired = { ...repaired, type: 'paragraph' };
+      issues.push({ kind: 'unknown-type', blockId: repaired.id, detail: String(block.type) });
+    } else if (!definition) {
+      // Kept as it is, e.g. for the editor or plugin that added it, and shown
+      // as a placeholder
+      issues.push({ kind: 'unknown-type', blockId: repaired.id, detail: block.type });
+    } else {
+      const fixed = definition.repair?.(repaired) ?? repaired;
+      if (fixed !== repaired) {
+        repaired = fixed;
+        issues.push({ kind: 'invalid-data', blockId: repaired.id, detail: `Repaired ${definition.label.toLowerCase()} data` });
+      }
+
+      const error = checkBlock(definition, repaired);
+      if (error) {
+        // Missing fields are filled in from the type's defaults. Data that is
+        // still invalid is replaced by the defaults.
+        const defaults = definition.defaults?.() || {};
+        const filled = { ...repaired };
+        (Object.keys(defaults) as (keyof Block)[]).forEach(key => {
+          if (filled[key] === undefined || filled[key] === null) Object.assign(filled, { [key]: defaults[key] });
+        });
+        repaired = checkBlock(definition, filled) ? { ...repaired, ...defaults } : filled;
+        issues.push({ kind: 'invalid-data', blockId: repaired.id, detail: error });
+      }
+    }
+
+    if (block.children !== undefined && !Array.isArray(block.children)) {
+      repaired = { ...repaired, children: undefined };
+      issues.push({ kind: 'invalid-data', blockId: repaired.id, detail: 'Block children are not a list' });
+    } else if (block.children) {
+      const children = repairBlocks(block.children);
+      if (children !== block.children) repaired = { ...repaired, children };
+    }
+    return repaired;
+  };
+
+  const repairBlocks = (list: Block[]): Block[] => {
+    const repaired = list.map(repairBlock);
+    return repaired.every((block, index) => block === list[index]) ? list : repaired;
+  };
+
+  return { blocks: repairBlocks(blocks), issues };
+};
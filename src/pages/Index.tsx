@@ -1,8 +1,10 @@
-
 import NotionEditor from "@/components/NotionEditor";
+import { createIndexedDBAdapter } from "@/lib/editor/persistence";
+
+const autosave = { key: "index", adapter: createIndexedDBAdapter() };
 
 const Index = () => {
-  return <NotionEditor />;
+  return <NotionEditor autosave={autosave} />;
 };
 
 export default Index;